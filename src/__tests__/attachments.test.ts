@@ -0,0 +1,241 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ATTACHMENTS_DIR, inlineImageFiles, prepareAttachments, validateMessageContent } from '../adapters/attachments';
+import { contentText } from '../adapters/prompt';
+import { Message } from '../types';
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_DATA_URL = `data:image/png;base64,${PNG_BYTES.toString('base64')}`;
+
+const image = (url: string): Message[] => [{ role: 'user', content: [{ type: 'image_url', image_url: { url } }] }];
+
+describe('attachments', () => {
+  let directory: string;
+  let runtimeDir: string;
+  let imageDir: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+    runtimeDir = path.join(directory, 'runtime');
+    imageDir = path.join(directory, 'images');
+    fs.mkdirSync(runtimeDir);
+    fs.mkdirSync(imageDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('validateMessageContent', () => {
+    it('should accept strings, null and content part arrays', () => {
+      const imageFile = path.join(imageDir, 'cat.png');
+      fs.writeFileSync(imageFile, PNG_BYTES);
+
+      expect(
+        validateMessageContent(
+          [
+            { role: 'system', content: 'Be brief.' },
+            { role: 'assistant', content: null },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'What is this?' },
+                { type: 'image_url', image_url: { url: PNG_DATA_URL } },
+                { type: 'image_url', image_url: { url: pathToFileURL(imageFile).href, detail: 'low' } },
+              ],
+            },
+          ],
+          imageDir
+        )
+      ).toBeUndefined();
+    });
+
+    it('should reject unknown content parts', () => {
+      const messages = [{ role: 'user', content: [{ type: 'audio', data: '...' }] }] as any;
+
+      expect(validateMessageContent(messages)).toBe(
+        'Invalid request: content parts must be of type "text" or "image_url"'
+      );
+    });
+
+    it('should reject content that is neither a string nor an array', () => {
+      expect(validateMessageContent([{ role: 'user', content: { text: 'Hi' } } as any])).toBe(
+        'Invalid request: message content must be a string or an array of content parts'
+      );
+    });
+
+    it('should reject remote, malformed and missing images', () => {
+      expect(validateMessageContent(image('https://example.com/cat.png'))).toBe(
+        'Invalid request: image_url must be a base64 data URL'
+      );
+      expect(validateMessageContent(image('https://example.com/cat.png'), imageDir)).toBe(
+        'Invalid request: image_url must be a base64 data URL or a file:// URL'
+      );
+      expect(validateMessageContent(image('data:image/png;base64'))).toBe(
+        'Invalid request: malformed data URL in image_url'
+      );
+      expect(validateMessageContent(image(pathToFileURL(path.join(imageDir, 'missing.png')).href), imageDir)).toMatch(
+        /^Invalid request: image file not found: .*missing\.png$/
+      );
+    });
+
+    it('should reject file URLs without an image directory', () => {
+      const imageFile = path.join(imageDir, 'cat.png');
+      fs.writeFileSync(imageFile, PNG_BYTES);
+
+      expect(validateMessageContent(image(pathToFileURL(imageFile).href))).toBe(
+        'Invalid request: file:// image URLs are not enabled on this server, use a base64 data URL'
+      );
+    });
+
+    it('should reject files outside the image directory, whether they exist or not', () => {
+      const outside = 'Invalid request: image file is outside the image directory';
+
+      expect(validateMessageContent(image('file:///etc/passwd'), imageDir)).toBe(`${outside}: file:///etc/passwd`);
+      expect(validateMessageContent(image('file:///etc/missing.png'), imageDir)).toBe(
+        `${outside}: file:///etc/missing.png`
+      );
+      expect(validateMessageContent(image(`file://${imageDir}/../runtime/../../../etc/passwd`), imageDir)).toMatch(
+        /^Invalid request: image file is outside the image directory: /
+      );
+    });
+
+    it('should reject symbolic links leading out of the image directory', () => {
+      const secret = path.join(directory, 'secret.png');
+      fs.writeFileSync(secret, PNG_BYTES);
+      fs.symlinkSync(secret, path.join(imageDir, 'link.png'));
+
+      expect(validateMessageContent(image(pathToFileURL(path.join(imageDir, 'link.png')).href), imageDir)).toMatch(
+        /^Invalid request: image file is outside the image directory: /
+      );
+    });
+
+    it('should reject files that are not images', () => {
+      fs.writeFileSync(path.join(imageDir, 'notes.txt'), 'secret notes');
+      fs.writeFileSync(path.join(imageDir, 'fake.png'), 'secret notes');
+      fs.writeFileSync(path.join(imageDir, 'cat.gif'), PNG_BYTES);
+
+      for (const name of ['notes.txt', 'fake.png', 'cat.gif']) {
+        expect(validateMessageContent(image(pathToFileURL(path.join(imageDir, name)).href), imageDir)).toMatch(
+          /^Invalid request: not a PNG, JPEG, GIF or WebP image: /
+        );
+      }
+    });
+  });
+
+  describe('inlineImageFiles', () => {
+    it('should replace file URLs by data URLs of the files', async () => {
+      const imageFile = path.join(imageDir, 'cat.PNG');
+      fs.writeFileSync(imageFile, PNG_BYTES);
+      const messages: Message[] = [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: pathToFileURL(imageFile).href, detail: 'low' } },
+          ],
+        },
+      ];
+
+      expect(await inlineImageFiles(messages, imageDir)).toEqual([
+        messages[0],
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: PNG_DATA_URL, detail: 'low' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should return messages without images unchanged', async () => {
+      const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+
+      expect(await inlineImageFiles(messages)).toBe(messages);
+    });
+  });
+
+  describe('prepareAttachments', () => {
+    const reference = (attachment: { relativePath: string }) => `@${attachment.relativePath}`;
+
+    it('should return messages unchanged when there are no content parts', async () => {
+      const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+
+      const prepared = await prepareAttachments(messages, runtimeDir, reference);
+
+      expect(prepared.messages).toBe(messages);
+      expect(prepared.attachments).toEqual([]);
+      expect(fs.existsSync(path.join(runtimeDir, ATTACHMENTS_DIR))).toBe(false);
+    });
+
+    it('should decode data URLs into files and reference them in the text', async () => {
+      const prepared = await prepareAttachments(
+        [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: PNG_DATA_URL } },
+            ],
+          },
+        ],
+        runtimeDir,
+        reference
+      );
+
+      expect(prepared.attachments).toHaveLength(1);
+      const [attachment] = prepared.attachments;
+      expect(attachment.mimeType).toBe('image/png');
+      expect(attachment.path.startsWith(path.join(runtimeDir, ATTACHMENTS_DIR))).toBe(true);
+      expect(attachment.path.endsWith('image-1.png')).toBe(true);
+      expect(fs.readFileSync(attachment.path)).toEqual(PNG_BYTES);
+      expect(prepared.messages).toEqual([
+        { role: 'user', content: `What is this?\n@${attachment.relativePath}` },
+      ]);
+
+      await prepared.cleanup();
+      expect(fs.existsSync(attachment.path)).toBe(false);
+    });
+
+    it('should refuse to read local files', async () => {
+      await expect(prepareAttachments(image('file:///etc/passwd'), runtimeDir, reference)).rejects.toThrow(
+        'Images must be passed to adapters as base64 data URLs'
+      );
+      expect(fs.existsSync(path.join(runtimeDir, ATTACHMENTS_DIR))).toBe(false);
+    });
+
+    it('should number images across messages', async () => {
+      const image = { type: 'image_url' as const, image_url: { url: PNG_DATA_URL } };
+
+      const prepared = await prepareAttachments(
+        [
+          { role: 'user', content: [image] },
+          { role: 'assistant', content: 'A cat.' },
+          { role: 'user', content: [{ type: 'text', text: 'And this?' }, image] },
+        ],
+        runtimeDir,
+        (_, index) => `[Image #${index + 1}]`
+      );
+
+      expect(prepared.messages.map((m) => m.content)).toEqual(['[Image #1]', 'A cat.', 'And this?\n[Image #2]']);
+      await prepared.cleanup();
+    });
+  });
+
+  describe('contentText', () => {
+    it('should join text parts and replace images with a placeholder', () => {
+      expect(contentText(null)).toBe('');
+      expect(contentText('Hello')).toBe('Hello');
+      expect(
+        contentText([
+          { type: 'text', text: 'Look:' },
+          { type: 'image_url', image_url: { url: PNG_DATA_URL } },
+        ])
+      ).toBe('Look:\n[image]');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { ApiKeyAuth, maskApiKey } from '../auth';
+
+describe('ApiKeyAuth', () => {
+  const auth = new ApiKeyAuth([
+    { key: 'sk-team-1234567890', name: 'team' },
+    { key: 'sk-ci-abcdef', models: ['claude-code/haiku'], rateLimit: 2, corsOrigins: ['http://localhost:3000'] },
+  ]);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should require at least one key', () => {
+    expect(() => new ApiKeyAuth([])).toThrow('At least one API key is required');
+  });
+
+  describe('authenticate', () => {
+    it('should return the policy of a known bearer token', () => {
+      expect(auth.authenticate('Bearer sk-team-1234567890')?.name).toBe('team');
+      expect(auth.authenticate('bearer sk-ci-abcdef')?.models).toEqual(['claude-code/haiku']);
+    });
+
+    it('should reject missing, malformed and unknown keys', () => {
+      expect(auth.authenticate(undefined)).toBeUndefined();
+      expect(auth.authenticate('sk-team-1234567890')).toBeUndefined();
+      expect(auth.authenticate('Basic c2stdGVhbQ==')).toBeUndefined();
+      expect(auth.authenticate('Bearer sk-team-123456789')).toBeUndefined();
+      expect(auth.authenticate('Bearer sk-unknown')).toBeUndefined();
+    });
+  });
+
+  describe('policy', () => {
+    it('should restrict models when configured', () => {
+      const [team, ci] = [auth.authenticate('Bearer sk-team-1234567890')!, auth.authenticate('Bearer sk-ci-abcdef')!];
+
+      expect(auth.allowsModel(team, 'claude-code/opus')).toBe(true);
+      expect(auth.allowsModel(ci, 'claude-code/haiku')).toBe(true);
+      expect(auth.allowsModel(ci, 'claude-code/opus')).toBe(false);
+    });
+
+    it('should restrict origins when configured', () => {
+      const [team, ci] = [auth.authenticate('Bearer sk-team-1234567890')!, auth.authenticate('Bearer sk-ci-abcdef')!];
+
+      expect(auth.allowsOrigin(team, 'http://evil.example')).toBe(true);
+      expect(auth.allowsOrigin(ci, 'http://localhost:3000')).toBe(true);
+      expect(auth.allowsOrigin(ci, 'http://evil.example')).toBe(false);
+    });
+
+    it('should allow an origin for preflight when any key allows it', () => {
+      const restricted = new ApiKeyAuth([{ key: 'a', corsOrigins: ['http://a.example'] }]);
+
+      expect(restricted.allowsOriginForAnyKey('http://a.example')).toBe(true);
+      expect(restricted.allowsOriginForAnyKey('http://b.example')).toBe(false);
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('should allow unlimited requests without a rate limit', () => {
+      const policy = { key: 'unlimited' };
+      for (let i = 0; i < 100; i++) {
+        expect(auth.checkRateLimit(policy).allowed).toBe(true);
+      }
+    });
+
+    it('should reject requests over the per-minute limit until the window moves on', () => {
+      jest.useFakeTimers({ now: 0 });
+      const limited = new ApiKeyAuth([{ key: 'k', rateLimit: 2 }]);
+      const policy = limited.authenticate('Bearer k')!;
+
+      expect(limited.checkRateLimit(policy)).toEqual({ allowed: true });
+      jest.setSystemTime(10000);
+      expect(limited.checkRateLimit(policy)).toEqual({ allowed: true });
+      expect(limited.checkRateLimit(policy)).toEqual({ allowed: false, retryAfter: 50 });
+
+      jest.setSystemTime(60001);
+      expect(limited.checkRateLimit(policy)).toEqual({ allowed: true });
+      expect(limited.checkRateLimit(policy)).toEqual({ allowed: false, retryAfter: 10 });
+    });
+  });
+});
+
+describe('maskApiKey', () => {
+  it('should keep only the start and end of the key', () => {
+    expect(maskApiKey('sk-team-1234567890')).toBe('sk-***********7890');
+    expect(maskApiKey('short')).toBe('*****');
+  });
+});
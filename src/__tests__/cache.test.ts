@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiskCacheStore, MemoryCacheStore, ResponseCache } from '../cache';
+import { ChatCompletionRequest, Message } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return stored results', async () => {
+    const store = new MemoryCacheStore(10, 0);
+    await store.set('a', { content: 'A' });
+
+    await expect(store.get('a')).resolves.toEqual({ content: 'A' });
+    await expect(store.get('b')).resolves.toBeUndefined();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2, 0);
+    await store.set('a', { content: 'A' });
+    await store.set('b', { content: 'B' });
+    await store.get('a');
+    await store.set('c', { content: 'C' });
+
+    expect(store.size).toBe(2);
+    await expect(store.get('a')).resolves.toEqual({ content: 'A' });
+    await expect(store.get('b')).resolves.toBeUndefined();
+    await expect(store.get('c')).resolves.toEqual({ content: 'C' });
+  });
+
+  it('should expire entries after the TTL', async () => {
+    jest.useFakeTimers({ now: 1000 });
+    const store = new MemoryCacheStore(10, 500);
+    await store.set('a', { content: 'A' });
+
+    jest.setSystemTime(1499);
+    await expect(store.get('a')).resolves.toEqual({ content: 'A' });
+
+    jest.setSystemTime(1500);
+    await expect(store.get('a')).resolves.toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('DiskCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist results across store instances', async () => {
+    await new DiskCacheStore(directory, 0).set('key', { content: 'A', usage: { inputTokens: 1, outputTokens: 2 } });
+
+    await expect(new DiskCacheStore(directory, 0).get('key')).resolves.toEqual({
+      content: 'A',
+      usage: { inputTokens: 1, outputTokens: 2 },
+    });
+    expect(fs.readdirSync(directory)).toEqual(['key.json']);
+  });
+
+  it('should create the directory on first write', async () => {
+    const nested = path.join(directory, 'nested', 'cache');
+    await new DiskCacheStore(nested, 0).set('key', { content: 'A' });
+
+    expect(fs.existsSync(path.join(nested, 'key.json'))).toBe(true);
+  });
+
+  it('should remove expired entries', async () => {
+    jest.useFakeTimers({ now: 1000, doNotFake: ['setImmediate', 'nextTick'] });
+    const store = new DiskCacheStore(directory, 500);
+    await store.set('key', { content: 'A' });
+
+    jest.setSystemTime(2000);
+    await expect(store.get('key')).resolves.toBeUndefined();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('should treat unreadable entries as misses', async () => {
+    fs.writeFileSync(path.join(directory, 'key.json'), 'not json');
+
+    await expect(new DiskCacheStore(directory, 0).get('key')).resolves.toBeUndefined();
+  });
+});
+
+describe('ResponseCache', () => {
+  const cache = new ResponseCache(new MemoryCacheStore(10, 0));
+  const adapter = new StubAdapter({ name: 'claude-code' });
+  const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+  const request: ChatCompletionRequest = { model: 'claude-code', messages };
+
+  it('should produce the same key for identical requests', () => {
+    expect(cache.key(adapter, request, messages)).toBe(cache.key(adapter, { ...request }, [...messages]));
+    expect(cache.key(adapter, request, messages)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should produce different keys when model, messages, sampling parameters or output limits differ', () => {
+    const base = cache.key(adapter, request, messages);
+
+    expect(cache.key(new StubAdapter({ name: 'gemini-cli' }), request, messages)).not.toBe(base);
+    expect(cache.key(adapter, { ...request, model: 'claude-code/sonnet' }, messages)).not.toBe(base);
+    expect(cache.key(adapter, request, [{ role: 'user', content: 'Hi' }])).not.toBe(base);
+    expect(cache.key(adapter, { ...request, temperature: 0.2 }, messages)).not.toBe(base);
+    expect(cache.key(adapter, { ...request, max_tokens: 10 }, messages)).not.toBe(base);
+    expect(cache.key(adapter, { ...request, max_completion_tokens: 10 }, messages)).not.toBe(base);
+    expect(cache.key(adapter, { ...request, top_p: 0.5 }, messages)).not.toBe(base);
+    expect(cache.key(adapter, { ...request, stop: ['\n'] }, messages)).not.toBe(base);
+    expect(cache.key(adapter, request, messages, 'raw')).not.toBe(base);
+  });
+
+  it('should ignore the stream flag', () => {
+    expect(cache.key(adapter, { ...request, stream: true }, messages)).toBe(cache.key(adapter, request, messages));
+  });
+});
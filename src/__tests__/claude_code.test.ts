@@ -1,22 +1,89 @@
-import { promisify } from 'util';
-import { execFile as execFileCb } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { execFile as execFileCb, spawn } from 'child_process';
 import { ClaudeCodeAdapter, TimeoutError } from '../adapters/claude_code';
+import { CancelledError } from '../adapters/errors';
+import { SessionStore } from '../adapters/sessions';
+import { logger } from '../logger';
 import { Message } from '../types';
 
 // Mock child_process
 jest.mock('child_process', () => ({
   execFile: jest.fn(),
+  spawn: jest.fn(),
 }));
 
-// Mock strip-ansi
-jest.mock('strip-ansi', () => ({
-  __esModule: true,
-  default: jest.fn((str: string) => str.replace(/\x1B\[[0-9;]*m/g, '')),
-}));
+/**
+ * Minimal stand-in for a spawned child process
+ */
+function createFakeChild() {
+  const child: any = new EventEmitter();
+  child.stdin = new PassThrough();
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.exitCode = null;
+  child.killed = false;
+  child.kill = jest.fn(() => {
+    child.killed = true;
+    return true;
+  });
+  child.finish = (code: number | null) => {
+    child.exitCode = code;
+    child.stdout.end();
+    child.stderr.end();
+    setImmediate(() => child.emit('close', code));
+  };
+  return child;
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Output of `claude -p --output-format json`
+ */
+function resultJson(result: string, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result,
+    session_id: 'session-123',
+    total_cost_usd: 0.0012,
+    usage: {
+      input_tokens: 10,
+      cache_creation_input_tokens: 100,
+      cache_read_input_tokens: 1000,
+      output_tokens: 7,
+    },
+    ...extra,
+  });
+}
+
+/**
+ * One line of `claude -p --output-format stream-json --include-partial-messages`
+ */
+function textDelta(text: string): string {
+  return (
+    JSON.stringify({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+    }) + '\n'
+  );
+}
 
 describe('ClaudeCodeAdapter', () => {
   let adapter: ClaudeCodeAdapter;
   const mockExecFile = execFileCb as jest.MockedFunction<typeof execFileCb>;
+  const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -70,13 +137,13 @@ describe('ClaudeCodeAdapter', () => {
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Hello! How can I help you?', '');
+        callback(null, resultJson('Hello! How can I help you?'), '');
         return {} as any;
       });
 
       const result = await adapter.execute(messages);
 
-      expect(result).toBe('Hello! How can I help you?');
+      expect(result.content).toBe('Hello! How can I help you?');
       // We now send the prompt via stdin, so args should not include the prompt string
       expect(mockExecFile).toHaveBeenCalledWith(
         'claude',
@@ -87,11 +154,10 @@ describe('ClaudeCodeAdapter', () => {
           '--system-prompt',
           expect.any(String),
           '-p',
+          '--output-format',
+          'json',
         ],
-        expect.objectContaining({
-          cwd: '/test/runtime',
-          timeout: 30000,
-        }),
+        expect.objectContaining({ cwd: '/test/runtime' }),
         expect.any(Function)
       );
     });
@@ -103,13 +169,13 @@ describe('ClaudeCodeAdapter', () => {
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Hello! How can I help you?', '');
+        callback(null, resultJson('Hello! How can I help you?'), '');
         return {} as any;
       });
 
       const result = await adapter.execute(messages);
 
-      expect(result).toBe('Hello! How can I help you?');
+      expect(result.content).toBe('Hello! How can I help you?');
       expect(mockExecFile).toHaveBeenCalledWith(
         'claude',
         [
@@ -119,6 +185,8 @@ describe('ClaudeCodeAdapter', () => {
           '--system-prompt',
           expect.stringContaining('You are a helpful assistant'),
           '-p',
+          '--output-format',
+          'json',
         ],
         expect.any(Object),
         expect.any(Function)
@@ -133,13 +201,13 @@ describe('ClaudeCodeAdapter', () => {
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Your favorite color is blue.', '');
+        callback(null, resultJson('Your favorite color is blue.'), '');
         return {} as any;
       });
 
       const result = await adapter.execute(messages);
 
-      expect(result).toBe('Your favorite color is blue.');
+      expect(result.content).toBe('Your favorite color is blue.');
 
       // Check that conversation history is included
       // With stdin mode, we can't assert the prompt position in args; verify flags only
@@ -151,23 +219,118 @@ describe('ClaudeCodeAdapter', () => {
         '--system-prompt',
         expect.any(String),
         '-p',
+        '--output-format',
+        'json',
       ]);
     });
 
-    it('should clean ANSI codes from output', async () => {
-      const messages: Message[] = [
-        { role: 'user', content: 'Hello!' },
-      ];
+    it('should mention images saved in the runtime directory and remove them afterwards', async () => {
+      const runtimeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-runtime-'));
+      adapter = new ClaudeCodeAdapter(runtimeDir, 30000, false, 'haiku');
+      let stdin = '';
+      let attachmentExisted = false;
+
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        attachmentExisted = fs.readdirSync(path.join(runtimeDir, '.attachments')).length === 1;
+        setImmediate(() => callback(null, resultJson('A cat.'), ''));
+        const stdinStream = new PassThrough();
+        stdinStream.on('data', (data) => (stdin += data));
+        return { stdin: stdinStream } as any;
+      });
 
-      // Mock output with ANSI codes
+      try {
+        const result = await adapter.execute([
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}` } },
+            ],
+          },
+        ]);
+
+        expect(result.content).toBe('A cat.');
+        expect(attachmentExisted).toBe(true);
+        expect(stdin).toMatch(/^Current user message: What is this\?\n@\.attachments\/[0-9a-f]+\/image-1\.png$/);
+        expect(fs.readdirSync(path.join(runtimeDir, '.attachments'))).toEqual([]);
+      } finally {
+        fs.rmSync(runtimeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return usage, cost and session id from the JSON result', async () => {
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, '\x1B[32mHello!\x1B[0m How can I help?', '');
+        callback(null, resultJson('  Hello! How can I help?\n'), '');
         return {} as any;
       });
 
-      const result = await adapter.execute(messages);
+      const result = await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+
+      expect(result).toEqual({
+        content: 'Hello! How can I help?',
+        usage: { inputTokens: 1110, outputTokens: 7 },
+        costUsd: 0.0012,
+        sessionId: 'session-123',
+      });
+    });
+
+    it('should pass the token limit in CLAUDE_CODE_MAX_OUTPUT_TOKENS', async () => {
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        callback(null, resultJson('Hi'), '');
+        return {} as any;
+      });
+
+      await adapter.execute([{ role: 'user', content: 'Hello!' }], { maxTokens: 64 });
+
+      const [, , options] = mockExecFile.mock.calls[0] as any[];
+      expect(options.env.CLAUDE_CODE_MAX_OUTPUT_TOKENS).toBe('64');
+    });
+
+    it('should find the result object after other output lines', async () => {
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        callback(null, `Some warning\n${resultJson('Hi')}\n`, '');
+        return {} as any;
+      });
+
+      const result = await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+
+      expect(result.content).toBe('Hi');
+    });
+
+    it('should throw when the result reports an error', async () => {
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        callback(null, resultJson('Credit balance is too low', { subtype: 'success', is_error: true }), '');
+        return {} as any;
+      });
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toThrow(
+        'Claude Code returned an error: Credit balance is too low'
+      );
+    });
+
+    it('should surface the result message when the CLI exits non-zero', async () => {
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        const error: any = new Error('Command failed');
+        error.code = 1;
+        callback(error, resultJson('API Error: Overloaded', { is_error: true }), '');
+        return {} as any;
+      });
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toMatchObject({
+        message: 'Claude Code returned an error: API Error: Overloaded',
+        code: 1,
+      });
+    });
+
+    it('should throw on output that is not a JSON result', async () => {
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        callback(null, 'plain text', '');
+        return {} as any;
+      });
 
-      expect(result).toBe('Hello! How can I help?');
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toThrow(
+        'Unexpected Claude Code output: plain text'
+      );
     });
 
     it('should throw TimeoutError when execution times out', async () => {
@@ -201,42 +364,361 @@ describe('ClaudeCodeAdapter', () => {
     });
   });
 
+  describe('executeStream', () => {
+    it('should yield text deltas as they arrive', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+
+      let stdin = '';
+      child.stdin.on('data', (data: Buffer) => {
+        stdin += data.toString();
+      });
+
+      const iterator = adapter.executeStream([{ role: 'user', content: 'Hello!' }])[Symbol.asyncIterator]();
+
+      const first = iterator.next();
+      child.stdout.write(JSON.stringify({ type: 'system', subtype: 'init' }) + '\n');
+      child.stdout.write(textDelta('Hello'));
+      expect(await first).toEqual({ value: 'Hello', done: false });
+
+      const second = iterator.next();
+      child.stdout.write(textDelta(', world'));
+      expect(await second).toEqual({ value: ', world', done: false });
+
+      const third = iterator.next();
+      child.stdout.write(
+        JSON.stringify({
+          type: 'assistant',
+          message: { content: [{ type: 'text', text: 'Hello, world' }] },
+        }) + '\n'
+      );
+      child.stdout.write(resultJson('Hello, world') + '\n');
+      child.finish(0);
+      expect(await third).toEqual({ value: undefined, done: true });
+
+      expect(stdin).toBe('Current user message: Hello!');
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'claude',
+        [
+          'code',
+          '--model',
+          'haiku',
+          '--system-prompt',
+          expect.any(String),
+          '-p',
+          '--output-format',
+          'stream-json',
+          '--verbose',
+          '--include-partial-messages',
+        ],
+        expect.objectContaining({ cwd: '/test/runtime' })
+      );
+    });
+
+    it('should handle JSON lines split across chunks', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+
+      const result = collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }]));
+      const line = textDelta('Hello there');
+      child.stdout.write(line.slice(0, 20));
+      child.stdout.write(line.slice(20));
+      child.stdout.write(resultJson('Hello there') + '\n');
+      child.finish(0);
+
+      expect(await result).toEqual(['Hello there']);
+    });
+
+    it('should hand the usage of the result event to onUsage', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+      const onUsage = jest.fn();
+
+      const result = collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }], { onUsage }));
+      child.stdout.write(textDelta('Hello there'));
+      child.stdout.write(resultJson('Hello there') + '\n');
+      child.finish(0);
+
+      expect(await result).toEqual(['Hello there']);
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 1110, outputTokens: 7 });
+    });
+
+    it('should fall back to complete assistant messages without partial deltas', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+
+      const result = collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }]));
+      child.stdout.write(
+        JSON.stringify({
+          type: 'assistant',
+          message: { content: [{ type: 'text', text: 'Whole answer' }] },
+        }) + '\n'
+      );
+      child.stdout.write(resultJson('Whole answer') + '\n');
+      child.finish(0);
+
+      expect(await result).toEqual(['Whole answer']);
+    });
+
+    it('should throw when the result reports an error', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+
+      const result = collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }]));
+      child.stdout.write(resultJson('Prompt is too long', { is_error: true }) + '\n');
+      child.finish(1);
+
+      await expect(result).rejects.toThrow('Claude Code returned an error: Prompt is too long');
+    });
+
+    it('should throw with stderr when the process exits non-zero', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+
+      const result = collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }]));
+      child.stderr.write('boom');
+      child.finish(1);
+
+      await expect(result).rejects.toMatchObject({
+        message: 'Claude Code exited with code 1',
+        stderr: 'boom',
+      });
+    });
+
+    it('should kill the process and throw TimeoutError on timeout', async () => {
+      const child = createFakeChild();
+      child.kill.mockImplementation(() => {
+        child.killed = true;
+        child.finish(null);
+        return true;
+      });
+      mockSpawn.mockReturnValue(child);
+
+      const shortAdapter = new ClaudeCodeAdapter('/test/runtime', 10, false, 'haiku');
+
+      await expect(
+        collect(shortAdapter.executeStream([{ role: 'user', content: 'Hello!' }]))
+      ).rejects.toThrow(TimeoutError);
+      expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should kill the process and throw CancelledError when the signal aborts', async () => {
+      const controller = new AbortController();
+      mockExecFile.mockImplementation((file, args, options, callback: any) => {
+        const child: any = { stdin: new PassThrough() };
+        child.kill = jest.fn(() => {
+          const error: any = new Error('Command failed');
+          error.killed = true;
+          error.signal = 'SIGTERM';
+          callback(error, '', '');
+          return true;
+        });
+        setImmediate(() => controller.abort());
+        return child;
+      });
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }], { signal: controller.signal })).rejects.toThrow(
+        CancelledError
+      );
+    });
+
+    it('should not start the CLI when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }], { signal: controller.signal })).rejects.toThrow(
+        CancelledError
+      );
+      await expect(
+        collect(adapter.executeStream([{ role: 'user', content: 'Hello!' }], { signal: controller.signal }))
+      ).rejects.toThrow(CancelledError);
+      expect(mockExecFile).not.toHaveBeenCalled();
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+
+    it('should kill a streaming process and throw CancelledError when the signal aborts', async () => {
+      const controller = new AbortController();
+      const child = createFakeChild();
+      child.kill.mockImplementation(() => {
+        child.killed = true;
+        child.finish(null);
+        return true;
+      });
+      mockSpawn.mockReturnValue(child);
+
+      const chunks: string[] = [];
+      const stream = adapter.executeStream([{ role: 'user', content: 'Hello!' }], { signal: controller.signal });
+      setImmediate(() => {
+        child.stdout.write(textDelta('Hel'));
+        setImmediate(() => controller.abort());
+      });
+
+      await expect(
+        (async () => {
+          for await (const chunk of stream) {
+            chunks.push(chunk);
+          }
+        })()
+      ).rejects.toThrow(CancelledError);
+      expect(chunks).toEqual(['Hel']);
+      expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+  });
+
   describe('debug mode', () => {
     it('should not log when debug is false', async () => {
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const debugSpy = jest.spyOn(logger, 'debug').mockImplementation();
       const messages: Message[] = [
         { role: 'user', content: 'Hello!' },
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Response', '');
+        callback(null, resultJson('Response'), '');
         return {} as any;
       });
 
       await adapter.execute(messages);
 
-      expect(consoleSpy).not.toHaveBeenCalled();
-      consoleSpy.mockRestore();
+      expect(debugSpy).not.toHaveBeenCalled();
+      debugSpy.mockRestore();
     });
 
     it('should log when debug is true', async () => {
       const debugAdapter = new ClaudeCodeAdapter('/test/runtime', 30000, true, 'haiku');
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const debugSpy = jest.spyOn(logger, 'debug').mockImplementation();
       const messages: Message[] = [
         { role: 'user', content: 'Hello!' },
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Response', '');
+        callback(null, resultJson('Response'), '');
         return {} as any;
       });
 
       await debugAdapter.execute(messages);
 
-      expect(consoleSpy).toHaveBeenCalledWith('[DEBUG] System Prompt:', expect.any(String));
-      expect(consoleSpy).toHaveBeenCalledWith('[DEBUG] User Prompt:', expect.any(String));
-      expect(consoleSpy).toHaveBeenCalledWith('[DEBUG] Raw Output:', 'Response');
-      consoleSpy.mockRestore();
+      expect(debugSpy).toHaveBeenCalledWith(
+        'CLI invocation',
+        expect.objectContaining({ adapter: 'claude-code', systemPrompt: expect.any(String), userPrompt: expect.any(String) })
+      );
+      expect(debugSpy).toHaveBeenCalledWith(
+        'CLI output',
+        expect.objectContaining({ stdout: resultJson('Response'), durationMs: expect.any(Number) })
+      );
+      debugSpy.mockRestore();
+    });
+  });
+
+  describe('session reuse', () => {
+    const firstTurn: Message[] = [
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hello!' },
+    ];
+    const secondTurn: Message[] = [
+      ...firstTurn,
+      { role: 'assistant', content: 'Hi there!' },
+      { role: 'user', content: 'How are you?' },
+    ];
+    let sessionAdapter: ClaudeCodeAdapter;
+    let stdins: string[];
+
+    beforeEach(() => {
+      sessionAdapter = new ClaudeCodeAdapter('/test/runtime', 30000, false, 'haiku', new SessionStore(60000));
+      stdins = [];
+    });
+
+    function replyWith(...outputs: Array<string | Error>) {
+      for (const output of outputs) {
+        mockExecFile.mockImplementationOnce((file, args, options, callback: any) => {
+          if (output instanceof Error) {
+            callback(output, '', 'No conversation found');
+          } else {
+            callback(null, output, '');
+          }
+          const child: any = { stdin: new PassThrough() };
+          child.stdin.on('data', (data: Buffer) => stdins.push(data.toString()));
+          return child;
+        });
+      }
+    }
+
+    const argsOf = (call: number) => mockExecFile.mock.calls[call][1] as string[];
+
+    it('should resume the session of the previous turn with only the new message', async () => {
+      replyWith(resultJson('Hi there!\n', { session_id: 'session-1' }), resultJson('Fine', { session_id: 'session-2' }));
+
+      await sessionAdapter.execute(firstTurn);
+      await sessionAdapter.execute(secondTurn);
+
+      expect(argsOf(0)).not.toContain('--resume');
+      expect(argsOf(1)).toEqual(expect.arrayContaining(['--resume', 'session-1']));
+      expect(argsOf(1)[argsOf(1).indexOf('--system-prompt') + 1]).toContain('Be brief');
+      expect(stdins[1]).toBe('Current user message: How are you?');
+    });
+
+    it('should send the full conversation when the history diverges', async () => {
+      replyWith(resultJson('Hi there!', { session_id: 'session-1' }), resultJson('Fine'));
+
+      await sessionAdapter.execute(firstTurn);
+      await sessionAdapter.execute([
+        ...firstTurn,
+        { role: 'assistant', content: 'Edited reply' },
+        { role: 'user', content: 'How are you?' },
+      ]);
+
+      expect(argsOf(1)).not.toContain('--resume');
+      expect(stdins[1]).toContain('Conversation history:');
+    });
+
+    it('should resume a session only once', async () => {
+      replyWith(resultJson('Hi there!', { session_id: 'session-1' }), resultJson('Fine'), resultJson('Good'));
+
+      await sessionAdapter.execute(firstTurn);
+      await sessionAdapter.execute(secondTurn);
+      await sessionAdapter.execute(secondTurn);
+
+      expect(argsOf(1)).toContain('--resume');
+      expect(argsOf(2)).not.toContain('--resume');
+    });
+
+    it('should fall back to the full conversation when the resume fails', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+      replyWith(
+        resultJson('Hi there!', { session_id: 'session-1' }),
+        new Error('Command failed'),
+        resultJson('Fine', { session_id: 'session-3' })
+      );
+
+      await sessionAdapter.execute(firstTurn);
+      const result = await sessionAdapter.execute(secondTurn);
+
+      expect(result.content).toBe('Fine');
+      expect(argsOf(2)).not.toContain('--resume');
+      expect(stdins[2]).toContain('Conversation history:');
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Session resume failed, sending the full conversation',
+        expect.objectContaining({ sessionId: 'session-1' })
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should store the session of a streamed reply', async () => {
+      const child = createFakeChild();
+      mockSpawn.mockReturnValue(child);
+      const stream = collect(sessionAdapter.executeStream(firstTurn));
+      child.stdout.write(textDelta('Hi '));
+      child.stdout.write(textDelta('there!'));
+      child.stdout.write(resultJson('Hi there!', { session_id: 'session-1' }) + '\n');
+      child.finish(0);
+      expect(await stream).toEqual(['Hi ', 'there!']);
+
+      replyWith(resultJson('Fine'));
+      await sessionAdapter.execute(secondTurn);
+
+      expect(argsOf(0)).toEqual(expect.arrayContaining(['--resume', 'session-1']));
     });
   });
 
@@ -248,7 +730,7 @@ describe('ClaudeCodeAdapter', () => {
       ];
 
       mockExecFile.mockImplementation((file, args, options, callback: any) => {
-        callback(null, 'Response', '');
+        callback(null, resultJson('Response'), '');
         return {} as any;
       });
 
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CodexAdapter } from '../adapters/codex';
+import { TimeoutError } from '../adapters/errors';
+import { loadSettings } from '../config';
+import { Message } from '../types';
+
+/**
+ * Fake `codex` binary placed first on PATH so tests run offline.
+ *
+ * It records its arguments and stdin next to itself and reacts to
+ * FAKE_CODEX_MODE: "fail" exits non-zero, "hang" sleeps past the timeout.
+ */
+const FAKE_CODEX = `#!/bin/sh
+dir="$(dirname "$0")"
+if [ "$1" = "--version" ]; then
+  echo "codex-cli 0.0.0-fake"
+  exit 0
+fi
+printf '%s\\n' "$@" > "$dir/args.txt"
+cat > "$dir/stdin.txt"
+case "$FAKE_CODEX_MODE" in
+  fail)
+    echo "error: model overloaded" >&2
+    exit 2
+    ;;
+  hang)
+    exec sleep 5
+    ;;
+esac
+echo "thinking..." >&2
+printf '\\033[32mHello from Codex!\\033[0m\\n\\n'
+`;
+
+describe('CodexAdapter', () => {
+  const originalPath = process.env.PATH;
+  let binDir: string;
+  let runtimeDir: string;
+
+  const readArgs = () => fs.readFileSync(path.join(binDir, 'args.txt'), 'utf8').trim().split('\n');
+  const readStdin = () => fs.readFileSync(path.join(binDir, 'stdin.txt'), 'utf8');
+
+  beforeAll(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-codex-'));
+    runtimeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-runtime-'));
+    fs.writeFileSync(path.join(binDir, 'codex'), FAKE_CODEX, { mode: 0o755 });
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+    fs.rmSync(runtimeDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.FAKE_CODEX_MODE;
+    delete process.env.CODEX_ALLOW_SHELL;
+  });
+
+  describe('getName', () => {
+    it('should return "codex"', () => {
+      expect(new CodexAdapter(runtimeDir).getName()).toBe('codex');
+    });
+  });
+
+  describe('getModelName', () => {
+    it('should return "codex"', () => {
+      expect(new CodexAdapter(runtimeDir).getModelName()).toBe('codex');
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should return true when codex command is available', async () => {
+      expect(await new CodexAdapter(runtimeDir).isAvailable()).toBe(true);
+    });
+
+    it('should return false when codex command is not available', async () => {
+      process.env.PATH = '/nonexistent';
+      try {
+        expect(await new CodexAdapter(runtimeDir).isAvailable()).toBe(false);
+      } finally {
+        process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+      }
+    });
+  });
+
+  describe('execute', () => {
+    it('should run codex exec non-interactively and return cleaned output', async () => {
+      const adapter = new CodexAdapter(runtimeDir, 30000, false);
+
+      const result = await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+
+      expect(result.content).toBe('Hello from Codex!');
+      expect(readArgs()).toEqual([
+        'exec',
+        '--skip-git-repo-check',
+        '--sandbox',
+        'read-only',
+        '--color',
+        'never',
+        '-',
+      ]);
+    });
+
+    it('should create the default runtime directory before running codex', async () => {
+      process.env.CODEX_ALLOW_SHELL = 'true';
+      const { runtimeDir: defaultDir } = loadSettings(undefined, { adapter: 'codex' }).adapters[0];
+      const existed = fs.existsSync(defaultDir);
+      try {
+        fs.rmSync(defaultDir, { recursive: true, force: true });
+
+        const result = await new CodexAdapter(defaultDir).execute([{ role: 'user', content: 'Hello!' }]);
+
+        expect(result.content).toBe('Hello from Codex!');
+        expect(fs.existsSync(defaultDir)).toBe(true);
+      } finally {
+        if (!existed) fs.rmSync(defaultDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should pass the configured model', async () => {
+      const adapter = new CodexAdapter(runtimeDir, 30000, false, 'o4-mini');
+
+      await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+
+      const args = readArgs();
+      expect(args).toEqual(expect.arrayContaining(['--model', 'o4-mini']));
+      expect(args[args.length - 1]).toBe('-');
+    });
+
+    it('should pass the token limit as a config override', async () => {
+      const adapter = new CodexAdapter(runtimeDir);
+
+      await adapter.execute([{ role: 'user', content: 'Hello!' }], { maxTokens: 64 });
+
+      expect(readArgs()).toEqual(expect.arrayContaining(['-c', 'model_max_output_tokens=64']));
+    });
+
+    it('should map system prompt, history and current message into stdin', async () => {
+      const adapter = new CodexAdapter(runtimeDir);
+      const messages: Message[] = [
+        { role: 'system', content: 'You are a pirate.' },
+        { role: 'user', content: 'My favorite color is blue' },
+        { role: 'assistant', content: 'That is nice!' },
+        { role: 'user', content: 'What is my favorite color?' },
+      ];
+
+      await adapter.execute(messages);
+
+      const stdin = readStdin();
+      expect(stdin).toMatch(/^Instructions:\nYou are a pirate\./);
+      expect(stdin).toContain('Conversation history:\n[');
+      expect(stdin).toContain('"content": "That is nice!"');
+      expect(stdin).not.toContain('"content": "You are a pirate."');
+      expect(stdin.endsWith('Current user message: What is my favorite color?')).toBe(true);
+    });
+
+    it('should attach images with --image and remove them afterwards', async () => {
+      const adapter = new CodexAdapter(runtimeDir);
+      const url = `data:image/png;base64,${Buffer.from('png').toString('base64')}`;
+
+      await adapter.execute([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this image' },
+            { type: 'image_url', image_url: { url } },
+          ],
+        },
+      ]);
+
+      const args = readArgs();
+      const image = args[args.indexOf('--image') + 1];
+      expect(image.startsWith(path.join(runtimeDir, '.attachments'))).toBe(true);
+      expect(args[args.length - 1]).toBe('-');
+      expect(readStdin().endsWith('Current user message: Describe this image\n[Image #1]')).toBe(true);
+      expect(fs.existsSync(image)).toBe(false);
+    });
+
+    it('should reject with stderr when codex exits non-zero', async () => {
+      process.env.FAKE_CODEX_MODE = 'fail';
+      const adapter = new CodexAdapter(runtimeDir);
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining('model overloaded'),
+      });
+    });
+
+    it('should throw TimeoutError when execution times out', async () => {
+      process.env.FAKE_CODEX_MODE = 'hang';
+      const adapter = new CodexAdapter(runtimeDir, 200);
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toThrow(TimeoutError);
+    });
+  });
+});
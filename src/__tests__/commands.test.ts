@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AdapterRegistry } from '../adapters/registry';
+import { UsageError, parseCommandLine, readVersion, runChat, runCheck, runModels } from '../commands';
+import { AdapterConfig } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+function createOutput() {
+  let text = '';
+  return { write: (chunk: string) => (text += chunk), text: () => text };
+}
+
+describe('parseCommandLine', () => {
+  it('should default to serve without overrides', () => {
+    expect(parseCommandLine([])).toEqual({
+      command: 'serve',
+      configFile: undefined,
+      overrides: { port: undefined, host: undefined, adapter: undefined, model: undefined, timeout: undefined },
+      prompt: '',
+      system: undefined,
+    });
+  });
+
+  it('should parse long and short options', () => {
+    const commandLine = parseCommandLine([
+      'serve',
+      '--port',
+      '9000',
+      '-H',
+      '0.0.0.0',
+      '--adapter=gemini-cli',
+      '-m',
+      'pro',
+      '--timeout',
+      '60000',
+      '-c',
+      'config.yaml',
+    ]);
+
+    expect(commandLine.command).toBe('serve');
+    expect(commandLine.configFile).toBe('config.yaml');
+    expect(commandLine.overrides).toEqual({
+      port: '9000',
+      host: '0.0.0.0',
+      adapter: 'gemini-cli',
+      model: 'pro',
+      timeout: '60000',
+    });
+  });
+
+  it('should join the chat prompt and read the system prompt', () => {
+    const commandLine = parseCommandLine(['chat', '-s', 'Be brief', 'What', 'is', '2+2?']);
+
+    expect(commandLine.command).toBe('chat');
+    expect(commandLine.prompt).toBe('What is 2+2?');
+    expect(commandLine.system).toBe('Be brief');
+  });
+
+  it('should let --help and --version win over the command', () => {
+    expect(parseCommandLine(['models', '--help']).command).toBe('help');
+    expect(parseCommandLine(['-v']).command).toBe('version');
+  });
+
+  it('should reject unknown commands, options and extra arguments', () => {
+    expect(() => parseCommandLine(['start'])).toThrow(new UsageError('Unknown command: start'));
+    expect(() => parseCommandLine(['--verbose'])).toThrow(UsageError);
+    expect(() => parseCommandLine(['--port'])).toThrow(UsageError);
+    expect(() => parseCommandLine(['models', 'all'])).toThrow('Unexpected argument: all');
+    expect(() => parseCommandLine(['serve', '--system', 'x'])).toThrow('only supported by the chat command');
+  });
+});
+
+describe('readVersion', () => {
+  it('should return the package version', () => {
+    const { version } = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+
+    expect(readVersion()).toBe(version);
+  });
+});
+
+describe('runModels', () => {
+  it('should print one model id per line', () => {
+    const adapter = new StubAdapter();
+    const registry = new AdapterRegistry().register('claude-code', adapter).register('claude-code/sonnet', adapter);
+    const output = createOutput();
+
+    runModels(registry, output);
+
+    expect(output.text()).toBe('claude-code\nclaude-code/sonnet\n');
+  });
+});
+
+describe('runChat', () => {
+  it('should stream the reply of a one-shot prompt', async () => {
+    const adapter = new StubAdapter({ chunks: ['Hello', ' there'] });
+    const output = createOutput();
+
+    await runChat(adapter, 'Hi!', 'Be brief', output);
+
+    expect(adapter.stream.mock.calls[0][0]).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi!' },
+    ]);
+    expect(output.text()).toBe('Hello there\n');
+  });
+
+  it('should not add a newline when the reply ends with one', async () => {
+    const output = createOutput();
+
+    await runChat(new StubAdapter({ chunks: ['Done\n', ''] }), 'Hi!', undefined, output);
+
+    expect(output.text()).toBe('Done\n');
+  });
+});
+
+describe('runCheck', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'check-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const config = (runtimeDir: string): AdapterConfig => ({
+    type: 'claude-code',
+    runtimeDir,
+    timeout: 1000,
+    debug: false,
+    model: 'haiku',
+    // Replay needs no CLI, so the adapter is available
+    fixtures: { mode: 'replay', file: path.join(directory, 'fixtures.jsonl') },
+  });
+
+  it('should report usable adapters', async () => {
+    const output = createOutput();
+
+    expect(await runCheck([config(directory)], output)).toBe(true);
+    expect(output.text()).toContain('✅ claude-code');
+    expect(output.text()).toContain(`Runtime: ${directory}\n`);
+    expect(output.text()).toContain('Fixtures: replay');
+  });
+
+  it('should fail when the runtime directory is missing', async () => {
+    const output = createOutput();
+    const missing = path.join(directory, 'missing');
+
+    expect(await runCheck([config(missing)], output)).toBe(false);
+    expect(output.text()).toContain('❌ claude-code');
+    expect(output.text()).toContain(`Runtime: ${missing} (missing)`);
+  });
+});
@@ -0,0 +1,53 @@
+import { buildCompletionMessages, completionPrompts, validateCompletionRequest } from '../completions';
+
+describe('validateCompletionRequest', () => {
+  it('should accept string and string array prompts', () => {
+    expect(validateCompletionRequest({ prompt: 'Hello' })).toBeUndefined();
+    expect(validateCompletionRequest({ prompt: ['A', 'B'], n: 3, echo: true, suffix: '.' })).toBeUndefined();
+    expect(validateCompletionRequest({ prompt: '' })).toBeUndefined();
+  });
+
+  it('should reject missing, empty and token prompts', () => {
+    expect(validateCompletionRequest({})).toBe('Invalid request: prompt is required');
+    expect(validateCompletionRequest({ prompt: [] })).toContain('non-empty array of strings');
+    expect(validateCompletionRequest({ prompt: [[1, 2]] })).toContain('token array prompts are not supported');
+  });
+
+  it('should reject more completions than a request may run', () => {
+    expect(validateCompletionRequest({ prompt: ['A', 'B'], n: 5 })).toBeUndefined();
+    expect(validateCompletionRequest({ prompt: ['A', 'B', 'C'], n: 4 })).toBe(
+      'Invalid request: the prompts times n must not exceed 10 completions, got 12'
+    );
+    expect(validateCompletionRequest({ prompt: Array(300).fill('A') })).toContain('got 300');
+  });
+
+  it('should reject invalid options', () => {
+    expect(validateCompletionRequest({ prompt: 'A', suffix: 1 })).toBe('Invalid request: suffix must be a string');
+    expect(validateCompletionRequest({ prompt: 'A', echo: 'yes' })).toBe('Invalid request: echo must be a boolean');
+  });
+});
+
+describe('completionPrompts', () => {
+  it('should return the prompts as a list', () => {
+    expect(completionPrompts('A')).toEqual(['A']);
+    expect(completionPrompts(['A', 'B'])).toEqual(['A', 'B']);
+  });
+});
+
+describe('buildCompletionMessages', () => {
+  it('should ask for a continuation of the prompt', () => {
+    const messages = buildCompletionMessages('Once upon a time');
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('continuation');
+    expect(messages[0].content).not.toContain('suffix');
+    expect(messages[1]).toEqual({ role: 'user', content: 'Once upon a time' });
+  });
+
+  it('should include the suffix to lead into', () => {
+    const [system] = buildCompletionMessages('def add(a, b):', '\nprint(add(1, 2))');
+
+    expect(system.content).toContain('without the suffix itself:\n\nprint(add(1, 2))');
+  });
+});
@@ -1,4 +1,6 @@
-import { loadConfig, loadServerConfig } from '../config';
+import { ConfigError, loadConfig, loadAdapterConfigs, loadServerConfig, loadSettings } from '../config';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 describe('Config', () => {
@@ -47,12 +49,73 @@ describe('Config', () => {
       expect(config.model).toBe('sonnet');
     });
 
-    it('should handle invalid timeout gracefully', () => {
-      process.env.TIMEOUT = 'invalid';
+    it('should use per-adapter defaults for runtime directory and model', () => {
+      delete process.env.RUNTIME_DIR;
+      delete process.env.MODEL;
+      process.env.ADAPTER_TYPE = 'codex';
+      process.env.CODEX_ALLOW_SHELL = 'true';
 
       const config = loadConfig();
 
-      expect(config.timeout).toBeNaN();
+      expect(config.type).toBe('codex');
+      expect(config.runtimeDir).toBe(path.join(__dirname, '..', '..', 'runtime', 'codex'));
+      expect(config.model).toBeUndefined();
+
+      process.env.ADAPTER_TYPE = 'gemini-cli';
+      const geminiConfig = loadConfig();
+
+      expect(geminiConfig.runtimeDir).toBe(path.join(__dirname, '..', '..', 'runtime', 'gemini-cli'));
+      expect(geminiConfig.model).toBe('flash');
+    });
+
+    it('should use default routable models per adapter type', () => {
+      delete process.env.MODELS;
+      process.env.ADAPTER_TYPE = 'claude-code';
+
+      expect(loadConfig().models).toEqual(['haiku', 'sonnet', 'opus']);
+
+      process.env.ADAPTER_TYPE = 'codex';
+      process.env.CODEX_ALLOW_SHELL = 'true';
+      expect(loadConfig().models).toEqual([]);
+    });
+
+    it('should read routable models from MODELS', () => {
+      process.env.MODELS = 'sonnet, opus,,';
+
+      expect(loadConfig().models).toEqual(['sonnet', 'opus']);
+    });
+
+    it('should reject an invalid timeout', () => {
+      process.env.TIMEOUT = 'invalid';
+
+      expect(() => loadConfig()).toThrow('TIMEOUT: must be an integer >= 1, got "invalid"');
+    });
+
+    it('should reject an unknown adapter type', () => {
+      process.env.ADAPTER_TYPE = 'copilot';
+
+      expect(() => loadConfig()).toThrow(
+        'ADAPTER_TYPE: must be one of claude-code, codex, gemini-cli, got "copilot"'
+      );
+    });
+
+    it('should not configure fixtures by default', () => {
+      delete process.env.FIXTURES_MODE;
+
+      expect(loadConfig().fixtures).toBeUndefined();
+    });
+
+    it('should read the fixtures mode and file', () => {
+      process.env.FIXTURES_MODE = 'replay';
+      delete process.env.FIXTURES_FILE;
+      expect(loadConfig().fixtures).toEqual({
+        mode: 'replay',
+        file: path.join(process.cwd(), 'fixtures', 'recordings.jsonl'),
+      });
+
+      process.env.FIXTURES_MODE = 'record';
+      process.env.FIXTURES_FILE = '/tmp/fixtures.jsonl';
+      expect(loadConfig().fixtures).toEqual({ mode: 'record', file: '/tmp/fixtures.jsonl' });
     });
 
     it('should treat DEBUG as false when not "true"', () => {
@@ -70,6 +133,65 @@ describe('Config', () => {
     });
   });
 
+  describe('loadAdapterConfigs', () => {
+    it('should return only the primary adapter by default', () => {
+      delete process.env.EXTRA_ADAPTERS;
+      process.env.ADAPTER_TYPE = 'claude-code';
+
+      const configs = loadAdapterConfigs();
+
+      expect(configs).toHaveLength(1);
+      expect(configs[0]).toEqual(loadConfig());
+    });
+
+    it('should add adapters listed in EXTRA_ADAPTERS with their defaults', () => {
+      process.env.ADAPTER_TYPE = 'claude-code';
+      process.env.RUNTIME_DIR = '/custom/runtime';
+      process.env.TIMEOUT = '60000';
+      process.env.EXTRA_ADAPTERS = 'gemini-cli, claude-code';
+
+      const configs = loadAdapterConfigs();
+
+      expect(configs.map((c) => c.type)).toEqual(['claude-code', 'gemini-cli']);
+      expect(configs[0].runtimeDir).toBe('/custom/runtime');
+      expect(configs[1]).toEqual({
+        type: 'gemini-cli',
+        runtimeDir: path.join(__dirname, '..', '..', 'runtime', 'gemini-cli'),
+        timeout: 60000,
+        debug: false,
+        model: 'flash',
+        models: ['flash', 'flash-lite', 'pro'],
+      });
+    });
+
+    it('should share the fixtures settings with extra adapters', () => {
+      process.env.EXTRA_ADAPTERS = 'gemini-cli';
+      process.env.FIXTURES_MODE = 'replay';
+      process.env.FIXTURES_FILE = '/tmp/fixtures.jsonl';
+
+      const configs = loadAdapterConfigs();
+
+      expect(configs[1].fixtures).toEqual({ mode: 'replay', file: '/tmp/fixtures.jsonl' });
+    });
+
+    it('should enable sessions for Claude Code only', () => {
+      process.env.ADAPTER_TYPE = 'claude-code';
+      process.env.EXTRA_ADAPTERS = 'gemini-cli';
+      delete process.env.SESSION_TTL;
+      delete process.env.SESSIONS;
+      expect(loadAdapterConfigs()[0].sessions).toBeUndefined();
+
+      process.env.SESSIONS = 'true';
+      let configs = loadAdapterConfigs();
+      expect(configs[0].sessions).toEqual({ ttl: 1800000 });
+      expect(configs[1].sessions).toBeUndefined();
+
+      process.env.SESSION_TTL = '60000';
+      configs = loadAdapterConfigs();
+      expect(configs[0].sessions).toEqual({ ttl: 60000 });
+    });
+  });
+
   describe('loadServerConfig', () => {
     it('should load default server configuration when no environment variables are set', () => {
       delete process.env.PORT;
@@ -79,24 +201,465 @@ describe('Config', () => {
 
       expect(config.port).toBe(8000);
       expect(config.host).toBe('localhost');
+      expect(config.maxConcurrency).toBe(4);
+      expect(config.maxQueueSize).toBe(100);
+      expect(config.queueTimeout).toBe(60000);
+      expect(config.cache).toBe('off');
+      expect(config.cacheTtl).toBe(3600000);
+      expect(config.cacheMaxEntries).toBe(1000);
+      expect(config.cacheDir).toContain(path.join('.cache', 'responses'));
+      expect(config.apiKeys).toEqual([]);
+      expect(config.logLevel).toBe('info');
+      expect(config.logPayloads).toBe(false);
+      expect(config.unsupportedParameters).toBe('warn');
+      expect(config.imageDir).toBeUndefined();
+      expect(config.bodyLimit).toBe(20 * 1024 * 1024);
     });
 
     it('should load server configuration from environment variables', () => {
       process.env.PORT = '9000';
       process.env.HOST = '0.0.0.0';
+      process.env.MAX_CONCURRENCY = '2';
+      process.env.MAX_QUEUE_SIZE = '10';
+      process.env.QUEUE_TIMEOUT = '5000';
+      process.env.CACHE = 'disk';
+      process.env.CACHE_TTL = '0';
+      process.env.CACHE_MAX_ENTRIES = '50';
+      process.env.CACHE_DIR = '/tmp/cache';
+      process.env.IMAGE_DIR = '/tmp/images';
 
       const config = loadServerConfig();
 
       expect(config.port).toBe(9000);
       expect(config.host).toBe('0.0.0.0');
+      expect(config.maxConcurrency).toBe(2);
+      expect(config.maxQueueSize).toBe(10);
+      expect(config.queueTimeout).toBe(5000);
+      expect(config.cache).toBe('disk');
+      expect(config.cacheTtl).toBe(0);
+      expect(config.cacheMaxEntries).toBe(50);
+      expect(config.cacheDir).toBe('/tmp/cache');
+      expect(config.imageDir).toBe('/tmp/images');
+    });
+
+    it('should load logging settings, treating DEBUG as payload logging', () => {
+      process.env.LOG_LEVEL = 'warn';
+      expect(loadServerConfig()).toMatchObject({ logLevel: 'warn', logPayloads: false });
+
+      process.env.LOG_PAYLOADS = 'true';
+      expect(loadServerConfig().logPayloads).toBe(true);
+      expect(loadConfig().debug).toBe(true);
+
+      delete process.env.LOG_PAYLOADS;
+      process.env.DEBUG = 'true';
+      expect(loadServerConfig().logPayloads).toBe(true);
+    });
+
+    it('should load the unsupported parameter policy', () => {
+      process.env.UNSUPPORTED_PARAMETERS = 'error';
+      expect(loadServerConfig().unsupportedParameters).toBe('error');
+
+      process.env.UNSUPPORTED_PARAMETERS = 'ignore';
+      expect(() => loadServerConfig()).toThrow('UNSUPPORTED_PARAMETERS');
+    });
+
+    it('should load the body limit in bytes or with a unit', () => {
+      process.env.BODY_LIMIT = '4096';
+      expect(loadServerConfig().bodyLimit).toBe(4096);
+
+      process.env.BODY_LIMIT = '512kb';
+      expect(loadServerConfig().bodyLimit).toBe(512 * 1024);
+
+      process.env.BODY_LIMIT = '50MB';
+      expect(loadServerConfig().bodyLimit).toBe(50 * 1024 * 1024);
+
+      process.env.BODY_LIMIT = 'large';
+      expect(() => loadServerConfig()).toThrow('BODY_LIMIT: must be a size in bytes');
+    });
+
+    it('should load API keys from API_KEYS and API_KEYS_FILE', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+      const file = path.join(directory, 'keys.json');
+      fs.writeFileSync(file, JSON.stringify([{ key: 'sk-ci', models: ['claude-code/haiku'], rateLimit: 10 }]));
+      process.env.API_KEYS = 'sk-one, sk-two';
+      process.env.API_KEYS_FILE = file;
+
+      try {
+        expect(loadServerConfig().apiKeys).toEqual([
+          { key: 'sk-one' },
+          { key: 'sk-two' },
+          { key: 'sk-ci', models: ['claude-code/haiku'], rateLimit: 10 },
+        ]);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject an API keys file without keys', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+      const file = path.join(directory, 'keys.json');
+      fs.writeFileSync(file, JSON.stringify([{ name: 'no key' }]));
+      process.env.API_KEYS_FILE = file;
+
+      try {
+        expect(() => loadServerConfig()).toThrow(`${file}[0].key: must be a non-empty string, got undefined`);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
     });
 
-    it('should handle invalid port gracefully', () => {
+    it('should reject invalid values', () => {
       process.env.PORT = 'invalid';
 
-      const config = loadServerConfig();
+      expect(() => loadServerConfig()).toThrow('PORT: must be an integer between 0 and 65535, got "invalid"');
+    });
+  });
+
+  describe('config file', () => {
+    let directory: string;
+
+    const writeConfig = (name: string, content: string) => {
+      const file = path.join(directory, name);
+      fs.writeFileSync(file, content);
+      return file;
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+      for (const name of Object.keys(process.env)) {
+        if (/^(ADAPTER_TYPE|RUNTIME_DIR|TIMEOUT|DEBUG|MODELS?|EXTRA_ADAPTERS|PORT|HOST|CACHE.*|API_KEYS.*|LOG_.*|FIXTURES_.*|SESSIONS?|SESSION_TTL|CODEX_ALLOW_SHELL|CONTEXT_.*|PROMPT_TEMPLATES?|RETR.*|FALLBACK|IMAGE_DIR|BODY_LIMIT|CONFIG_FILE)$/.test(name)) {
+          delete process.env[name];
+        }
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should load adapters and server settings from a YAML file', () => {
+      const file = writeConfig(
+        'config.yaml',
+        [
+          'server:',
+          '  port: 9000',
+          '  maxConcurrency: 2',
+          '  cache: disk',
+          '  cacheDir: cache',
+          '  imageDir: images',
+          '  apiKeys:',
+          '    - key: sk-ci',
+          '      models: [gemini-cli/pro]',
+          '      rateLimit: 10',
+          'adapters:',
+          '  - type: gemini-cli',
+          '    model: pro',
+          '    models: [pro]',
+          '    timeout: 60000',
+          '  - type: claude-code',
+          '    runtimeDir: ./runtime/claude',
+          '    fixtures:',
+          '      mode: replay',
+          '      file: fixtures.jsonl',
+        ].join('\n')
+      );
+
+      const { adapters, server } = loadSettings(file);
+
+      expect(adapters).toEqual([
+        {
+          type: 'gemini-cli',
+          runtimeDir: path.join(__dirname, '..', '..', 'runtime', 'gemini-cli'),
+          timeout: 60000,
+          debug: false,
+          model: 'pro',
+          models: ['pro'],
+        },
+        {
+          type: 'claude-code',
+          runtimeDir: path.join(directory, 'runtime', 'claude'),
+          timeout: 30000,
+          debug: false,
+          model: 'haiku',
+          models: ['haiku', 'sonnet', 'opus'],
+          fixtures: { mode: 'replay', file: path.join(directory, 'fixtures.jsonl') },
+        },
+      ]);
+      expect(server).toMatchObject({
+        port: 9000,
+        host: 'localhost',
+        maxConcurrency: 2,
+        cache: 'disk',
+        cacheDir: path.join(directory, 'cache'),
+        imageDir: path.join(directory, 'images'),
+        apiKeys: [{ key: 'sk-ci', models: ['gemini-cli/pro'], rateLimit: 10 }],
+      });
+    });
+
+    it('should load a JSON file from CONFIG_FILE', () => {
+      process.env.CONFIG_FILE = writeConfig('config.json', JSON.stringify({ server: { host: '0.0.0.0' } }));
+
+      expect(loadServerConfig().host).toBe('0.0.0.0');
+      expect(loadConfig().type).toBe('claude-code');
+    });
+
+    it('should let environment variables override the file', () => {
+      const file = writeConfig(
+        'config.yaml',
+        'server:\n  port: 9000\nadapters:\n  - type: codex\n    allowShell: true\n    timeout: 1000\n  - type: gemini-cli\n'
+      );
+      process.env.PORT = '7000';
+      process.env.TIMEOUT = '5000';
+      process.env.ADAPTER_TYPE = 'gemini-cli';
+      process.env.MODEL = 'flash-lite';
+      process.env.EXTRA_ADAPTERS = 'claude-code';
+
+      const { adapters, server } = loadSettings(file);
+
+      expect(server.port).toBe(7000);
+      expect(adapters.map((adapter) => [adapter.type, adapter.model, adapter.timeout])).toEqual([
+        ['gemini-cli', 'flash-lite', 5000],
+        ['codex', undefined, 5000],
+        ['claude-code', 'haiku', 5000],
+      ]);
+    });
+
+    it('should let command-line overrides win over environment variables and the file', () => {
+      const file = writeConfig('config.yaml', 'server:\n  port: 9000\nadapters:\n  - type: codex\n    allowShell: true\n');
+      process.env.PORT = '7000';
+      process.env.MODEL = 'sonnet';
+
+      const { adapters, server } = loadSettings(file, { port: '6000', adapter: 'claude-code', model: 'opus' });
+
+      expect(server.port).toBe(6000);
+      expect(adapters.map((adapter) => [adapter.type, adapter.model])).toEqual([
+        ['claude-code', 'opus'],
+        ['codex', undefined],
+      ]);
+      expect(() => loadSettings(file, { timeout: 'soon' })).toThrow('--timeout: must be an integer >= 1, got "soon"');
+    });
+
+    it('should list every invalid field', () => {
+      const file = writeConfig(
+        'config.yaml',
+        [
+          'server:',
+          '  port: 99999',
+          '  cache: redis',
+          '  logLevel: verbose',
+          '  apiKeys:',
+          '    - name: no key',
+          'adapters:',
+          '  - type: claude-code',
+          '    timeout: soon',
+          '    modle: opus',
+          '  - model: flash',
+          '  - type: claude-code',
+          'extra: true',
+        ].join('\n')
+      );
+      process.env.MAX_CONCURRENCY = '0';
+
+      let error: ConfigError | undefined;
+      try {
+        loadSettings(file);
+      } catch (caught: any) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error!.errors).toEqual([
+        `${file}: extra: unknown field`,
+        `${file}: adapters[0].modle: unknown field`,
+        `${file}: adapters[1].type: is required (one of claude-code, codex, gemini-cli)`,
+        `${file}: adapters[2].type: adapter "claude-code" is configured more than once`,
+        `${file}: adapters[0].timeout: must be an integer >= 1, got "soon"`,
+        `${file}: server.port: must be an integer between 0 and 65535, got 99999`,
+        'MAX_CONCURRENCY: must be an integer >= 1, got "0"',
+        `${file}: server.cache: must be one of off, memory, disk, got "redis"`,
+        `${file}: server.apiKeys[0].key: must be a non-empty string, got undefined`,
+        `${file}: server.logLevel: must be one of debug, info, warn, error, got "verbose"`,
+      ]);
+      expect(error!.message).toContain('Invalid configuration:\n  - ');
+    });
+
+    it('should read context budgets per model', () => {
+      const file = writeConfig(
+        'config.yaml',
+        [
+          'adapters:',
+          '  - type: claude-code',
+          '    context:',
+          '      maxTokens: 50000',
+          '      models: { opus: 150000 }',
+          '      strategy: summarize',
+          '  - type: codex',
+          '    allowShell: true',
+        ].join('\n')
+      );
+      process.env.CONTEXT_LAST_TURNS = '4';
+
+      const { adapters } = loadSettings(file);
+
+      expect(adapters[0].context).toEqual({
+        maxTokens: 50000,
+        models: { opus: 150000 },
+        strategy: 'summarize',
+        lastTurns: 4,
+      });
+      expect(adapters[1].context).toBeUndefined();
+    });
+
+    it('should reject invalid context budgets', () => {
+      const file = writeConfig(
+        'config.yaml',
+        'adapters:\n  - type: claude-code\n    context: { models: { opus: 0 }, strategy: truncate }\n'
+      );
+
+      let error: ConfigError | undefined;
+      try {
+        loadSettings(file);
+      } catch (caught: any) {
+        error = caught;
+      }
+
+      expect(error!.errors).toEqual([
+        `${file}: adapters[0].context.models: opus must be an integer >= 1, got 0`,
+        `${file}: adapters[0].context.strategy: must be one of none, drop-oldest, last-turns, summarize, got "truncate"`,
+      ]);
+    });
+
+    it('should load prompt templates from files', () => {
+      writeConfig('brief.yaml', 'system: Answer in one sentence.\nuser: "{{latest}}"\nhistory: transcript\n');
+      const file = writeConfig(
+        'config.yaml',
+        'adapters:\n  - type: codex\n    allowShell: true\n    promptTemplate: brief\n    promptTemplates: { brief: brief.yaml }\n'
+      );
+
+      const { adapters } = loadSettings(file);
+
+      expect(adapters[0].promptTemplate).toBe('brief');
+      expect(adapters[0].promptTemplates).toEqual({
+        brief: { system: 'Answer in one sentence.', user: '{{latest}}', history: 'transcript' },
+      });
+
+      process.env.PROMPT_TEMPLATE = 'xml';
+      expect(loadSettings(file).adapters[0].promptTemplate).toBe('xml');
+    });
+
+    it('should reject unknown and invalid prompt templates', () => {
+      writeConfig('bad.yaml', 'user: "{{question}}"\n');
+      const file = writeConfig(
+        'config.yaml',
+        [
+          'adapters:',
+          '  - type: claude-code',
+          '    promptTemplate: brief',
+          '    promptTemplates: { bad: bad.yaml, missing: missing.yaml }',
+        ].join('\n')
+      );
+
+      let error: ConfigError | undefined;
+      try {
+        loadSettings(file);
+      } catch (caught: any) {
+        error = caught;
+      }
+
+      expect(error!.errors).toEqual([
+        `${file}: adapters[0].promptTemplates.bad: "user" uses unknown variable "question" (expected system, history, latest)`,
+        `${file}: adapters[0].promptTemplates.missing: cannot be read`,
+        `${file}: adapters[0].promptTemplate: unknown prompt template "brief" (one of default, raw, transcript, xml)`,
+      ]);
+    });
+
+    it('should read retries and fallbacks', () => {
+      const file = writeConfig(
+        'config.yaml',
+        [
+          'adapters:',
+          '  - type: claude-code',
+          '    models: [haiku, sonnet]',
+          '    retries: 2',
+          '    retryDelay: 500',
+          '    fallback: [claude-code/sonnet, gemini-cli]',
+          '  - type: gemini-cli',
+        ].join('\n')
+      );
+
+      const { adapters } = loadSettings(file);
+
+      expect(adapters[0].retry).toEqual({ retries: 2, delay: 500, maxDelay: 30000 });
+      expect(adapters[0].fallback).toEqual(['claude-code/sonnet', 'gemini-cli']);
+      expect(adapters[1].retry).toBeUndefined();
+      expect(adapters[1].fallback).toBeUndefined();
+
+      process.env.FALLBACK = 'gemini-cli/flash';
+      process.env.RETRIES = '0';
+      const overridden = loadSettings(file).adapters[0];
+      expect(overridden.fallback).toEqual(['gemini-cli/flash']);
+      expect(overridden.retry).toBeUndefined();
+    });
+
+    it('should reject fallbacks to models that are not configured', () => {
+      const file = writeConfig(
+        'config.yaml',
+        'adapters:\n  - type: codex\n    allowShell: true\n    retries: -1\n    fallback: [claude-code/opus]\n'
+      );
+
+      let error: ConfigError | undefined;
+      try {
+        loadSettings(file);
+      } catch (caught: any) {
+        error = caught;
+      }
+
+      expect(error!.errors).toEqual([
+        `${file}: adapters[0].retries: must be an integer >= 0, got -1`,
+        `${file}: adapters[0].fallback: unknown model "claude-code/opus" (one of codex)`,
+      ]);
+    });
+
+    it('should reject sessions for adapters other than Claude Code', () => {
+      const file = writeConfig('config.yaml', 'adapters:\n  - type: codex\n    allowShell: true\n    sessions: true\n');
+
+      expect(() => loadSettings(file)).toThrow(
+        `${file}: adapters[0].sessions: is only supported by the claude-code adapter`
+      );
+    });
+
+    it('should only serve codex when its shell access is allowed', () => {
+      process.env.ADAPTER_TYPE = 'codex';
+
+      expect(() => loadConfig()).toThrow(
+        'CODEX_ALLOW_SHELL: must be true to serve codex, whose agent can run shell commands that read any file on the host'
+      );
+
+      process.env.CODEX_ALLOW_SHELL = 'true';
+      expect(loadConfig().allowShell).toBe(true);
+    });
+
+    it('should reject codex adapters of the file without allowShell, and allowShell for other adapters', () => {
+      const file = writeConfig('config.yaml', 'adapters:\n  - type: codex\n  - type: gemini-cli\n    allowShell: true\n');
+
+      let error: ConfigError | undefined;
+      try {
+        loadSettings(file);
+      } catch (caught: any) {
+        error = caught;
+      }
+
+      expect(error!.errors).toEqual([
+        `${file}: adapters[0].allowShell: must be true to serve codex, whose agent can run shell commands that read any file on the host`,
+        `${file}: adapters[1].allowShell: is only supported by the codex adapter`,
+      ]);
+    });
 
-      expect(config.port).toBeNaN();
+    it('should report unreadable and malformed files', () => {
+      expect(() => loadSettings(path.join(directory, 'missing.yaml'))).toThrow('cannot be read');
+      expect(() => loadSettings(writeConfig('bad.json', '{ "server": '))).toThrow('invalid JSON');
+      expect(() => loadSettings(writeConfig('bad.yaml', 'server: [unclosed'))).toThrow('invalid YAML');
+      expect(() => loadSettings(writeConfig('list.yaml', '- port: 1'))).toThrow('must contain an object');
     });
   });
 });
@@ -0,0 +1,113 @@
+import { ContextLimitedAdapter, SUMMARY_PROMPT, contextBudget, estimateMessageTokens } from '../adapters/context';
+import { ContextLengthExceededError } from '../adapters/errors';
+import { AdapterConfig, Message, TruncationStrategy } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+/**
+ * A message of exactly `tokens` estimated tokens
+ */
+function message(role: Message['role'], label: string, tokens = 10): Message {
+  return { role, content: label.padEnd(tokens * 4, '.') };
+}
+
+describe('ContextLimitedAdapter', () => {
+  let stub: StubAdapter;
+  const conversation: Message[] = [
+    message('system', 'system'),
+    message('user', 'u1'),
+    message('assistant', 'a1'),
+    message('user', 'u2'),
+    message('assistant', 'a2'),
+    message('user', 'u3'),
+  ];
+  const labels = (messages: Message[]) => messages.map((m) => String(m.content).replace(/\.+$/, ''));
+
+  const adapter = (strategy: TruncationStrategy, maxTokens = 40, lastTurns = 1) =>
+    new ContextLimitedAdapter(stub, { maxTokens, strategy, lastTurns });
+
+  beforeEach(() => {
+    stub = new StubAdapter({ reply: 'They met in Paris.', chunks: ['Hello'] });
+  });
+
+  it('should pass conversations within the budget unchanged', async () => {
+    await adapter('none', 60).execute(conversation);
+
+    expect(stub.execute).toHaveBeenCalledWith(conversation, undefined);
+  });
+
+  it('should reject conversations over the budget without truncation', async () => {
+    const execution = adapter('none').execute(conversation);
+
+    await expect(execution).rejects.toThrow(ContextLengthExceededError);
+    await expect(execution).rejects.toThrow(
+      "This model's maximum context length is 40 tokens. However, your messages resulted in 60 tokens."
+    );
+    expect(stub.execute).not.toHaveBeenCalled();
+  });
+
+  it('should drop the oldest turns until the conversation fits', async () => {
+    const fitted = await adapter('drop-oldest').fit(conversation);
+
+    expect(labels(fitted)).toEqual(['system', 'u2', 'a2', 'u3']);
+  });
+
+  it('should keep the system messages and the last turns', async () => {
+    const fitted = await adapter('last-turns', 40, 2).fit(conversation);
+
+    expect(labels(fitted)).toEqual(['system', 'u2', 'a2', 'u3']);
+  });
+
+  it('should reject conversations that do not fit after truncation', async () => {
+    await expect(adapter('last-turns', 40, 3).fit(conversation)).rejects.toThrow(ContextLengthExceededError);
+    await expect(adapter('drop-oldest', 15).fit(conversation)).rejects.toThrow(ContextLengthExceededError);
+  });
+
+  it('should summarize the turns before the last ones', async () => {
+    const fitted = await adapter('summarize', 40, 1).fit(conversation);
+
+    const [summaryRequest] = stub.execute.mock.calls[0];
+    expect(summaryRequest[0]).toEqual({ role: 'system', content: SUMMARY_PROMPT });
+    expect(summaryRequest[1].content).toMatch(/^user: u1\.+\n\nassistant: a1\.+\n\nuser: u2/);
+    expect(fitted).toHaveLength(2);
+    expect(fitted[0].content).toContain('Summary of the earlier conversation:\nThey met in Paris.');
+    expect(labels([fitted[1]])).toEqual(['u3']);
+  });
+
+  it('should apply the budget to streamed executions', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of adapter('last-turns').executeStream(conversation)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hello']);
+    expect(labels(stub.stream.mock.calls[0][0])).toEqual(['system', 'u3']);
+  });
+});
+
+describe('contextBudget', () => {
+  const config: AdapterConfig = { type: 'claude-code', runtimeDir: '/runtime', timeout: 1000, debug: false };
+
+  it('should prefer the budget of the model', () => {
+    const context = { maxTokens: 1000, models: { opus: 5000 }, strategy: 'none' as const, lastTurns: 10 };
+
+    expect(contextBudget({ ...config, model: 'opus', context })?.maxTokens).toBe(5000);
+    expect(contextBudget({ ...config, model: 'haiku', context })?.maxTokens).toBe(1000);
+    expect(contextBudget({ ...config, model: 'haiku', context: { ...context, maxTokens: undefined } })).toBeUndefined();
+    expect(contextBudget(config)).toBeUndefined();
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('should count text and tool calls at 4 characters per token', () => {
+    expect(estimateMessageTokens([{ role: 'user', content: 'abcdefgh' }])).toBe(2);
+    expect(
+      estimateMessageTokens([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'c', type: 'function', function: { name: 'f', arguments: '{}' } }],
+        },
+      ])
+    ).toBeGreaterThan(0);
+  });
+});
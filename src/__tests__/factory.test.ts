@@ -1,5 +1,10 @@
 import { AdapterFactory } from '../adapters/factory';
 import { ClaudeCodeAdapter } from '../adapters/claude_code';
+import { CodexAdapter } from '../adapters/codex';
+import { ContextLimitedAdapter } from '../adapters/context';
+import { GeminiCliAdapter } from '../adapters/gemini_cli';
+import { RecordReplayAdapter } from '../adapters/record_replay';
+import { ResilientAdapter } from '../adapters/resilience';
 import { AdapterConfig } from '../types';
 
 describe('AdapterFactory', () => {
@@ -20,28 +25,73 @@ describe('AdapterFactory', () => {
       expect(adapter.getModelName()).toBe('claude-code');
     });
 
-    it('should throw error for codex type (not yet implemented)', () => {
+    it('should create CodexAdapter for codex type', () => {
       const config: AdapterConfig = {
         type: 'codex',
         runtimeDir: '/test/runtime',
         timeout: 30000,
         debug: false,
-        model: 'haiku',
+        allowShell: true,
       };
 
-      expect(() => AdapterFactory.create(config)).toThrow('Codex adapter not yet implemented');
+      const adapter = AdapterFactory.create(config);
+
+      expect(adapter).toBeInstanceOf(CodexAdapter);
+      expect(adapter.getName()).toBe('codex');
+      expect(adapter.getModelName()).toBe('codex');
+    });
+
+    it('should refuse codex without allowShell', () => {
+      expect(() =>
+        AdapterFactory.create({ type: 'codex', runtimeDir: '/test/runtime', timeout: 30000, debug: false })
+      ).toThrow('The codex adapter can run shell commands that read any file on the host; set allowShell to serve it');
     });
 
-    it('should throw error for gemini-cli type (not yet implemented)', () => {
+    it('should create GeminiCliAdapter for gemini-cli type', () => {
       const config: AdapterConfig = {
         type: 'gemini-cli',
         runtimeDir: '/test/runtime',
         timeout: 30000,
         debug: false,
+        model: 'flash',
+      };
+
+      const adapter = AdapterFactory.create(config);
+
+      expect(adapter).toBeInstanceOf(GeminiCliAdapter);
+      expect(adapter.getName()).toBe('gemini-cli');
+      expect(adapter.getModelName()).toBe('gemini-cli');
+    });
+
+    it('should wrap the adapter for replay when fixtures are configured', async () => {
+      const config: AdapterConfig = {
+        type: 'claude-code',
+        runtimeDir: '/test/runtime',
+        timeout: 30000,
+        debug: false,
+        model: 'haiku',
+        fixtures: { mode: 'replay', file: '/test/recordings.jsonl' },
+      };
+
+      const adapter = AdapterFactory.create(config);
+
+      expect(adapter).toBeInstanceOf(RecordReplayAdapter);
+      expect(adapter.getName()).toBe('claude-code');
+      await expect(adapter.isAvailable()).resolves.toBe(true);
+    });
+
+    it('should apply the context budget of the model', () => {
+      const config: AdapterConfig = {
+        type: 'claude-code',
+        runtimeDir: '/test/runtime',
+        timeout: 30000,
+        debug: false,
         model: 'haiku',
+        context: { models: { opus: 100000 }, strategy: 'drop-oldest', lastTurns: 10 },
       };
 
-      expect(() => AdapterFactory.create(config)).toThrow('Gemini CLI adapter not yet implemented');
+      expect(AdapterFactory.create(config)).toBeInstanceOf(ClaudeCodeAdapter);
+      expect(AdapterFactory.create({ ...config, model: 'opus' })).toBeInstanceOf(ContextLimitedAdapter);
     });
 
     it('should throw error for unknown adapter type', () => {
@@ -56,4 +106,90 @@ describe('AdapterFactory', () => {
       expect(() => AdapterFactory.create(config)).toThrow('Unknown adapter type: unknown');
     });
   });
+
+  describe('createRegistry', () => {
+    it('should register each configured model under <type>/<model>', () => {
+      const registry = AdapterFactory.createRegistry([
+        {
+          type: 'claude-code',
+          runtimeDir: '/test/runtime',
+          timeout: 30000,
+          debug: false,
+          model: 'haiku',
+          models: ['haiku', 'sonnet'],
+        },
+        {
+          type: 'gemini-cli',
+          runtimeDir: '/test/gemini',
+          timeout: 30000,
+          debug: false,
+          model: 'flash',
+        },
+        {
+          type: 'codex',
+          runtimeDir: '/test/codex',
+          timeout: 30000,
+          debug: false,
+          allowShell: true,
+        },
+      ]);
+
+      expect(registry.listModels()).toEqual([
+        'claude-code',
+        'claude-code/haiku',
+        'claude-code/sonnet',
+        'gemini-cli',
+        'gemini-cli/flash',
+        'codex',
+      ]);
+      expect(registry.resolve('claude-code')).toBe(registry.resolve('claude-code/haiku'));
+      expect(registry.resolve('claude-code/sonnet')).not.toBe(registry.resolve('claude-code/haiku'));
+      expect(registry.resolve('claude-code/sonnet')).toBeInstanceOf(ClaudeCodeAdapter);
+      expect(registry.resolve('gemini-cli/flash')).toBeInstanceOf(GeminiCliAdapter);
+      expect(registry.resolve('codex')).toBeInstanceOf(CodexAdapter);
+      expect(registry.getDefault()).toBe(registry.resolve('claude-code'));
+    });
+
+    it('should add retries and fallbacks to the adapters of configs that set them', () => {
+      const registry = AdapterFactory.createRegistry([
+        {
+          type: 'claude-code',
+          runtimeDir: '/test/runtime',
+          timeout: 30000,
+          debug: false,
+          model: 'haiku',
+          models: ['haiku', 'sonnet'],
+          fallback: ['claude-code/sonnet', 'gemini-cli'],
+        },
+        {
+          type: 'gemini-cli',
+          runtimeDir: '/test/gemini',
+          timeout: 30000,
+          debug: false,
+          model: 'flash',
+        },
+      ]);
+
+      expect(registry.resolve('claude-code')).toBeInstanceOf(ResilientAdapter);
+      expect(registry.resolve('claude-code')).toBe(registry.resolve('claude-code/haiku'));
+      expect(registry.resolve('claude-code/sonnet')).toBeInstanceOf(ResilientAdapter);
+      expect(registry.resolve('gemini-cli')).toBeInstanceOf(GeminiCliAdapter);
+      expect(registry.getAdapters()).toHaveLength(3);
+    });
+
+    it('should reject unknown fallback models', () => {
+      expect(() =>
+        AdapterFactory.createRegistry([
+          {
+            type: 'codex',
+            runtimeDir: '/test/codex',
+            timeout: 30000,
+            debug: false,
+            allowShell: true,
+            fallback: ['gemini-cli'],
+          },
+        ])
+      ).toThrow('Unknown fallback model: gemini-cli');
+    });
+  });
 });
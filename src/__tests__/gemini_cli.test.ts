@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GeminiCliAdapter } from '../adapters/gemini_cli';
+import { ATTACHMENTS_DIR } from '../adapters/attachments';
+import { TimeoutError } from '../adapters/errors';
+import { PromptTemplates } from '../adapters/templates';
+import { Message } from '../types';
+
+/**
+ * Fake `gemini` binary placed first on PATH so tests run offline.
+ *
+ * It records its arguments, stdin, working directory, workspace settings and
+ * the GEMINI_SYSTEM_MD file next to itself and reacts to FAKE_GEMINI_MODE: "fail" exits non-zero, "hang"
+ * sleeps past the timeout.
+ */
+const FAKE_GEMINI = `#!/bin/sh
+dir="$(dirname "$0")"
+if [ "$1" = "--version" ]; then
+  echo "0.0.0-fake"
+  exit 0
+fi
+printf '%s\\n' "$@" > "$dir/args.txt"
+cat > "$dir/stdin.txt"
+printf '%s' "$GEMINI_SYSTEM_MD" > "$dir/system-path.txt"
+pwd > "$dir/cwd.txt"
+cat .gemini/settings.json > "$dir/settings.txt" 2>/dev/null || : > "$dir/settings.txt"
+cat "$GEMINI_SYSTEM_MD" > "$dir/system.txt"
+case "$FAKE_GEMINI_MODE" in
+  fail)
+    echo "Error: quota exceeded" >&2
+    exit 1
+    ;;
+  hang)
+    exec sleep 5
+    ;;
+esac
+printf '\\033[1mHello from Gemini!\\033[0m\\n'
+`;
+
+describe('GeminiCliAdapter', () => {
+  const originalPath = process.env.PATH;
+  let binDir: string;
+  let runtimeDir: string;
+
+  const readRecorded = (name: string) => fs.readFileSync(path.join(binDir, name), 'utf8');
+
+  beforeAll(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-gemini-'));
+    runtimeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-runtime-'));
+    fs.writeFileSync(path.join(binDir, 'gemini'), FAKE_GEMINI, { mode: 0o755 });
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+    fs.rmSync(runtimeDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.FAKE_GEMINI_MODE;
+  });
+
+  describe('getName', () => {
+    it('should return "gemini-cli"', () => {
+      expect(new GeminiCliAdapter(runtimeDir).getName()).toBe('gemini-cli');
+    });
+  });
+
+  describe('getModelName', () => {
+    it('should return "gemini-cli"', () => {
+      expect(new GeminiCliAdapter(runtimeDir).getModelName()).toBe('gemini-cli');
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should return true when gemini command is available', async () => {
+      expect(await new GeminiCliAdapter(runtimeDir).isAvailable()).toBe(true);
+    });
+
+    it('should return false when gemini command is not available', async () => {
+      process.env.PATH = '/nonexistent';
+      try {
+        expect(await new GeminiCliAdapter(runtimeDir).isAvailable()).toBe(false);
+      } finally {
+        process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+      }
+    });
+  });
+
+  describe('execute', () => {
+    it('should run gemini with the prompt on stdin and return cleaned output', async () => {
+      const adapter = new GeminiCliAdapter(runtimeDir);
+
+      const result = await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+
+      expect(result.content).toBe('Hello from Gemini!');
+      expect(readRecorded('args.txt').trim().split('\n')).toEqual(['--model', 'gemini-2.5-flash']);
+      expect(readRecorded('stdin.txt')).toBe('Current user message: Hello!');
+    });
+
+    it('should resolve model aliases and pass other names through', async () => {
+      await new GeminiCliAdapter(runtimeDir, 30000, false, 'pro').execute([{ role: 'user', content: 'Hi' }]);
+      expect(readRecorded('args.txt')).toContain('gemini-2.5-pro');
+
+      await new GeminiCliAdapter(runtimeDir, 30000, false, 'gemini-exp-1206').execute([
+        { role: 'user', content: 'Hi' },
+      ]);
+      expect(readRecorded('args.txt')).toContain('gemini-exp-1206');
+    });
+
+    it('should pass the system prompt via GEMINI_SYSTEM_MD and remove the file afterwards', async () => {
+      const adapter = new GeminiCliAdapter(runtimeDir);
+      const messages: Message[] = [
+        { role: 'system', content: 'You are a pirate.' },
+        { role: 'user', content: 'My favorite color is blue' },
+        { role: 'assistant', content: 'That is nice!' },
+        { role: 'user', content: 'What is my favorite color?' },
+      ];
+
+      await adapter.execute(messages);
+
+      const systemPath = readRecorded('system-path.txt');
+      expect(path.dirname(systemPath)).toBe(path.join(runtimeDir, '.gemini'));
+      expect(readRecorded('system.txt')).toMatch(/^You are a pirate\.\n\nYou are a generic/);
+      expect(fs.existsSync(systemPath)).toBe(false);
+
+      const stdin = readRecorded('stdin.txt');
+      expect(stdin).toContain('Conversation history:\n[');
+      expect(stdin).toContain('"content": "That is nice!"');
+      expect(stdin.endsWith('Current user message: What is my favorite color?')).toBe(true);
+    });
+
+    it('should attach images in a workspace of their own with read_many_files enabled', async () => {
+      const settingsFile = path.join(runtimeDir, '.gemini', 'settings.json');
+      fs.mkdirSync(path.dirname(settingsFile), { recursive: true });
+      fs.writeFileSync(settingsFile, JSON.stringify({ excludeTools: ['run_shell_command', 'read_many_files'] }));
+      try {
+        const adapter = new GeminiCliAdapter(runtimeDir, 30000, false, 'flash', new PromptTemplates({}, 'raw'));
+
+        await adapter.execute([{ role: 'user', content: 'Hello!' }]);
+        expect(readRecorded('cwd.txt').trim()).toBe(runtimeDir);
+
+        await adapter.execute([
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            ],
+          },
+        ]);
+        const workspace = readRecorded('cwd.txt').trim();
+        expect(path.dirname(workspace)).toBe(path.join(runtimeDir, ATTACHMENTS_DIR));
+        expect(readRecorded('stdin.txt')).toBe('What is this?\n@image-1.png');
+        expect(JSON.parse(readRecorded('settings.txt'))).toEqual({ excludeTools: ['run_shell_command'] });
+        expect(fs.existsSync(workspace)).toBe(false);
+        expect(JSON.parse(fs.readFileSync(settingsFile, 'utf8')).excludeTools).toContain('read_many_files');
+      } finally {
+        fs.rmSync(settingsFile);
+      }
+    });
+
+    it('should reject with stderr when gemini exits non-zero', async () => {
+      process.env.FAKE_GEMINI_MODE = 'fail';
+      const adapter = new GeminiCliAdapter(runtimeDir);
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toMatchObject({
+        code: 1,
+        stderr: expect.stringContaining('quota exceeded'),
+      });
+      expect(fs.readdirSync(path.join(runtimeDir, '.gemini'))).toEqual([]);
+    });
+
+    it('should throw TimeoutError when execution times out', async () => {
+      process.env.FAKE_GEMINI_MODE = 'hang';
+      const adapter = new GeminiCliAdapter(runtimeDir, 200);
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hello!' }])).rejects.toThrow(TimeoutError);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { CLIAdapter } from '../../adapters/base';
+import { ExecuteOptions, ExecutionResult, Message } from '../../types';
+
+export interface StubAdapterOptions {
+  /** Name reported by getName(), 'claude-code' by default */
+  name?: string;
+  /** Model name reported by getModelName(), the name by default */
+  modelName?: string;
+  /** Content execute() replies with, `Reply from <name>` by default */
+  reply?: string;
+  /** Chunks executeStream() yields, the reply of execute() in one chunk by default */
+  chunks?: string[];
+  /** Result of isAvailable(), true by default */
+  available?: boolean;
+}
+
+/**
+ * Adapter standing in for a CLI in tests
+ *
+ * execute, stream and isAvailable are jest mocks, so tests can inspect the
+ * messages the adapter received and change how it answers. executeStream()
+ * delegates to stream.
+ */
+export class StubAdapter extends CLIAdapter {
+  execute = jest.fn(
+    async (messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult> => ({
+      content: this.options.reply ?? `Reply from ${this.getName()}`,
+    })
+  );
+  stream = jest.fn((messages: Message[], options?: ExecuteOptions): AsyncIterable<string> =>
+    this.options.chunks ? yieldAll(this.options.chunks) : super.executeStream(messages, options)
+  );
+  isAvailable = jest.fn(async () => this.options.available ?? true);
+
+  constructor(private readonly options: StubAdapterOptions = {}) {
+    super();
+  }
+
+  executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    return this.stream(messages, options);
+  }
+
+  getName(): string {
+    return this.options.name ?? 'claude-code';
+  }
+
+  getModelName(): string {
+    return this.options.modelName ?? this.getName();
+  }
+}
+
+async function* yieldAll(chunks: string[]): AsyncIterable<string> {
+  yield* chunks;
+}
@@ -0,0 +1,59 @@
+import { Logger } from '../logger';
+
+describe('Logger', () => {
+  let lines: any[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    lines = [];
+    logger = new Logger({ write: (line) => lines.push(JSON.parse(line)) });
+  });
+
+  it('should write one JSON object per line', () => {
+    logger.info('Started', { port: 8000 });
+
+    expect(lines).toEqual([{ time: expect.any(String), level: 'info', msg: 'Started', port: 8000 }]);
+    expect(new Date(lines[0].time).toISOString()).toBe(lines[0].time);
+  });
+
+  it('should skip lines below the configured level', () => {
+    logger.debug('hidden');
+    logger.configure({ level: 'warn' });
+    logger.info('hidden');
+    logger.warn('shown');
+    logger.error('shown too');
+
+    expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should lower the level to debug when capturing payloads', () => {
+    logger.configure({ capturePayloads: true });
+    logger.debug('shown');
+
+    expect(logger.capturePayloads).toBe(true);
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should omit undefined fields and serialize errors', () => {
+    const error = Object.assign(new Error('exit 1'), { code: 1, stderr: 'boom' });
+    logger.error('Failed', { error, missing: undefined });
+
+    expect(lines[0]).not.toHaveProperty('missing');
+    expect(lines[0].error).toMatchObject({ name: 'Error', message: 'exit 1', code: 1, stderr: 'boom' });
+    expect(lines[0].error.stack).toContain('exit 1');
+  });
+
+  it('should add context fields across async calls', async () => {
+    await logger.withContext({ requestId: 'req-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.withContext({ adapter: 'codex' }, () => logger.info('inner'));
+      logger.info('outer');
+    });
+    logger.info('outside');
+
+    expect(lines[0]).toMatchObject({ msg: 'inner', requestId: 'req-1', adapter: 'codex' });
+    expect(lines[1]).toMatchObject({ msg: 'outer', requestId: 'req-1' });
+    expect(lines[1]).not.toHaveProperty('adapter');
+    expect(lines[2]).not.toHaveProperty('requestId');
+  });
+});
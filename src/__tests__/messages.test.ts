@@ -0,0 +1,176 @@
+import {
+  buildMessage,
+  messageEvents,
+  messagesToChatRequest,
+  toAnthropicError,
+  validateMessagesRequest,
+} from '../messages';
+
+describe('validateMessagesRequest', () => {
+  const messages = [{ role: 'user', content: 'Hi' }];
+
+  it('should accept Messages API requests', () => {
+    expect(
+      validateMessagesRequest({
+        max_tokens: 100,
+        system: [{ type: 'text', text: 'Be brief' }],
+        stop_sequences: ['END'],
+        messages: [
+          { role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AA' } }] },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'f', input: {} }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }] },
+        ],
+        tools: [{ name: 'f', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'any' },
+      })
+    ).toBeUndefined();
+  });
+
+  it('should require max_tokens and messages', () => {
+    expect(validateMessagesRequest({ messages })).toContain('max_tokens is required');
+    expect(validateMessagesRequest({ max_tokens: 0, messages })).toContain('max_tokens is required');
+    expect(validateMessagesRequest({ max_tokens: 10, messages: [] })).toBe(
+      'Invalid request: messages must be a non-empty array'
+    );
+  });
+
+  it('should reject malformed messages and options', () => {
+    const validate = (fields: object) => validateMessagesRequest({ max_tokens: 10, messages, ...fields });
+
+    expect(validate({ messages: [{ role: 'system', content: 'x' }] })).toContain('role must be user or assistant');
+    expect(validate({ messages: [{ role: 'user', content: [{ type: 'document' }] }] })).toContain(
+      'unsupported content block type "document"'
+    );
+    expect(
+      validate({ messages: [{ role: 'user', content: [{ type: 'tool_use', id: 'a', name: 'f', input: {} }] }] })
+    ).toContain('only supported in assistant messages');
+    expect(validate({ stop_sequences: 'END' })).toContain('stop_sequences must be an array of strings');
+    expect(validate({ tools: [{ type: 'web_search_20250305', name: 'web_search' }] })).toContain(
+      'only custom tools are supported'
+    );
+    expect(validate({ tool_choice: { type: 'tool' } })).toContain('needs a name');
+  });
+});
+
+describe('messagesToChatRequest', () => {
+  it('should convert system, content blocks and options', () => {
+    const request = messagesToChatRequest({
+      model: 'm',
+      max_tokens: 100,
+      system: 'Be brief',
+      stop_sequences: ['END'],
+      tools: [{ name: 'f', description: 'Does f', input_schema: { type: 'object' } }],
+      tool_choice: { type: 'tool', name: 'f' },
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'f', input: { a: 1 } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'failed' }], is_error: true },
+            { type: 'text', text: 'Try again' },
+          ],
+        },
+      ],
+    });
+
+    expect(request).toMatchObject({
+      model: 'm',
+      max_tokens: 100,
+      stop: ['END'],
+      tools: [{ type: 'function', function: { name: 'f', description: 'Does f', parameters: { type: 'object' } } }],
+      tool_choice: { type: 'function', function: { name: 'f' } },
+    });
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'f', arguments: '{"a":1}' } }],
+      },
+      { role: 'tool', tool_call_id: 'toolu_1', content: 'Error: failed' },
+      { role: 'user', content: [{ type: 'text', text: 'Try again' }] },
+    ]);
+  });
+
+  it('should map tool choices', () => {
+    const choice = (toolChoice: any) =>
+      messagesToChatRequest({ model: 'm', max_tokens: 1, messages: [], tool_choice: toolChoice }).tool_choice;
+
+    expect(choice({ type: 'auto' })).toBe('auto');
+    expect(choice({ type: 'any' })).toBe('required');
+    expect(choice({ type: 'none' })).toBe('none');
+    expect(choice(undefined)).toBeUndefined();
+  });
+});
+
+describe('message events', () => {
+  const usage = { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 };
+
+  it('should build messages with text and tool_use blocks', () => {
+    const message = buildMessage(
+      { id: 'msg_1', model: 'm' },
+      'Checking',
+      [{ id: 'call_1', type: 'function', function: { name: 'f', arguments: '{"a":1}' } }],
+      { finishReason: 'stop', stopSequence: null },
+      usage
+    );
+
+    expect(message).toMatchObject({
+      content: [
+        { type: 'text', text: 'Checking' },
+        { type: 'tool_use', id: 'call_1', name: 'f', input: { a: 1 } },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 3, output_tokens: 2 },
+    });
+
+    const events = messageEvents(message);
+    expect(events.map((event) => event.event)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+    expect(events[5].data).toEqual({
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '{"a":1}' },
+    });
+  });
+
+  it('should convert error bodies', () => {
+    const error = (type: string, code: string) => toAnthropicError({ error: { message: 'x', type, code } }).error.type;
+
+    expect(error('invalid_request_error', 'invalid_api_key')).toBe('authentication_error');
+    expect(error('invalid_request_error', 'model_not_found')).toBe('not_found_error');
+    expect(error('rate_limit_error', 'rate_limit_exceeded')).toBe('rate_limit_error');
+    expect(error('timeout_error', 'queue_timeout')).toBe('overloaded_error');
+    expect(error('timeout_error', 'timeout')).toBe('timeout_error');
+    expect(error('internal_error', 'internal_error')).toBe('api_error');
+  });
+});
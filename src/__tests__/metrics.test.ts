@@ -0,0 +1,119 @@
+import { TimeoutError } from '../adapters/errors';
+import { Counter, Gauge, Histogram, ServerMetrics } from '../metrics';
+import { StubAdapter } from './helpers/stub_adapter';
+
+describe('metrics', () => {
+  describe('Counter', () => {
+    it('should render one sample per label set', () => {
+      const counter = new Counter('requests_total', 'Requests');
+      counter.inc({ status: '200' });
+      counter.inc({ status: '200' });
+      counter.inc({ status: '500' }, 3);
+
+      expect(counter.render()).toEqual([
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{status="200"} 2',
+        'requests_total{status="500"} 3',
+      ]);
+    });
+
+    it('should escape label values', () => {
+      const counter = new Counter('c', 'C');
+      counter.inc({ model: 'a"b\\c\nd' });
+
+      expect(counter.render()[2]).toBe('c{model="a\\"b\\\\c\\nd"} 1');
+    });
+
+    it('should treat label order as irrelevant', () => {
+      const counter = new Counter('c', 'C');
+      counter.inc({ a: '1', b: '2' });
+      counter.inc({ b: '2', a: '1' });
+
+      expect(counter.get({ a: '1', b: '2' })).toBe(2);
+    });
+  });
+
+  describe('Gauge', () => {
+    it('should go up and down', () => {
+      const gauge = new Gauge('in_flight', 'In flight');
+      gauge.inc();
+      gauge.inc();
+      gauge.dec();
+
+      expect(gauge.render()).toEqual(['# HELP in_flight In flight', '# TYPE in_flight gauge', 'in_flight 1']);
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should render cumulative buckets, sum and count', () => {
+      const histogram = new Histogram('duration_seconds', 'Duration', [1, 5]);
+      histogram.observe({ adapter: 'x' }, 0.5);
+      histogram.observe({ adapter: 'x' }, 3);
+      histogram.observe({ adapter: 'x' }, 10);
+
+      expect(histogram.render().slice(2)).toEqual([
+        'duration_seconds_bucket{adapter="x",le="1"} 1',
+        'duration_seconds_bucket{adapter="x",le="5"} 2',
+        'duration_seconds_bucket{adapter="x",le="+Inf"} 3',
+        'duration_seconds_sum{adapter="x"} 13.5',
+        'duration_seconds_count{adapter="x"} 3',
+      ]);
+    });
+  });
+
+  describe('ServerMetrics', () => {
+    let metrics: ServerMetrics;
+    let stub: StubAdapter;
+    const labels = { adapter: 'claude-code', model: 'claude-code/haiku' };
+
+    beforeEach(() => {
+      metrics = new ServerMetrics();
+      stub = new StubAdapter();
+    });
+
+    it('should measure successful executions', async () => {
+      const adapter = metrics.wrap(stub, 'claude-code/haiku');
+
+      await adapter.execute([{ role: 'user', content: 'Hi' }]);
+
+      const output = metrics.render();
+      expect(output).toContain(
+        'cli_adapter_execution_duration_seconds_count{adapter="claude-code",model="claude-code/haiku",outcome="success"} 1'
+      );
+      expect(metrics.inFlight.get(labels)).toBe(0);
+    });
+
+    it('should count timeouts and errors', async () => {
+      const adapter = metrics.wrap(stub, 'claude-code/haiku');
+      stub.execute.mockRejectedValueOnce(new TimeoutError('timed out'));
+      stub.execute.mockRejectedValueOnce(new Error('failed'));
+
+      await expect(adapter.execute([{ role: 'user', content: 'Hi' }])).rejects.toThrow('timed out');
+      await expect(adapter.execute([{ role: 'user', content: 'Hi' }])).rejects.toThrow('failed');
+
+      expect(metrics.timeouts.get(labels)).toBe(1);
+      const output = metrics.render();
+      expect(output).toContain('outcome="timeout"} 1');
+      expect(output).toContain('outcome="error"} 1');
+    });
+
+    it('should count a stream as in flight until it is finished', async () => {
+      const adapter = metrics.wrap(stub, 'claude-code/haiku');
+
+      for await (const chunk of adapter.executeStream([{ role: 'user', content: 'Hi' }])) {
+        expect(metrics.inFlight.get(labels)).toBe(1);
+      }
+
+      expect(metrics.inFlight.get(labels)).toBe(0);
+    });
+
+    it('should count tokens by direction and source', () => {
+      metrics.recordTokens('claude-code', 'claude-code/haiku', { inputTokens: 10, outputTokens: 5 }, 'reported');
+      metrics.recordTokens('claude-code', 'claude-code/haiku', { inputTokens: 2, outputTokens: 1 }, 'estimated');
+
+      expect(metrics.tokens.get({ ...labels, type: 'input', source: 'reported' })).toBe(10);
+      expect(metrics.tokens.get({ ...labels, type: 'output', source: 'estimated' })).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { estimateMessageTokens } from '../adapters/context';
+import {
+  CHARS_PER_TOKEN,
+  OutputLimiter,
+  estimateTokens,
+  limitOutput,
+  outputLimits,
+  unsupportedParameters,
+  validateParameters,
+} from '../parameters';
+
+describe('validateParameters', () => {
+  it('should accept valid max_tokens, stop and n', () => {
+    expect(validateParameters({})).toBeUndefined();
+    expect(validateParameters({ max_tokens: 10, stop: '\n', n: 3 })).toBeUndefined();
+    expect(validateParameters({ max_completion_tokens: 10, stop: ['END', '###'], n: null })).toBeUndefined();
+  });
+
+  it('should reject invalid values', () => {
+    expect(validateParameters({ max_tokens: 0 })).toBe('Invalid request: max_tokens must be a positive integer');
+    expect(validateParameters({ max_completion_tokens: 1.5 })).toContain('max_completion_tokens');
+    expect(validateParameters({ stop: [''] })).toContain('stop must be');
+    expect(validateParameters({ stop: 1 })).toContain('stop must be');
+    expect(validateParameters({ n: 11 })).toBe('Invalid request: n must be an integer between 1 and 10');
+  });
+});
+
+describe('unsupportedParameters', () => {
+  it('should list the sampling parameters that are set', () => {
+    expect(unsupportedParameters({ model: 'm', max_tokens: 10 })).toEqual([]);
+    expect(unsupportedParameters({ temperature: 0, top_p: 1, seed: null, logprobs: false })).toEqual([
+      'temperature',
+      'top_p',
+    ]);
+  });
+});
+
+describe('outputLimits', () => {
+  it('should prefer max_completion_tokens and list stop sequences', () => {
+    expect(outputLimits({ max_tokens: 10, max_completion_tokens: 5, stop: 'END' })).toEqual({
+      maxTokens: 5,
+      stop: ['END'],
+    });
+    expect(outputLimits({})).toEqual({ maxTokens: undefined, stop: [] });
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should agree with output limits and context budgets', () => {
+    const text = 'x'.repeat(10 * CHARS_PER_TOKEN + 1);
+
+    expect(estimateTokens(text)).toBe(11);
+    expect(estimateMessageTokens([{ role: 'user', content: text }])).toBe(11);
+    expect(limitOutput(text, { maxTokens: 10, stop: [] }).content).toHaveLength(10 * CHARS_PER_TOKEN);
+  });
+});
+
+describe('limitOutput', () => {
+  it('should end before the earliest stop sequence', () => {
+    expect(limitOutput('one, two. three', { stop: ['.', ','] })).toEqual({
+      content: 'one',
+      finishReason: 'stop',
+      stopSequence: ',',
+    });
+  });
+
+  it('should truncate to the token limit', () => {
+    expect(limitOutput('a'.repeat(10), { maxTokens: 2, stop: [] })).toEqual({
+      content: 'a'.repeat(8),
+      finishReason: 'length',
+      stopSequence: null,
+    });
+    expect(limitOutput('a'.repeat(8), { maxTokens: 2, stop: [] }).finishReason).toBe('stop');
+  });
+});
+
+describe('OutputLimiter', () => {
+  it('should find stop sequences split across pieces', () => {
+    const limiter = new OutputLimiter({ stop: ['STOP'] });
+
+    expect(limiter.push('Hello ST')).toBe('Hello ');
+    expect(limiter.push('OP here')).toBe('');
+    expect(limiter.done).toBe(true);
+    expect(limiter.result).toEqual({ finishReason: 'stop', stopSequence: 'STOP' });
+  });
+
+  it('should release held back text that is not a stop sequence', () => {
+    const limiter = new OutputLimiter({ stop: ['STOP'] });
+
+    expect(limiter.push('Hello ST')).toBe('Hello ');
+    expect(limiter.push('ART')).toBe('START');
+    expect(limiter.push(' ST')).toBe(' ');
+    expect(limiter.end()).toBe('ST');
+    expect(limiter.result).toEqual({ finishReason: 'stop', stopSequence: null });
+  });
+
+  it('should stop at the token limit across pieces', () => {
+    const limiter = new OutputLimiter({ maxTokens: 1, stop: [] });
+
+    expect(limiter.push('abc')).toBe('abc');
+    expect(limiter.push('def')).toBe('d');
+    expect(limiter.done).toBe(true);
+    expect(limiter.push('ghi')).toBe('');
+    expect(limiter.result.finishReason).toBe('length');
+  });
+});
@@ -0,0 +1,160 @@
+import { CancelledError } from '../adapters/errors';
+import { ConcurrencyLimiter, QueueFullError, QueueTimeoutError } from '../queue';
+import { ExecutionResult } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+/**
+ * Promise that can be settled from the outside
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('should reject an invalid maxConcurrency', () => {
+    expect(() => new ConcurrencyLimiter({ maxConcurrency: 0, maxQueueSize: 1, queueTimeout: 0 })).toThrow(
+      'maxConcurrency must be at least 1, got 0'
+    );
+  });
+
+  it('should run up to maxConcurrency tasks at once and queue the rest in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 2, maxQueueSize: 10, queueTimeout: 0 });
+    const tasks = [deferred<void>(), deferred<void>(), deferred<void>(), deferred<void>()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, i) =>
+      limiter.run(async () => {
+        started.push(i);
+        await task.promise;
+      })
+    );
+
+    await new Promise((r) => setImmediate(r));
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getStats()).toEqual({ active: 2, queued: 2, maxConcurrency: 2, maxQueueSize: 10 });
+
+    tasks[1].resolve();
+    await new Promise((r) => setImmediate(r));
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve();
+    tasks[2].resolve();
+    tasks[3].resolve();
+    await Promise.all(runs);
+
+    expect(started).toEqual([0, 1, 2, 3]);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 0, queueTimeout: 0 });
+
+    await expect(limiter.run(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should reject with QueueFullError when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 1, queueTimeout: 0 });
+    const task = deferred<void>();
+
+    const first = limiter.run(() => task.promise);
+    const second = limiter.run(async () => undefined);
+
+    const third = limiter.run(async () => undefined);
+    await expect(third).rejects.toThrow(QueueFullError);
+    await expect(third).rejects.toMatchObject({ retryAfter: expect.any(Number) });
+
+    task.resolve();
+    await Promise.all([first, second]);
+  });
+
+  it('should reject with QueueTimeoutError when waiting too long', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 5, queueTimeout: 20 });
+    const task = deferred<void>();
+
+    const first = limiter.run(() => task.promise);
+    const waiting = limiter.run(async () => 'never');
+
+    await expect(waiting).rejects.toThrow(QueueTimeoutError);
+    expect(limiter.getStats()).toMatchObject({ active: 1, queued: 0 });
+
+    task.resolve();
+    await first;
+    expect(limiter.getStats()).toMatchObject({ active: 0 });
+  });
+
+  it('should remove a waiting task when its signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 5, queueTimeout: 0 });
+    const task = deferred<void>();
+    const controller = new AbortController();
+    const queued = jest.fn(async () => 'never');
+
+    const first = limiter.run(() => task.promise);
+    const waiting = limiter.run(queued, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(CancelledError);
+    expect(limiter.getStats()).toMatchObject({ active: 1, queued: 0 });
+    await expect(limiter.run(async () => undefined, controller.signal)).rejects.toThrow(CancelledError);
+
+    task.resolve();
+    await first;
+    expect(queued).not.toHaveBeenCalled();
+    expect(limiter.getStats()).toMatchObject({ active: 0 });
+  });
+
+  it('should ignore repeated release calls', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 1, queueTimeout: 0 });
+
+    const release = await limiter.acquire();
+    release();
+    release();
+
+    expect(limiter.getStats()).toMatchObject({ active: 0 });
+  });
+
+  describe('wrap', () => {
+    it('should hold a slot for each execution of the wrapped adapter', async () => {
+      const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 5, queueTimeout: 0 });
+      const stub = new StubAdapter({ name: 'stub', modelName: 'stub-model' });
+      const pending: Array<(result: ExecutionResult) => void> = [];
+      stub.execute.mockImplementation(() => new Promise((resolve) => pending.push(resolve)));
+      const adapter = limiter.wrap(stub);
+
+      expect(adapter.getName()).toBe('stub');
+      expect(adapter.getModelName()).toBe('stub-model');
+
+      const first = adapter.execute([{ role: 'user', content: '1' }]);
+      const second = adapter.execute([{ role: 'user', content: '2' }]);
+      await new Promise((r) => setImmediate(r));
+
+      expect(pending).toHaveLength(1);
+      expect(limiter.getStats()).toMatchObject({ active: 1, queued: 1 });
+
+      pending[0]({ content: 'one' });
+      await expect(first).resolves.toEqual({ content: 'one' });
+      await new Promise((r) => setImmediate(r));
+
+      pending[1]({ content: 'two' });
+      await expect(second).resolves.toEqual({ content: 'two' });
+    });
+
+    it('should hold a slot until a stream is finished', async () => {
+      const limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 5, queueTimeout: 0 });
+      const adapter = limiter.wrap(new StubAdapter({ chunks: ['a', 'b'] }));
+
+      const chunks: string[] = [];
+      for await (const chunk of adapter.executeStream([{ role: 'user', content: 'Hi' }])) {
+        chunks.push(chunk);
+        expect(limiter.getStats().active).toBe(1);
+      }
+
+      expect(chunks).toEqual(['a', 'b']);
+      expect(limiter.getStats().active).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FixtureNotFoundError } from '../adapters/errors';
+import { RecordReplayAdapter } from '../adapters/record_replay';
+import { Message } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('RecordReplayAdapter', () => {
+  let directory: string;
+  let file: string;
+  let stub: StubAdapter;
+  const hello: Message[] = [{ role: 'user', content: 'Hello' }];
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    file = path.join(directory, 'nested', 'recordings.jsonl');
+    stub = new StubAdapter({ chunks: ['Hello', ', world'], available: false });
+    stub.execute.mockImplementation(async (messages) => ({
+      content: `reply to ${messages[messages.length - 1].content}`,
+      usage: { inputTokens: 3, outputTokens: 4 },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const readLines = () =>
+    fs
+      .readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  describe('record mode', () => {
+    it('should append each execution to the fixtures file', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+
+      const result = await adapter.execute(hello);
+
+      expect(result.content).toBe('reply to Hello');
+      expect(readLines()).toEqual([
+        {
+          key: expect.stringMatching(/^[0-9a-f]{64}$/),
+          adapter: 'claude-code/haiku',
+          messages: hello,
+          result: { content: 'reply to Hello', usage: { inputTokens: 3, outputTokens: 4 } },
+        },
+      ]);
+    });
+
+    it('should record stream chunks', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+
+      expect(await collect(adapter.executeStream(hello))).toEqual(['Hello', ', world']);
+      expect(readLines()[0]).toMatchObject({
+        result: { content: 'Hello, world' },
+        chunks: ['Hello', ', world'],
+      });
+    });
+
+    it('should record the usage a stream reports', async () => {
+      const buffered = new StubAdapter();
+      buffered.execute.mockResolvedValue({ content: 'Hi', usage: { inputTokens: 3, outputTokens: 4 } });
+      const onUsage = jest.fn();
+      const adapter = new RecordReplayAdapter(buffered, 'record', file, 'claude-code/haiku');
+
+      expect(await collect(adapter.executeStream(hello, { onUsage }))).toEqual(['Hi']);
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 3, outputTokens: 4 });
+      expect(readLines()[0]).toMatchObject({
+        result: { content: 'Hi', usage: { inputTokens: 3, outputTokens: 4 } },
+        chunks: ['Hi'],
+      });
+    });
+
+    it('should not record failed executions', async () => {
+      stub.execute.mockRejectedValueOnce(new Error('CLI failed'));
+      const adapter = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+
+      await expect(adapter.execute(hello)).rejects.toThrow('CLI failed');
+      expect(fs.existsSync(file)).toBe(false);
+    });
+
+    it('should report the availability of the wrapped CLI', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+
+      await expect(adapter.isAvailable()).resolves.toBe(false);
+    });
+  });
+
+  describe('replay mode', () => {
+    beforeEach(async () => {
+      const recorder = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+      await recorder.execute(hello);
+      await collect(recorder.executeStream([{ role: 'user', content: 'Stream' }]));
+      stub.execute.mockClear();
+    });
+
+    it('should serve recorded results without running the CLI', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      await expect(adapter.execute(hello)).resolves.toEqual({
+        content: 'reply to Hello',
+        usage: { inputTokens: 3, outputTokens: 4 },
+      });
+      await expect(adapter.isAvailable()).resolves.toBe(true);
+      expect(stub.execute).not.toHaveBeenCalled();
+    });
+
+    it('should replay recorded chunks as a stream', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      expect(await collect(adapter.executeStream([{ role: 'user', content: 'Stream' }]))).toEqual([
+        'Hello',
+        ', world',
+      ]);
+      await expect(adapter.execute([{ role: 'user', content: 'Stream' }])).resolves.toEqual({
+        content: 'Hello, world',
+      });
+    });
+
+    it('should replay buffered results as a single chunk', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      expect(await collect(adapter.executeStream(hello))).toEqual(['reply to Hello']);
+    });
+
+    it('should replay the recorded usage of a stream', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+      const onUsage = jest.fn();
+
+      expect(await collect(adapter.executeStream(hello, { onUsage }))).toEqual(['reply to Hello']);
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 3, outputTokens: 4 });
+    });
+
+    it('should replay repeated requests in recording order', async () => {
+      const recorder = new RecordReplayAdapter(stub, 'record', file, 'claude-code/haiku');
+      stub.execute.mockResolvedValueOnce({ content: 'second' });
+      await recorder.execute(hello);
+
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      expect((await adapter.execute(hello)).content).toBe('reply to Hello');
+      expect((await adapter.execute(hello)).content).toBe('second');
+      expect((await adapter.execute(hello)).content).toBe('second');
+    });
+
+    it('should fail loudly on an unmatched request', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      await expect(adapter.execute([{ role: 'user', content: 'Unknown' }])).rejects.toThrow(FixtureNotFoundError);
+      await expect(adapter.execute([{ role: 'user', content: 'Unknown' }])).rejects.toThrow(
+        /^No recorded fixture for claude-code\/haiku matches this request \(key [0-9a-f]{64}\)$/
+      );
+    });
+
+    it('should not match fixtures recorded with another template or token limit', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/haiku');
+
+      await expect(adapter.execute(hello, { template: 'raw' })).rejects.toThrow(FixtureNotFoundError);
+      await expect(adapter.execute(hello, { maxTokens: 10 })).rejects.toThrow(FixtureNotFoundError);
+    });
+
+    it('should not match fixtures recorded for another adapter', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', file, 'claude-code/sonnet');
+
+      await expect(adapter.execute(hello)).rejects.toThrow(FixtureNotFoundError);
+    });
+
+    it('should fail when the fixtures file is missing', async () => {
+      const adapter = new RecordReplayAdapter(stub, 'replay', path.join(directory, 'missing.jsonl'), 'claude-code');
+
+      await expect(adapter.execute(hello)).rejects.toThrow('Cannot read fixtures file');
+    });
+  });
+});
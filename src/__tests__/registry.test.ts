@@ -0,0 +1,51 @@
+import { AdapterRegistry } from '../adapters/registry';
+import { StubAdapter } from './helpers/stub_adapter';
+
+describe('AdapterRegistry', () => {
+  it('should resolve registered model ids', () => {
+    const a = new StubAdapter({ name: 'a' });
+    const b = new StubAdapter({ name: 'b' });
+    const registry = new AdapterRegistry().register('a', a).register('b/large', b);
+
+    expect(registry.resolve('a')).toBe(a);
+    expect(registry.resolve('b/large')).toBe(b);
+    expect(registry.resolve('b')).toBeUndefined();
+  });
+
+  it('should use the first registered adapter as default', () => {
+    const a = new StubAdapter({ name: 'a' });
+    const b = new StubAdapter({ name: 'b' });
+    const registry = new AdapterRegistry().register('a', a).register('b', b);
+
+    expect(registry.getDefault()).toBe(a);
+    expect(registry.resolve()).toBe(a);
+    expect(registry.resolve('')).toBe(a);
+  });
+
+  it('should list models and distinct adapters in registration order', () => {
+    const a = new StubAdapter({ name: 'a' });
+    const b = new StubAdapter({ name: 'b' });
+    const registry = new AdapterRegistry().register('a', a).register('a/small', a).register('b', b);
+
+    expect(registry.listModels()).toEqual(['a', 'a/small', 'b']);
+    expect(registry.getAdapters()).toEqual([a, b]);
+  });
+
+  it('should reject duplicate model ids', () => {
+    const registry = new AdapterRegistry().register('a', new StubAdapter({ name: 'a' }));
+
+    expect(() => registry.register('a', new StubAdapter({ name: 'a' }))).toThrow('Model already registered: a');
+  });
+
+  it('should throw when asking for the default of an empty registry', () => {
+    expect(() => new AdapterRegistry().getDefault()).toThrow('No adapters registered');
+  });
+
+  it('should wrap a single adapter under its model name', () => {
+    const a = new StubAdapter({ name: 'a' });
+    const registry = AdapterRegistry.single(a);
+
+    expect(registry.listModels()).toEqual(['a']);
+    expect(registry.getDefault()).toBe(a);
+  });
+});
@@ -0,0 +1,162 @@
+import { CancelledError, ContextLengthExceededError, TimeoutError } from '../adapters/errors';
+import { ResilientAdapter, classifyFailure, retryDelay } from '../adapters/resilience';
+import { logger } from '../logger';
+import { Message } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+/**
+ * An execution error as thrown for a CLI exiting non-zero
+ */
+function exitError(code: number | null, stderr = ''): Error {
+  return Object.assign(new Error(`Command failed with exit code ${code}`), { code, stderr });
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const messages: Message[] = [{ role: 'user', content: 'Hello!' }];
+const policy = { retries: 2, delay: 1, maxDelay: 5 };
+
+describe('classifyFailure', () => {
+  it('should retry timeouts, temporary failures and rate limits', () => {
+    expect(classifyFailure(new TimeoutError('Claude Code execution timed out'))).toBe('retry');
+    expect(classifyFailure(exitError(75))).toBe('retry');
+    expect(classifyFailure(exitError(null))).toBe('retry');
+    expect(classifyFailure(exitError(1, 'API Error: 529 {"type":"overloaded_error"}'))).toBe('retry');
+    expect(classifyFailure(new Error('Claude Code returned an error: Rate limit reached'))).toBe('retry');
+  });
+
+  it('should fall back on other execution failures', () => {
+    expect(classifyFailure(exitError(1, 'Invalid model'))).toBe('fallback');
+    expect(classifyFailure(Object.assign(new Error('spawn claude ENOENT'), { code: 'ENOENT' }))).toBe('fallback');
+  });
+
+  it('should report failures caused by the request as they are', () => {
+    expect(classifyFailure(new CancelledError())).toBe('fail');
+    expect(classifyFailure(new ContextLengthExceededError(10, 20))).toBe('fail');
+  });
+});
+
+describe('retryDelay', () => {
+  it('should double the delay up to the maximum', () => {
+    const backoff = { retries: 5, delay: 1000, maxDelay: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => retryDelay(backoff, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('ResilientAdapter', () => {
+  let primary: StubAdapter;
+  let fallback: StubAdapter;
+  let adapter: ResilientAdapter;
+
+  beforeEach(() => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    primary = new StubAdapter({ name: 'claude-code', chunks: ['Hel', 'lo'] });
+    fallback = new StubAdapter({ name: 'gemini-cli', chunks: ['Hel', 'lo'] });
+    adapter = new ResilientAdapter(
+      { id: 'claude-code/haiku', adapter: primary },
+      [{ id: 'gemini-cli/flash', adapter: fallback }],
+      policy
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry transient failures and report the backend that answered', async () => {
+    const onBackend = jest.fn();
+    primary.execute
+      .mockRejectedValueOnce(exitError(1, 'Overloaded'))
+      .mockRejectedValueOnce(new TimeoutError('Timed out'));
+
+    const result = await adapter.execute(messages, { onBackend });
+
+    expect(result.content).toBe('Reply from claude-code');
+    expect(primary.execute).toHaveBeenCalledTimes(3);
+    expect(fallback.execute).not.toHaveBeenCalled();
+    expect(onBackend).toHaveBeenCalledWith('claude-code/haiku');
+    expect(logger.warn).toHaveBeenCalledWith('Execution failed, retrying', expect.objectContaining({ attempt: 2 }));
+  });
+
+  it('should fall back once the retries are exhausted', async () => {
+    const onBackend = jest.fn();
+    primary.execute.mockRejectedValue(exitError(1, 'rate_limit_error'));
+
+    const result = await adapter.execute(messages, { onBackend });
+
+    expect(result.content).toBe('Reply from gemini-cli');
+    expect(primary.execute).toHaveBeenCalledTimes(3);
+    expect(onBackend).toHaveBeenCalledTimes(1);
+    expect(onBackend).toHaveBeenCalledWith('gemini-cli/flash');
+  });
+
+  it('should fall back without retrying failures that are not transient', async () => {
+    primary.execute.mockRejectedValue(exitError(1, 'Invalid API key'));
+
+    await expect(adapter.execute(messages)).resolves.toEqual({ content: 'Reply from gemini-cli' });
+    expect(primary.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last failure when every backend failed', async () => {
+    primary.execute.mockRejectedValue(exitError(1, 'Invalid API key'));
+    fallback.execute.mockRejectedValue(exitError(41, 'Not logged in'));
+
+    await expect(adapter.execute(messages)).rejects.toThrow('exit code 41');
+  });
+
+  it('should neither retry nor fall back on failures caused by the request', async () => {
+    primary.execute.mockRejectedValue(new ContextLengthExceededError(10, 20));
+
+    await expect(adapter.execute(messages)).rejects.toThrow(ContextLengthExceededError);
+    expect(primary.execute).toHaveBeenCalledTimes(1);
+    expect(fallback.execute).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting for a retry when the execution is cancelled', async () => {
+    const controller = new AbortController();
+    const slow = new ResilientAdapter({ id: 'claude-code', adapter: primary }, [], { ...policy, delay: 60000 });
+    primary.execute.mockRejectedValue(new TimeoutError('Timed out'));
+
+    const execution = slow.execute(messages, { signal: controller.signal });
+    setImmediate(() => controller.abort());
+
+    await expect(execution).rejects.toThrow(CancelledError);
+    expect(primary.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back when a stream fails before its first output', async () => {
+    const onBackend = jest.fn();
+    primary.stream.mockImplementation(async function* () {
+      throw exitError(1, 'Invalid model');
+    });
+
+    await expect(collect(adapter.executeStream(messages, { onBackend }))).resolves.toEqual(['Hel', 'lo']);
+    expect(fallback.stream).toHaveBeenCalledTimes(1);
+    expect(onBackend).toHaveBeenCalledWith('gemini-cli/flash');
+  });
+
+  it('should not retry a stream that already produced output', async () => {
+    primary.stream.mockImplementation(async function* () {
+      yield 'Hel';
+      throw new TimeoutError('Timed out');
+    });
+
+    const chunks: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of adapter.executeStream(messages)) {
+          chunks.push(chunk);
+        }
+      })()
+    ).rejects.toThrow(TimeoutError);
+    expect(chunks).toEqual(['Hel']);
+    expect(primary.stream).toHaveBeenCalledTimes(1);
+    expect(fallback.stream).not.toHaveBeenCalled();
+  });
+});
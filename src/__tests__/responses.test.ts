@@ -0,0 +1,180 @@
+import {
+  buildOutputItems,
+  buildResponse,
+  responseEvents,
+  responseStreamFormat,
+  toChatRequest,
+  validateResponseRequest,
+} from '../responses';
+import { ServerSentEvent } from '../sse';
+
+const data = (event: ServerSentEvent): any => event.data;
+
+describe('validateResponseRequest', () => {
+  it('should accept string and item list inputs', () => {
+    expect(validateResponseRequest({ input: 'Hello' })).toBeUndefined();
+    expect(
+      validateResponseRequest({
+        instructions: 'Be brief',
+        input: [
+          { role: 'user', content: [{ type: 'input_text', text: 'Hi' }] },
+          { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Hello' }] },
+          { type: 'function_call', call_id: 'call_1', name: 'f', arguments: '{}' },
+          { type: 'function_call_output', call_id: 'call_1', output: 'ok' },
+        ],
+        tools: [{ type: 'function', name: 'f' }],
+      })
+    ).toBeUndefined();
+  });
+
+  it('should reject missing and malformed inputs', () => {
+    expect(validateResponseRequest({})).toBe('Invalid request: input must be a string or an array of items');
+    expect(validateResponseRequest({ input: [{ role: 'tool', content: 'x' }] })).toContain('role must be');
+    expect(validateResponseRequest({ input: [{ role: 'user', content: [{ type: 'input_file' }] }] })).toContain(
+      'unsupported content part type "input_file"'
+    );
+    expect(validateResponseRequest({ input: [{ type: 'reasoning' }] })).toContain('unsupported input item type');
+    expect(validateResponseRequest({ input: [{ type: 'function_call', name: 'f' }] })).toContain('call_id');
+  });
+
+  it('should reject unsupported options', () => {
+    expect(validateResponseRequest({ input: 'A', instructions: 1 })).toBe(
+      'Invalid request: instructions must be a string'
+    );
+    expect(validateResponseRequest({ input: 'A', tools: [{ type: 'web_search' }] })).toContain(
+      'only function tools are supported'
+    );
+    expect(validateResponseRequest({ input: 'A', previous_response_id: 'resp_1' })).toContain('not supported');
+  });
+});
+
+describe('toChatRequest', () => {
+  it('should turn instructions and a string input into messages', () => {
+    expect(toChatRequest({ model: 'm', input: 'Hi', instructions: 'Be brief', max_output_tokens: 50 })).toMatchObject({
+      model: 'm',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+      ],
+      max_tokens: 50,
+    });
+  });
+
+  it('should convert input items', () => {
+    const { messages } = toChatRequest({
+      model: 'm',
+      input: [
+        { role: 'developer', content: 'Use metric units' },
+        {
+          role: 'user',
+          content: [
+            { type: 'input_text', text: 'Weather here?' },
+            { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+          ],
+        },
+        { type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{"city":"Paris"}' },
+        { type: 'function_call', call_id: 'call_2', name: 'weather', arguments: '{"city":"Lyon"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: '18C' },
+        { type: 'function_call_output', call_id: 'call_2', output: '21C' },
+      ],
+    });
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Use metric units' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Weather here?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA', detail: undefined } },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'weather', arguments: '{"city":"Lyon"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '18C' },
+      { role: 'tool', tool_call_id: 'call_2', content: '21C' },
+    ]);
+  });
+
+  it('should convert tools, tool choice and text format', () => {
+    const request = toChatRequest({
+      model: 'm',
+      input: 'Hi',
+      tools: [{ type: 'function', name: 'f', description: 'Does f', parameters: { type: 'object' } }],
+      tool_choice: { type: 'function', name: 'f' },
+      text: { format: { type: 'json_schema', name: 'answer', schema: { type: 'object' }, strict: true } },
+    });
+
+    expect(request.tools).toEqual([
+      { type: 'function', function: { name: 'f', description: 'Does f', parameters: { type: 'object' } } },
+    ]);
+    expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'f' } });
+    expect(request.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'answer', description: undefined, schema: { type: 'object' }, strict: true },
+    });
+  });
+});
+
+describe('response events', () => {
+  const base = { id: 'req-1', created: 1700000000, model: 'm' };
+  const usage = { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 };
+  const stopped = { finishReason: 'stop' as const, stopSequence: null };
+
+  it('should number streamed events and complete with the full text', () => {
+    const format = responseStreamFormat(base, null, () => usage);
+    const events = [...format.start(), ...format.delta('Hel'), ...format.delta('lo'), ...format.finish('Hello', stopped)];
+
+    expect(events.map((event) => event.event)).toEqual([
+      'response.created',
+      'response.in_progress',
+      'response.output_item.added',
+      'response.content_part.added',
+      'response.output_text.delta',
+      'response.output_text.delta',
+      'response.output_text.done',
+      'response.content_part.done',
+      'response.output_item.done',
+      'response.completed',
+    ]);
+    expect(events.map((event) => data(event).sequence_number)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(data(events[9]).response).toMatchObject({
+      status: 'completed',
+      output: [{ type: 'message', content: [{ type: 'output_text', text: 'Hello' }] }],
+      usage: { input_tokens: 3, output_tokens: 2, total_tokens: 5 },
+    });
+  });
+
+  it('should report failures as response.failed', () => {
+    const format = responseStreamFormat(base, null, () => usage);
+    const [failed] = format.error({ error: { message: 'Timed out', type: 'timeout_error', code: 'timeout' } });
+
+    expect(failed.event).toBe('response.failed');
+    expect(data(failed).response).toMatchObject({ status: 'failed', error: { code: 'timeout', message: 'Timed out' } });
+  });
+
+  it('should stream function call arguments of a complete response', () => {
+    const output = buildOutputItems(
+      null,
+      [{ id: 'call_1', type: 'function', function: { name: 'f', arguments: '{"a":1}' } }],
+      stopped
+    );
+    const events = responseEvents(buildResponse(base, null, output, usage, 'completed'));
+
+    expect(events.map((event) => event.event)).toEqual([
+      'response.created',
+      'response.in_progress',
+      'response.output_item.added',
+      'response.function_call_arguments.delta',
+      'response.function_call_arguments.done',
+      'response.output_item.done',
+      'response.completed',
+    ]);
+    expect(data(events[4]).arguments).toBe('{"a":1}');
+  });
+});
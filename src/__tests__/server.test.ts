@@ -1,53 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
 import request from 'supertest';
 import express from 'express';
 import { createServer } from '../server';
-import { CLIAdapter } from '../adapters/base';
 import { TimeoutError } from '../adapters/claude_code';
-import { Message } from '../types';
+import {
+  CancelledError,
+  ContextLengthExceededError,
+  FixtureNotFoundError,
+  TemplateNotFoundError,
+} from '../adapters/errors';
+import { ContextLimitedAdapter } from '../adapters/context';
+import { AdapterRegistry } from '../adapters/registry';
+import { ConcurrencyLimiter } from '../queue';
+import { MemoryCacheStore, ResponseCache } from '../cache';
+import { ApiKeyAuth } from '../auth';
+import { ServerMetrics } from '../metrics';
+import { Logger, logger } from '../logger';
+import { ExecutionResult, Message } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
 
-// Mock adapter for testing
-class MockAdapter extends CLIAdapter {
-  private mockExecute: jest.Mock;
-  private mockIsAvailable: jest.Mock;
+// Keep request logs out of the test output
+logger.configure({ write: () => {} });
 
-  constructor() {
-    super();
-    this.mockExecute = jest.fn();
-    this.mockIsAvailable = jest.fn().mockResolvedValue(true);
-  }
-
-  async execute(messages: Message[]): Promise<string> {
-    return this.mockExecute(messages);
-  }
-
-  async isAvailable(): Promise<boolean> {
-    return this.mockIsAvailable();
-  }
-
-  getName(): string {
-    return 'mock-adapter';
-  }
-
-  getModelName(): string {
-    return 'mock-model';
-  }
-
-  // Expose mocks for testing
-  getMockExecute() {
-    return this.mockExecute;
-  }
-
-  getMockIsAvailable() {
-    return this.mockIsAvailable;
+async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((r) => setTimeout(r, 5));
   }
 }
 
 describe('Server', () => {
   let app: express.Application;
-  let mockAdapter: MockAdapter;
+  let mockAdapter: StubAdapter;
 
   beforeEach(() => {
-    mockAdapter = new MockAdapter();
+    mockAdapter = new StubAdapter({ name: 'mock-adapter', modelName: 'mock-model' });
     app = createServer(mockAdapter);
   });
 
@@ -59,6 +52,12 @@ describe('Server', () => {
       expect(response.body).toEqual({
         status: 'ok',
         adapter: 'mock-adapter',
+        queue: {
+          active: 0,
+          queued: 0,
+          maxConcurrency: 4,
+          maxQueueSize: 100,
+        },
       });
     });
   });
@@ -84,7 +83,7 @@ describe('Server', () => {
 
   describe('POST /v1/chat/completions', () => {
     it('should return chat completion response', async () => {
-      mockAdapter.getMockExecute().mockResolvedValue('Hello! How can I help you?');
+      mockAdapter.execute.mockResolvedValue({ content: 'Hello! How can I help you?' });
 
       const response = await request(app)
         .post('/v1/chat/completions')
@@ -116,27 +115,67 @@ describe('Server', () => {
         },
       });
 
-      expect(mockAdapter.getMockExecute()).toHaveBeenCalledWith([
-        { role: 'user', content: 'Hello!' },
-      ]);
+      expect(mockAdapter.execute).toHaveBeenCalledWith([{ role: 'user', content: 'Hello!' }], expect.anything());
+    });
+
+    it('should report token usage from the CLI when available', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: 'Hello!',
+        usage: { inputTokens: 1200, outputTokens: 8 },
+        costUsd: 0.001,
+        sessionId: 'session-123',
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.usage).toEqual({
+        prompt_tokens: 1200,
+        completion_tokens: 8,
+        total_tokens: 1208,
+      });
     });
 
-    it('should use model from request body', async () => {
-      mockAdapter.getMockExecute().mockResolvedValue('Response');
+    it('should use the default adapter when model is omitted', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Response' });
 
       const response = await request(app)
         .post('/v1/chat/completions')
         .send({
-          model: 'custom-model',
           messages: [{ role: 'user', content: 'Hello!' }],
         });
 
       expect(response.status).toBe(200);
-      expect(response.body.model).toBe('custom-model');
+      expect(response.body.model).toBe('mock-model');
+      expect(mockAdapter.execute).toHaveBeenCalled();
+    });
+
+    it('should return 404 model_not_found for unknown models', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        error: {
+          message: 'The model `gpt-4` does not exist or you do not have access to it.',
+          type: 'invalid_request_error',
+          code: 'model_not_found',
+        },
+      });
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
     });
 
     it('should handle system and user messages', async () => {
-      mockAdapter.getMockExecute().mockResolvedValue('Response');
+      mockAdapter.execute.mockResolvedValue({ content: 'Response' });
 
       const response = await request(app)
         .post('/v1/chat/completions')
@@ -149,10 +188,13 @@ describe('Server', () => {
         });
 
       expect(response.status).toBe(200);
-      expect(mockAdapter.getMockExecute()).toHaveBeenCalledWith([
-        { role: 'system', content: 'You are helpful.' },
-        { role: 'user', content: 'Hello!' },
-      ]);
+      expect(mockAdapter.execute).toHaveBeenCalledWith(
+        [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hello!' },
+        ],
+        expect.anything()
+      );
     });
 
     it('should return 400 when messages array is missing', async () => {
@@ -202,8 +244,126 @@ describe('Server', () => {
       expect(response.body.error.message).toContain('messages array is required');
     });
 
+    it('should pass multimodal content parts to the adapter', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'A cat.' });
+      const content = [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      ];
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content }] });
+
+      expect(response.status).toBe(200);
+      expect(mockAdapter.execute).toHaveBeenCalledWith([{ role: 'user', content }], expect.anything());
+    });
+
+    it('should return 400 for unsupported image URLs', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [
+            {
+              role: 'user',
+              content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }],
+            },
+          ],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({
+        message: 'Invalid request: image_url must be a base64 data URL',
+        type: 'invalid_request_error',
+        code: 'invalid_request',
+      });
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for file URLs unless an image directory is configured', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'file:///etc/passwd' } }] }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        'Invalid request: file:// image URLs are not enabled on this server, use a base64 data URL'
+      );
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should pass images of the image directory to the adapter as data URLs', async () => {
+      const imageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'images-'));
+      try {
+        const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        fs.writeFileSync(path.join(imageDir, 'cat.png'), png);
+        mockAdapter.execute.mockResolvedValue({ content: 'A cat.' });
+        app = createServer(mockAdapter, { imageDir });
+        const imagePart = (url: string) => ({ type: 'image_url', image_url: { url } });
+
+        const url = pathToFileURL(path.join(imageDir, 'cat.png')).href;
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({ messages: [{ role: 'user', content: [imagePart(url)] }] });
+
+        expect(response.status).toBe(200);
+        expect(mockAdapter.execute).toHaveBeenCalledWith(
+          [
+            { role: 'user', content: [imagePart(`data:image/png;base64,${png.toString('base64')}`)] },
+          ],
+          expect.anything()
+        );
+      } finally {
+        fs.rmSync(imageDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should accept images larger than the default body limit of Express', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'A cat.' });
+      const url = `data:image/png;base64,${Buffer.alloc(200 * 1024).toString('base64')}`;
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url } }] }] });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 413 with a JSON error for bodies over the limit', async () => {
+      app = createServer(mockAdapter, { bodyLimit: 1024 });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'x'.repeat(2048) }] });
+
+      expect(response.status).toBe(413);
+      expect(response.body).toEqual({
+        error: {
+          message: expect.stringContaining('exceeds the limit of 1024 bytes'),
+          type: 'invalid_request_error',
+          code: 'request_too_large',
+        },
+      });
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 with a JSON error for malformed JSON', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .set('Content-Type', 'application/json')
+        .send('{"messages": [');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatchObject({ type: 'invalid_request_error', code: 'invalid_json' });
+    });
+
     it('should return 504 on timeout error', async () => {
-      mockAdapter.getMockExecute().mockRejectedValue(new TimeoutError('Execution timed out'));
+      mockAdapter.execute.mockRejectedValue(new TimeoutError('Execution timed out'));
 
       const response = await request(app)
         .post('/v1/chat/completions')
@@ -223,7 +383,7 @@ describe('Server', () => {
     });
 
     it('should return 500 on internal error', async () => {
-      mockAdapter.getMockExecute().mockRejectedValue(new Error('Internal error'));
+      mockAdapter.execute.mockRejectedValue(new Error('Internal error'));
 
       const response = await request(app)
         .post('/v1/chat/completions')
@@ -242,8 +402,72 @@ describe('Server', () => {
       });
     });
 
+    it('should return 400 context_length_exceeded when the conversation exceeds the budget', async () => {
+      mockAdapter.execute.mockRejectedValue(new ContextLengthExceededError(1000, 1500));
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({
+        message:
+          "This model's maximum context length is 1000 tokens. However, your messages resulted in 1500 tokens. " +
+          'Please reduce the length of the messages.',
+        type: 'invalid_request_error',
+        code: 'context_length_exceeded',
+        param: 'messages',
+      });
+    });
+
+    it('should check the context budget of conversations larger than the default body limit of Express', async () => {
+      app = createServer(new ContextLimitedAdapter(mockAdapter, { maxTokens: 10000, strategy: 'none', lastTurns: 1 }));
+      const messages = Array.from({ length: 30 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: 'x'.repeat(5000),
+      }));
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages });
+
+      expect(JSON.stringify({ messages }).length).toBeGreaterThan(100 * 1024);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatchObject({ type: 'invalid_request_error', code: 'context_length_exceeded' });
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 template_not_found for unknown prompt templates', async () => {
+      mockAdapter.execute.mockRejectedValue(new TemplateNotFoundError('haiku', ['default', 'raw']));
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .set('X-Prompt-Template', 'haiku')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({
+        message: "Prompt template 'haiku' does not exist. Available templates: default, raw",
+        type: 'invalid_request_error',
+        code: 'template_not_found',
+      });
+    });
+
+    it('should return 500 fixture_not_found when no fixture matches in replay mode', async () => {
+      mockAdapter.execute.mockRejectedValue(new FixtureNotFoundError('No recorded fixture for mock'));
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toEqual({
+        message: 'No recorded fixture for mock',
+        type: 'internal_error',
+        code: 'fixture_not_found',
+      });
+    });
+
     it('should handle conversation history', async () => {
-      mockAdapter.getMockExecute().mockResolvedValue('Your favorite color is blue');
+      mockAdapter.execute.mockResolvedValue({ content: 'Your favorite color is blue' });
 
       const response = await request(app)
         .post('/v1/chat/completions')
@@ -258,12 +482,1602 @@ describe('Server', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.choices[0].message.content).toBe('Your favorite color is blue');
-      expect(mockAdapter.getMockExecute()).toHaveBeenCalledWith([
-        { role: 'user', content: 'My favorite color is blue' },
-        { role: 'assistant', content: 'That is nice!' },
-        { role: 'user', content: 'What is my favorite color?' },
+      expect(mockAdapter.execute).toHaveBeenCalledWith(
+        [
+          { role: 'user', content: 'My favorite color is blue' },
+          { role: 'assistant', content: 'That is nice!' },
+          { role: 'user', content: 'What is my favorite color?' },
+        ],
+        expect.anything()
+      );
+    });
+  });
+
+  describe('POST /v1/chat/completions (stream: true)', () => {
+    const parseEvents = (text: string) =>
+      text
+        .split('\n\n')
+        .filter((block) => block.startsWith('data: '))
+        .map((block) => block.slice('data: '.length));
+
+    it('should stream chunks as server-sent events', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hello';
+        yield ', world';
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          stream: true,
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseEvents(response.text);
+      expect(events[events.length - 1]).toBe('[DONE]');
+
+      const chunks = events.slice(0, -1).map((data) => JSON.parse(data));
+      expect(chunks).toHaveLength(4);
+      for (const chunk of chunks) {
+        expect(chunk).toMatchObject({
+          id: expect.stringMatching(/^chatcmpl-/),
+          object: 'chat.completion.chunk',
+          created: expect.any(Number),
+          model: 'mock-model',
+        });
+        expect(chunk.id).toBe(chunks[0].id);
+      }
+      expect(chunks.map((c) => c.choices[0].delta)).toEqual([
+        { role: 'assistant', content: '' },
+        { content: 'Hello' },
+        { content: ', world' },
+        {},
+      ]);
+      expect(chunks.map((c) => c.choices[0].finish_reason)).toEqual([null, null, null, 'stop']);
+
+      expect(mockAdapter.stream).toHaveBeenCalledWith([{ role: 'user', content: 'Hello!' }], expect.anything());
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to execute() for adapters without incremental output', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Buffered response' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          stream: true,
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(200);
+      const chunks = parseEvents(response.text)
+        .slice(0, -1)
+        .map((data) => JSON.parse(data));
+      expect(chunks.map((c) => c.choices[0].delta.content)).toEqual(['', 'Buffered response', undefined]);
+    });
+
+    it('should return a JSON error when the stream fails before any output', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        throw new TimeoutError('Execution timed out');
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          stream: true,
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(504);
+      expect(response.body).toEqual({
+        error: {
+          message: 'Execution timed out',
+          type: 'timeout_error',
+          code: 'timeout',
+        },
+      });
+    });
+
+    it('should report errors in-band when the stream fails midway', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Partial';
+        throw new Error('CLI crashed');
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          stream: true,
+          messages: [{ role: 'user', content: 'Hello!' }],
+        });
+
+      expect(response.status).toBe(200);
+      const events = parseEvents(response.text);
+      expect(events[events.length - 1]).toBe('[DONE]');
+      expect(JSON.parse(events[events.length - 2])).toEqual({
+        error: {
+          message: 'CLI crashed',
+          type: 'internal_error',
+          code: 'internal_error',
+        },
+      });
+    });
+  });
+
+  describe('POST /v1/completions', () => {
+    const parseEvents = (text: string) =>
+      text
+        .split('\n\n')
+        .filter((block) => block.startsWith('data: '))
+        .map((block) => block.slice('data: '.length));
+
+    it('should return a text completion', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: ' jumps over the lazy dog' });
+
+      const response = await request(app)
+        .post('/v1/completions')
+        .send({ model: 'mock-model', prompt: 'The quick brown fox' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        id: expect.stringMatching(/^cmpl-[0-9a-f]{24}$/),
+        object: 'text_completion',
+        created: expect.any(Number),
+        model: 'mock-model',
+        choices: [{ text: ' jumps over the lazy dog', index: 0, logprobs: null, finish_reason: 'stop' }],
+        usage: { prompt_tokens: expect.any(Number), completion_tokens: expect.any(Number) },
+      });
+
+      const messages = mockAdapter.execute.mock.calls[0][0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[1]).toEqual({ role: 'user', content: 'The quick brown fox' });
+    });
+
+    it('should complete every prompt n times with echo', async () => {
+      let count = 0;
+      mockAdapter.execute.mockImplementation(async () => ({ content: ` #${++count}` }));
+
+      const response = await request(app)
+        .post('/v1/completions')
+        .send({ prompt: ['A', 'B'], n: 2, echo: true });
+
+      expect(response.status).toBe(200);
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(4);
+      expect(response.body.choices.map((c: any) => [c.index, c.text])).toEqual([
+        [0, 'A #1'],
+        [1, 'A #2'],
+        [2, 'B #3'],
+        [3, 'B #4'],
+      ]);
+    });
+
+    it('should pass the suffix to the model', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'return a + b;' });
+
+      await request(app)
+        .post('/v1/completions')
+        .send({ prompt: 'function add(a, b) {', suffix: '}' });
+
+      const [system] = mockAdapter.execute.mock.calls[0][0];
+      expect(system.content).toContain('suffix');
+      expect(system.content).toMatch(/\n}$/);
+    });
+
+    it('should stream a single completion', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield ' jumps';
+        yield ' over';
+      });
+
+      const response = await request(app)
+        .post('/v1/completions')
+        .send({ prompt: 'The fox', stream: true, echo: true });
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      const events = parseEvents(response.text);
+      expect(events[events.length - 1]).toBe('[DONE]');
+      const chunks = events.slice(0, -1).map((data) => JSON.parse(data));
+      expect(chunks.every((chunk) => chunk.object === 'text_completion' && chunk.id === chunks[0].id)).toBe(true);
+      expect(chunks[0].id).toMatch(/^cmpl-/);
+      expect(chunks[0].id).not.toBe(response.headers['x-request-id']);
+      expect(chunks.map((chunk) => [chunk.choices[0].text, chunk.choices[0].finish_reason])).toEqual([
+        ['The fox', null],
+        [' jumps', null],
+        [' over', null],
+        ['', 'stop'],
       ]);
     });
+
+    it('should stream several choices once complete', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'x' });
+
+      const response = await request(app).post('/v1/completions').send({ prompt: 'A', n: 2, stream: true });
+
+      const events = parseEvents(response.text);
+      expect(events).toHaveLength(3);
+      expect(events.slice(0, 2).map((data) => JSON.parse(data).choices[0].index)).toEqual([0, 1]);
+    });
+
+    it('should reject invalid prompts and options', async () => {
+      const send = (body: object) => request(app).post('/v1/completions').send(body);
+
+      const missing = await send({ model: 'mock-model' });
+      expect(missing.status).toBe(400);
+      expect(missing.body.error).toEqual({
+        message: 'Invalid request: prompt is required',
+        type: 'invalid_request_error',
+        code: 'invalid_request',
+      });
+      expect((await send({ prompt: [1, 2, 3] })).body.error.message).toContain('token array prompts');
+      expect((await send({ prompt: 'A', n: 0 })).status).toBe(400);
+      expect((await send({ prompt: 'A', model: 'unknown' })).status).toBe(404);
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests needing more completions than allowed before running any', async () => {
+      const response = await request(app).post('/v1/completions').send({ prompt: Array(300).fill('A') });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        'Invalid request: the prompts times n must not exceed 10 completions, got 300'
+      );
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the other completions when one fails', async () => {
+      const signals: AbortSignal[] = [];
+      mockAdapter.execute.mockImplementation((messages, options) => {
+        const signal = options!.signal!;
+        signals.push(signal);
+        if (messages[1].content === 'fail') {
+          return Promise.reject(new Error('CLI failed'));
+        }
+        return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new CancelledError())));
+      });
+
+      const response = await request(app)
+        .post('/v1/completions')
+        .send({ prompt: ['fail', 'A', 'B'], n: 2 });
+
+      expect(response.status).toBe(500);
+      expect(signals.length).toBeGreaterThan(0);
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+    });
+
+    it('should map adapter errors like chat completions', async () => {
+      mockAdapter.execute.mockRejectedValue(new TimeoutError('Claude Code execution timed out'));
+
+      const response = await request(app).post('/v1/completions').send({ prompt: 'A' });
+
+      expect(response.status).toBe(504);
+      expect(response.body.error.code).toBe('timeout');
+    });
+  });
+
+  describe('POST /v1/responses', () => {
+    const parseEvents = (text: string) =>
+      text
+        .split('\n\n')
+        .filter((block) => block.startsWith('event: '))
+        .map((block) => {
+          const [event, data] = block.split('\n');
+          return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+        });
+
+    it('should return a response object', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Hello there!' });
+
+      const response = await request(app)
+        .post('/v1/responses')
+        .send({ model: 'mock-model', input: 'Hi', instructions: 'Be friendly' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        id: expect.stringMatching(/^resp_[0-9a-f]{24}$/),
+        object: 'response',
+        created_at: expect.any(Number),
+        status: 'completed',
+        model: 'mock-model',
+        output: [
+          {
+            type: 'message',
+            id: expect.stringMatching(/^msg_/),
+            status: 'completed',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Hello there!', annotations: [] }],
+          },
+        ],
+        instructions: 'Be friendly',
+        error: null,
+        incomplete_details: null,
+        usage: { input_tokens: expect.any(Number), output_tokens: expect.any(Number), total_tokens: expect.any(Number) },
+      });
+
+      const [messages] = mockAdapter.execute.mock.calls[0];
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be friendly' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+
+    it('should return function calls as output items', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}',
+      });
+
+      const response = await request(app)
+        .post('/v1/responses')
+        .send({
+          input: [{ role: 'user', content: [{ type: 'input_text', text: 'Weather in Paris?' }] }],
+          tools: [{ type: 'function', name: 'get_weather', parameters: { type: 'object' } }],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.output).toEqual([
+        {
+          type: 'function_call',
+          id: expect.stringMatching(/^fc_/),
+          call_id: expect.stringMatching(/^call_/),
+          name: 'get_weather',
+          arguments: '{"city":"Paris"}',
+          status: 'completed',
+        },
+      ]);
+    });
+
+    it('should stream response events', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hello';
+        yield ' world';
+      });
+
+      const response = await request(app).post('/v1/responses').send({ input: 'Hi', stream: true });
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      const events = parseEvents(response.text);
+      expect(events.every(({ event, data }) => data.type === event)).toBe(true);
+      expect(events.map(({ event }) => event)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events[6].data.text).toBe('Hello world');
+      expect(events[9].data.response).toMatchObject({ id: events[0].data.response.id, status: 'completed' });
+      expect(events[0].data.response.id).toMatch(/^resp_/);
+      expect(response.text).not.toContain('[DONE]');
+    });
+
+    it('should close the stream with the usage reported by the CLI', async () => {
+      mockAdapter.stream.mockImplementation(async function* (messages, options) {
+        yield 'Hello world';
+        options?.onUsage?.({ inputTokens: 42, outputTokens: 2 });
+      });
+
+      const response = await request(app).post('/v1/responses').send({ input: 'Hi', stream: true });
+
+      const events = parseEvents(response.text);
+      expect(events[events.length - 1].data.response.usage).toEqual({
+        input_tokens: 42,
+        output_tokens: 2,
+        total_tokens: 44,
+      });
+    });
+
+    it('should stream failures as response.failed', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hel';
+        throw new TimeoutError('Claude Code execution timed out');
+      });
+
+      const response = await request(app).post('/v1/responses').send({ input: 'Hi', stream: true });
+
+      const events = parseEvents(response.text);
+      const last = events[events.length - 1];
+      expect(last.event).toBe('response.failed');
+      expect(last.data.response.error.code).toBe('timeout');
+    });
+
+    it('should reject invalid requests', async () => {
+      const send = (body: object) => request(app).post('/v1/responses').send(body);
+
+      const missing = await send({ model: 'mock-model' });
+      expect(missing.status).toBe(400);
+      expect(missing.body.error.message).toBe('Invalid request: input must be a string or an array of items');
+      expect((await send({ input: 'A', tools: [{ type: 'file_search' }] })).status).toBe(400);
+      expect((await send({ input: 'A', previous_response_id: 'resp_1' })).status).toBe(400);
+      expect((await send({ input: 'A', model: 'unknown' })).status).toBe(404);
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /v1/messages', () => {
+    const parseEvents = (text: string) =>
+      text
+        .split('\n\n')
+        .filter((block) => block.startsWith('event: '))
+        .map((block) => {
+          const [event, data] = block.split('\n');
+          return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+        });
+
+    it('should return an Anthropic message', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Hello there!' });
+
+      const response = await request(app)
+        .post('/v1/messages')
+        .send({
+          model: 'mock-model',
+          max_tokens: 1024,
+          system: 'Be friendly',
+          messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        id: expect.stringMatching(/^msg_[0-9a-f]{24}$/),
+        type: 'message',
+        role: 'assistant',
+        model: 'mock-model',
+        content: [{ type: 'text', text: 'Hello there!' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: expect.any(Number), output_tokens: expect.any(Number) },
+      });
+
+      const [messages] = mockAdapter.execute.mock.calls[0];
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be friendly' },
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+      ]);
+    });
+
+    it('should return tool_use blocks and accept tool results', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}',
+      });
+      const tools = [{ name: 'get_weather', input_schema: { type: 'object' } }];
+
+      const first = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 100, tools, messages: [{ role: 'user', content: 'Weather in Paris?' }] });
+
+      expect(first.body.stop_reason).toBe('tool_use');
+      expect(first.body.content).toEqual([
+        { type: 'tool_use', id: expect.stringMatching(/^call_/), name: 'get_weather', input: { city: 'Paris' } },
+      ]);
+
+      mockAdapter.execute.mockResolvedValue({ content: 'It is 18°C.' });
+      const [toolUse] = first.body.content;
+      const second = await request(app)
+        .post('/v1/messages')
+        .send({
+          max_tokens: 100,
+          tools,
+          messages: [
+            { role: 'user', content: 'Weather in Paris?' },
+            { role: 'assistant', content: [toolUse] },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUse.id, content: '18°C' }] },
+          ],
+        });
+
+      expect(second.body.content).toEqual([{ type: 'text', text: 'It is 18°C.' }]);
+      const [messages] = mockAdapter.execute.mock.calls[1];
+      expect(messages[messages.length - 1].content).toContain(`${toolUse.id}:\n18°C`);
+    });
+
+    it('should stream message events', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hello';
+        yield ' world';
+      });
+
+      const response = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 100, stream: true, messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      const events = parseEvents(response.text);
+      expect(events.every(({ event, data }) => data.type === event)).toBe(true);
+      expect(events.map(({ event }) => event)).toEqual([
+        'message_start',
+        'content_block_start',
+        'ping',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop',
+      ]);
+      expect(events[0].data.message).toMatchObject({ id: expect.stringMatching(/^msg_/), content: [] });
+      expect(events[3].data.delta).toEqual({ type: 'text_delta', text: 'Hello' });
+      expect(events[6].data.delta).toEqual({ stop_reason: 'end_turn', stop_sequence: null });
+    });
+
+    it('should answer tool calls with arguments that are not a JSON object as text', async () => {
+      const reply = '{"tool_calls": [{"name": "get_weather", "arguments": "{city: Paris"}]}';
+      mockAdapter.execute.mockResolvedValue({ content: reply });
+      const tools = [{ name: 'get_weather', input_schema: { type: 'object' } }];
+
+      const response = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 100, tools, messages: [{ role: 'user', content: 'Weather in Paris?' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.stop_reason).toBe('end_turn');
+      expect(response.body.content).toEqual([{ type: 'text', text: reply }]);
+    });
+
+    it('should stream failures as error events', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hel';
+        throw new TimeoutError('Claude Code execution timed out');
+      });
+
+      const response = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 100, stream: true, messages: [{ role: 'user', content: 'Hi' }] });
+
+      const events = parseEvents(response.text);
+      expect(events[events.length - 1]).toEqual({
+        event: 'error',
+        data: { type: 'error', error: { type: 'timeout_error', message: 'Claude Code execution timed out' } },
+      });
+    });
+
+    it('should answer errors in the Anthropic shape', async () => {
+      const send = (body: object) => request(app).post('/v1/messages').send(body);
+
+      const missing = await send({ messages: [{ role: 'user', content: 'Hi' }] });
+      expect(missing.status).toBe(400);
+      expect(missing.body).toEqual({
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          message: 'Invalid request: max_tokens is required and must be a positive integer',
+        },
+      });
+
+      const unknown = await send({ model: 'unknown', max_tokens: 10, messages: [{ role: 'user', content: 'Hi' }] });
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.error.type).toBe('not_found_error');
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should answer bodies over the limit in the Anthropic shape', async () => {
+      app = createServer(mockAdapter, { bodyLimit: 1024 });
+
+      const response = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 10, messages: [{ role: 'user', content: 'x'.repeat(2048) }] });
+
+      expect(response.status).toBe(413);
+      expect(response.body).toEqual({
+        type: 'error',
+        error: { type: 'request_too_large', message: expect.stringContaining('exceeds the limit of 1024 bytes') },
+      });
+    });
+
+    it('should accept the API key in x-api-key', async () => {
+      app = createServer(mockAdapter, { auth: new ApiKeyAuth([{ key: 'sk-team-1234567890' }]) });
+      mockAdapter.execute.mockResolvedValue({ content: 'Hi' });
+      const body = { max_tokens: 10, messages: [{ role: 'user', content: 'Hi' }] };
+
+      const accepted = await request(app).post('/v1/messages').set('x-api-key', 'sk-team-1234567890').send(body);
+      expect(accepted.status).toBe(200);
+
+      const rejected = await request(app).post('/v1/messages').set('x-api-key', 'sk-wrong-1234567890').send(body);
+      expect(rejected.status).toBe(401);
+      expect(rejected.body.error.type).toBe('authentication_error');
+    });
+  });
+
+  describe('request parameters', () => {
+    const messages = [{ role: 'user', content: 'Count to ten' }];
+
+    it('should pass max_tokens to the adapter and truncate longer output', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'one two three four five' });
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages, max_tokens: 2 });
+
+      expect(mockAdapter.execute).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ maxTokens: 2 }));
+      expect(response.body.choices[0].message.content).toBe('one two ');
+      expect(response.body.choices[0].finish_reason).toBe('length');
+      expect(response.body.usage.completion_tokens).toBe(2);
+    });
+
+    it('should pass the prompt template selected by X-Prompt-Template', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'one two three' });
+
+      await request(app).post('/v1/chat/completions').set('X-Prompt-Template', 'raw').send({ messages });
+
+      expect(mockAdapter.execute).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ template: 'raw' }));
+    });
+
+    it('should end the output before a stop sequence', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'one, two, three' });
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages, stop: [', three'] });
+
+      expect(response.body.choices[0].message.content).toBe('one, two');
+      expect(response.body.choices[0].finish_reason).toBe('stop');
+    });
+
+    it('should apply stop sequences to streamed output and end the stream early', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'one, tw';
+        yield 'o. three';
+        yield ' four';
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages, stop: 'o.', stream: true });
+
+      const chunks = response.text
+        .split('\n\n')
+        .filter((block) => block.startsWith('data: {'))
+        .map((block) => JSON.parse(block.slice('data: '.length)).choices[0]);
+      expect(chunks.map((choice) => choice.delta.content || '').join('')).toBe('one, tw');
+      expect(chunks[chunks.length - 1].finish_reason).toBe('stop');
+    });
+
+    it('should report truncated streams with finish_reason length', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'abcdef';
+        yield 'ghijkl';
+      });
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages, max_tokens: 2, stream: true });
+
+      const chunks = response.text
+        .split('\n\n')
+        .filter((block) => block.startsWith('data: {'))
+        .map((block) => JSON.parse(block.slice('data: '.length)).choices[0]);
+      expect(chunks.map((choice) => choice.delta.content || '').join('')).toBe('abcdefgh');
+      expect(chunks[chunks.length - 1].finish_reason).toBe('length');
+    });
+
+    it('should return n choices from parallel executions', async () => {
+      let count = 0;
+      mockAdapter.execute.mockImplementation(async () => ({ content: `Answer ${++count}` }));
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages, n: 3 });
+
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(3);
+      expect(response.body.choices.map((choice: any) => [choice.index, choice.message.content])).toEqual([
+        [0, 'Answer 1'],
+        [1, 'Answer 2'],
+        [2, 'Answer 3'],
+      ]);
+      expect(response.body.usage.completion_tokens).toBe(6);
+    });
+
+    it('should cancel the other choices when one fails', async () => {
+      const signals: AbortSignal[] = [];
+      let fail!: (error: Error) => void;
+      mockAdapter.execute.mockImplementation((_, options) => {
+        const signal = options!.signal!;
+        signals.push(signal);
+        if (signals.length === 1) {
+          return new Promise((_, reject) => (fail = reject));
+        }
+        return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new CancelledError())));
+      });
+
+      const limiter = new ConcurrencyLimiter({ maxConcurrency: 4, maxQueueSize: 10, queueTimeout: 0 });
+      app = createServer(mockAdapter, { limiter });
+
+      // Four choices start, the fifth is queued
+      const pending = request(app).post('/v1/chat/completions').send({ messages, n: 5 }).then((response) => response);
+      await waitFor(() => signals.length === 4);
+      fail(new Error('CLI failed'));
+      const response = await pending;
+      await waitFor(() => limiter.getStats().active === 0);
+
+      expect(response.status).toBe(500);
+      expect(response.body.error.message).toBe('CLI failed');
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+      expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+    });
+
+    it('should not exceed the listener limit of a signal with many choices', async () => {
+      const warning = jest.fn();
+      process.on('warning', warning);
+      const signals = new Set<AbortSignal>();
+      mockAdapter.execute.mockImplementation(async (_, options) => {
+        // Like the CLI process and the adapters wrapping it, listen to the signal more than once
+        options!.signal!.addEventListener('abort', () => undefined);
+        options!.signal!.addEventListener('abort', () => undefined);
+        signals.add(options!.signal!);
+        return { content: 'Answer' };
+      });
+
+      try {
+        const response = await request(app).post('/v1/chat/completions').send({ messages, n: 10 });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(response.status).toBe(200);
+        expect(signals.size).toBe(10);
+        expect(warning).not.toHaveBeenCalled();
+      } finally {
+        process.off('warning', warning);
+      }
+    });
+
+    it('should reject invalid parameters', async () => {
+      const send = (body: object) => request(app).post('/v1/chat/completions').send({ messages, ...body });
+
+      expect((await send({ n: 0 })).body.error.message).toBe('Invalid request: n must be an integer between 1 and 10');
+      expect((await send({ max_tokens: -1 })).status).toBe(400);
+      expect((await send({ stop: [1] })).status).toBe(400);
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should warn about unsupported parameters by default', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Hi' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages, temperature: 0.2, top_p: 0.9 });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-unsupported-parameters']).toBe('temperature, top_p');
+    });
+
+    it('should reject unsupported parameters with the error policy', async () => {
+      app = createServer(mockAdapter, { unsupportedParameters: 'error' });
+
+      const response = await request(app).post('/v1/chat/completions').send({ messages, temperature: 0.2 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({
+        message: "Unsupported parameter: 'temperature' cannot be honoured by the CLI adapters.",
+        type: 'invalid_request_error',
+        code: 'unsupported_parameter',
+        param: 'temperature',
+      });
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should report limits in the Responses and Messages formats', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'one two three. four' });
+
+      const truncated = await request(app).post('/v1/responses').send({ input: 'Count', max_output_tokens: 2 });
+      expect(truncated.body).toMatchObject({
+        status: 'incomplete',
+        incomplete_details: { reason: 'max_output_tokens' },
+        output: [{ status: 'incomplete', content: [{ text: 'one two ' }] }],
+      });
+
+      const stopped = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 100, stop_sequences: ['.'], messages: [{ role: 'user', content: 'Count' }] });
+      expect(stopped.body).toMatchObject({
+        content: [{ type: 'text', text: 'one two three' }],
+        stop_reason: 'stop_sequence',
+        stop_sequence: '.',
+      });
+
+      const limited = await request(app)
+        .post('/v1/messages')
+        .send({ max_tokens: 1, messages: [{ role: 'user', content: 'Count' }] });
+      expect(limited.body.stop_reason).toBe('max_tokens');
+    });
+
+    it('should apply max_tokens and stop to text completions', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: ' jumps over the lazy dog' });
+
+      const response = await request(app).post('/v1/completions').send({ prompt: 'The fox', stop: ' the' });
+
+      expect(response.body.choices[0]).toMatchObject({ text: ' jumps over', finish_reason: 'stop' });
+    });
+  });
+
+  describe('POST /v1/chat/completions (tools)', () => {
+    const tools = [
+      {
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          parameters: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      },
+    ];
+
+    it('should return tool_calls when the model calls a tool', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}',
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Weather in Paris?' }],
+          tools,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.choices[0]).toEqual({
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: expect.stringMatching(/^call_/),
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      });
+
+      const [messages] = mockAdapter.execute.mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('get_weather');
+    });
+
+    it('should return plain content when the model answers directly', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'I can answer that myself.' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools,
+        });
+
+      expect(response.body.choices[0].message).toEqual({
+        role: 'assistant',
+        content: 'I can answer that myself.',
+      });
+      expect(response.body.choices[0].finish_reason).toBe('stop');
+    });
+
+    it('should accept tool results on the next turn', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'It is 18°C and sunny in Paris.' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [
+            { role: 'user', content: 'Weather in Paris?' },
+            {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+                },
+              ],
+            },
+            { role: 'tool', tool_call_id: 'call_1', content: '18°C, sunny' },
+          ],
+          tools,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.choices[0].message.content).toBe('It is 18°C and sunny in Paris.');
+
+      const [messages] = mockAdapter.execute.mock.calls[0];
+      expect(messages.map((m: Message) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(messages[3].content).toBe('Tool result for call call_1:\n18°C, sunny');
+    });
+
+    it('should not offer tools when tool_choice is none', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: '{"tool_calls": [{"name": "get_weather", "arguments": {}}]}',
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools,
+          tool_choice: 'none',
+        });
+
+      expect(response.body.choices[0].finish_reason).toBe('stop');
+      expect(mockAdapter.execute).toHaveBeenCalledWith([{ role: 'user', content: 'Hi' }], expect.anything());
+    });
+
+    it('should stream tool calls as chunks', async () => {
+      mockAdapter.execute.mockResolvedValue({
+        content: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}',
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Weather in Paris?' }],
+          tools,
+          stream: true,
+        });
+
+      expect(response.status).toBe(200);
+      const events = response.text.split('\n\n').filter(Boolean);
+      expect(events[events.length - 1]).toBe('data: [DONE]');
+
+      const chunks = events.slice(0, -1).map((e) => JSON.parse(e.slice('data: '.length)));
+      expect(chunks[1].choices[0].delta.tool_calls).toEqual([
+        {
+          index: 0,
+          id: expect.stringMatching(/^call_/),
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('tool_calls');
+      expect(mockAdapter.stream).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid tools', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools: [{ type: 'retrieval' }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('invalid_request');
+    });
+  });
+
+  describe('POST /v1/chat/completions (response_format)', () => {
+    const responseFormat = {
+      type: 'json_schema',
+      json_schema: {
+        name: 'answer',
+        schema: {
+          type: 'object',
+          properties: { answer: { type: 'integer' } },
+          required: ['answer'],
+        },
+      },
+    };
+
+    it('should return the extracted JSON', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: '```json\n{"answer": 4}\n```' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: '2 + 2?' }],
+          response_format: responseFormat,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.choices[0].message.content).toBe('{"answer":4}');
+
+      const [messages] = mockAdapter.execute.mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('"required": [');
+    });
+
+    it('should retry once and return 502 when the reply stays invalid', async () => {
+      mockAdapter
+        .execute
+        .mockResolvedValueOnce({ content: '{"answer": "four"}' })
+        .mockResolvedValueOnce({ content: 'four' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: '2 + 2?' }],
+          response_format: responseFormat,
+        });
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toMatchObject({
+        type: 'invalid_response_error',
+        code: 'invalid_json_output',
+      });
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stream structured output after validation', async () => {
+      mockAdapter.execute.mockResolvedValue({ content: 'Sure! {"answer": 4}' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: '2 + 2?' }],
+          response_format: responseFormat,
+          stream: true,
+        });
+
+      expect(response.status).toBe(200);
+      const chunks = response.text
+        .split('\n\n')
+        .filter((e) => e.startsWith('data: {'))
+        .map((e) => JSON.parse(e.slice('data: '.length)));
+      expect(chunks.map((c) => c.choices[0].delta.content).join('')).toBe('{"answer":4}');
+      expect(mockAdapter.stream).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid response_format', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'mock-model',
+          messages: [{ role: 'user', content: 'Hi' }],
+          response_format: { type: 'json_schema' },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe('Invalid request: response_format.json_schema.name is required');
+    });
+  });
+
+  describe('concurrency limit', () => {
+    let limiter: ConcurrencyLimiter;
+    let resolveFirst: (result: ExecutionResult) => void;
+
+    beforeEach(() => {
+      limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 1, queueTimeout: 0 });
+      app = createServer(mockAdapter, { limiter });
+      mockAdapter
+        .execute
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveFirst = resolve)))
+        .mockResolvedValue({ content: 'queued reply' });
+    });
+
+    const send = () =>
+      request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] });
+
+    it('should queue requests and expose queue depth on /health', async () => {
+      const first = send().then((r) => r);
+      await waitFor(() => limiter.getStats().active === 1);
+      const second = send().then((r) => r);
+      await waitFor(() => limiter.getStats().queued === 1);
+
+      const health = await request(app).get('/health');
+      expect(health.body.queue).toEqual({ active: 1, queued: 1, maxConcurrency: 1, maxQueueSize: 1 });
+
+      resolveFirst({ content: 'first reply' });
+      const [firstResponse, secondResponse] = await Promise.all([first, second]);
+
+      expect(firstResponse.body.choices[0].message.content).toBe('first reply');
+      expect(secondResponse.body.choices[0].message.content).toBe('queued reply');
+    });
+
+    it('should return 429 with Retry-After when the queue is full', async () => {
+      const first = send().then((r) => r);
+      await waitFor(() => limiter.getStats().active === 1);
+      const second = send().then((r) => r);
+      await waitFor(() => limiter.getStats().queued === 1);
+
+      const rejected = await send();
+
+      expect(rejected.status).toBe(429);
+      expect(rejected.headers['retry-after']).toMatch(/^\d+$/);
+      expect(rejected.body.error).toMatchObject({
+        type: 'rate_limit_error',
+        code: 'rate_limit_exceeded',
+      });
+
+      resolveFirst({ content: 'first reply' });
+      await Promise.all([first, second]);
+    });
+
+    it('should return 503 when a request waits longer than the queue timeout', async () => {
+      limiter = new ConcurrencyLimiter({ maxConcurrency: 1, maxQueueSize: 1, queueTimeout: 20 });
+      app = createServer(mockAdapter, { limiter });
+
+      const first = send().then((r) => r);
+      await waitFor(() => limiter.getStats().active === 1);
+
+      const timedOut = await send();
+
+      expect(timedOut.status).toBe(503);
+      expect(timedOut.headers['retry-after']).toBeDefined();
+      expect(timedOut.body.error.code).toBe('queue_timeout');
+
+      resolveFirst({ content: 'first reply' });
+      await first;
+    });
+  });
+
+  describe('response cache', () => {
+    const body = { model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] };
+
+    beforeEach(() => {
+      app = createServer(mockAdapter, { cache: new ResponseCache(new MemoryCacheStore(10, 0)) });
+      mockAdapter.execute.mockResolvedValue({ content: 'Cached reply' });
+    });
+
+    it('should serve repeated requests from the cache', async () => {
+      const first = await request(app).post('/v1/chat/completions').send(body);
+      const second = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(first.headers['x-cache']).toBe('miss');
+      expect(second.headers['x-cache']).toBe('hit');
+      expect(second.body.choices[0].message.content).toBe('Cached reply');
+      expect(second.body.id).not.toBe(first.body.id);
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share entries between different requests', async () => {
+      await request(app).post('/v1/chat/completions').send(body);
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ ...body, temperature: 0.5 });
+
+      expect(response.headers['x-cache']).toBe('miss');
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the lookup with Cache-Control: no-cache', async () => {
+      await request(app).post('/v1/chat/completions').send(body);
+      mockAdapter.execute.mockResolvedValue({ content: 'Fresh reply' });
+
+      const bypassed = await request(app).post('/v1/chat/completions').set('Cache-Control', 'no-cache').send(body);
+      const cached = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(bypassed.headers['x-cache']).toBe('miss');
+      expect(bypassed.body.choices[0].message.content).toBe('Fresh reply');
+      expect(cached.body.choices[0].message.content).toBe('Fresh reply');
+    });
+
+    it('should not store results with Cache-Control: no-store', async () => {
+      await request(app).post('/v1/chat/completions').set('Cache-Control', 'no-store').send(body);
+      const response = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(response.headers['x-cache']).toBe('miss');
+      expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed executions', async () => {
+      mockAdapter.execute.mockRejectedValueOnce(new Error('CLI failed'));
+
+      const failed = await request(app).post('/v1/chat/completions').send(body);
+      const retried = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(failed.status).toBe(500);
+      expect(retried.headers['x-cache']).toBe('miss');
+      expect(retried.body.choices[0].message.content).toBe('Cached reply');
+    });
+
+    it('should cache streamed replies and replay them as a stream', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hello';
+        yield ', world';
+      });
+
+      const first = await request(app)
+        .post('/v1/chat/completions')
+        .send({ ...body, stream: true });
+      const second = await request(app)
+        .post('/v1/chat/completions')
+        .send({ ...body, stream: true });
+
+      expect(first.headers['x-cache']).toBe('miss');
+      expect(second.headers['x-cache']).toBe('hit');
+      expect(second.headers['content-type']).toContain('text/event-stream');
+      expect(second.text).toContain('"content":"Hello, world"');
+      expect(second.text).toContain('data: [DONE]');
+      expect(mockAdapter.stream).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not set x-cache when no cache is configured', async () => {
+      app = createServer(mockAdapter);
+      const response = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(response.headers['x-cache']).toBeUndefined();
+    });
+  });
+
+  describe('API key authentication', () => {
+    const body = { model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] };
+
+    beforeEach(() => {
+      app = createServer(mockAdapter, {
+        auth: new ApiKeyAuth([
+          { key: 'sk-team-1234567890' },
+          { key: 'sk-other-123456', models: ['other-model'] },
+          { key: 'sk-limited-123456', rateLimit: 1, corsOrigins: ['http://app.example'] },
+        ]),
+      });
+      mockAdapter.execute.mockResolvedValue({ content: 'Hi' });
+    });
+
+    it('should accept a valid bearer token', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .set('Authorization', 'Bearer sk-team-1234567890')
+        .send(body);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 401 invalid_api_key without a key', async () => {
+      const response = await request(app).post('/v1/chat/completions').send(body);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toMatchObject({ type: 'invalid_request_error', code: 'invalid_api_key' });
+      expect(response.body.error.message).toContain("You didn't provide an API key");
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 invalid_api_key with a masked unknown key', async () => {
+      const response = await request(app).get('/v1/models').set('Authorization', 'Bearer sk-wrong-1234567890');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toEqual({
+        message: 'Incorrect API key provided: sk-************7890.',
+        type: 'invalid_request_error',
+        code: 'invalid_api_key',
+      });
+    });
+
+    it('should keep /health open', async () => {
+      const response = await request(app).get('/health');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should hide models the key may not use', async () => {
+      const models = await request(app).get('/v1/models').set('Authorization', 'Bearer sk-other-123456');
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .set('Authorization', 'Bearer sk-other-123456')
+        .send(body);
+
+      expect(models.body.data).toEqual([]);
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('model_not_found');
+    });
+
+    it('should return 429 once the key exceeds its rate limit', async () => {
+      const send = () =>
+        request(app).post('/v1/chat/completions').set('Authorization', 'Bearer sk-limited-123456').send(body);
+
+      await send();
+      const response = await send();
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toMatch(/^\d+$/);
+      expect(response.body.error.code).toBe('rate_limit_exceeded');
+    });
+
+    it('should reject origins not allowed for the key', async () => {
+      const response = await request(app)
+        .get('/v1/models')
+        .set('Authorization', 'Bearer sk-limited-123456')
+        .set('Origin', 'http://evil.example');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('origin_not_allowed');
+    });
+
+    it('should answer CORS preflight requests for allowed origins', async () => {
+      app = createServer(mockAdapter, {
+        auth: new ApiKeyAuth([{ key: 'sk-web-123456', corsOrigins: ['http://app.example'] }]),
+      });
+
+      const allowed = await request(app)
+        .options('/v1/chat/completions')
+        .set('Origin', 'http://app.example')
+        .set('Access-Control-Request-Method', 'POST')
+        .set('Access-Control-Request-Headers', 'authorization,content-type');
+      const denied = await request(app)
+        .options('/v1/chat/completions')
+        .set('Origin', 'http://evil.example')
+        .set('Access-Control-Request-Method', 'POST');
+
+      expect(allowed.status).toBe(204);
+      expect(allowed.headers['access-control-allow-origin']).toBe('http://app.example');
+      expect(denied.headers['access-control-allow-origin']).toBeUndefined();
+    });
+  });
+
+  describe('GET /metrics', () => {
+    let metrics: ServerMetrics;
+
+    beforeEach(() => {
+      metrics = new ServerMetrics();
+      app = createServer(mockAdapter, { metrics });
+    });
+
+    it('should expose request, latency and token metrics in Prometheus format', async () => {
+      mockAdapter
+        .execute
+        .mockResolvedValueOnce({ content: 'Hi', usage: { inputTokens: 12, outputTokens: 3 } })
+        .mockRejectedValueOnce(new TimeoutError('timed out'));
+
+      const body = { model: 'mock-model', messages: [{ role: 'user', content: 'Hello!' }] };
+      await request(app).post('/v1/chat/completions').send(body);
+      await request(app).post('/v1/chat/completions').send(body);
+      await request(app).post('/v1/chat/completions').send({ model: 'mock-model' });
+
+      const response = await request(app).get('/metrics');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0.0.4/);
+      expect(response.text).toContain(
+        'cli_adapter_http_requests_total{route="/v1/chat/completions",status="200",error_type=""} 1'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_http_requests_total{route="/v1/chat/completions",status="504",error_type="timeout_error"} 1'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_http_requests_total{route="/v1/chat/completions",status="400",error_type="invalid_request_error"} 1'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_execution_timeouts_total{adapter="mock-adapter",model="mock-model"} 1'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_execution_duration_seconds_count{adapter="mock-adapter",model="mock-model",outcome="success"} 1'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_executions_in_flight{adapter="mock-adapter",model="mock-model"} 0'
+      );
+      expect(response.text).toContain(
+        'cli_adapter_tokens_total{adapter="mock-adapter",model="mock-model",type="input",source="reported"} 12'
+      );
+    });
+
+    it('should count estimated tokens of streamed responses', async () => {
+      mockAdapter.stream.mockImplementation(async function* () {
+        yield 'Hello, world';
+      });
+
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', stream: true, messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(
+        metrics.tokens.get({ adapter: 'mock-adapter', model: 'mock-model', type: 'output', source: 'estimated' })
+      ).toBe(3);
+    });
+
+    it('should count reported tokens of streamed responses', async () => {
+      mockAdapter.stream.mockImplementation(async function* (messages, options) {
+        yield 'Hello, world';
+        options?.onUsage?.({ inputTokens: 12, outputTokens: 5 });
+      });
+
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', stream: true, messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(
+        metrics.tokens.get({ adapter: 'mock-adapter', model: 'mock-model', type: 'output', source: 'reported' })
+      ).toBe(5);
+      expect(
+        metrics.tokens.get({ adapter: 'mock-adapter', model: 'mock-model', type: 'output', source: 'estimated' })
+      ).toBe(0);
+    });
+
+    it('should count requests rejected by authentication under their route', async () => {
+      app = createServer(mockAdapter, { metrics, auth: new ApiKeyAuth([{ key: 'sk-test-123456' }]) });
+
+      await request(app).get('/v1/models');
+
+      expect(
+        metrics.requests.get({ route: '/v1/models', status: '401', error_type: 'invalid_request_error' })
+      ).toBe(1);
+    });
+  });
+
+  describe('request logging', () => {
+    let lines: any[];
+
+    const createLoggedServer = (capturePayloads = false) => {
+      lines = [];
+      const requestLogger = new Logger({ capturePayloads, write: (line) => lines.push(JSON.parse(line)) });
+      return createServer(mockAdapter, { logger: requestLogger });
+    };
+
+    it('should echo a valid incoming X-Request-Id and use it as completion id', async () => {
+      app = createLoggedServer();
+      mockAdapter.execute.mockResolvedValue({ content: 'Hi' });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .set('X-Request-Id', 'req-abc.123')
+        .send({ messages: [{ role: 'user', content: 'Hello!' }] });
+
+      expect(response.headers['x-request-id']).toBe('req-abc.123');
+      expect(response.body.id).toBe('req-abc.123');
+      expect(lines[lines.length - 1].requestId).toBe('req-abc.123');
+    });
+
+    it('should generate a request id when none or an invalid one is sent', async () => {
+      app = createLoggedServer();
+
+      const missing = await request(app).get('/health');
+      const invalid = await request(app).get('/health').set('X-Request-Id', 'bad id with spaces');
+
+      expect(missing.headers['x-request-id']).toMatch(/^chatcmpl-/);
+      expect(invalid.headers['x-request-id']).toMatch(/^chatcmpl-/);
+      expect(invalid.headers['x-request-id']).not.toBe(missing.headers['x-request-id']);
+    });
+
+    it('should log one line per request without prompt content', async () => {
+      app = createLoggedServer();
+      mockAdapter.execute.mockResolvedValue({ content: 'secret reply' });
+
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({ model: 'mock-model', messages: [{ role: 'user', content: 'secret prompt' }] });
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        level: 'info',
+        msg: 'Request completed',
+        method: 'POST',
+        route: '/v1/chat/completions',
+        status: 200,
+        adapter: 'mock-adapter',
+        model: 'mock-model',
+        outcome: 'success',
+      });
+      expect(lines[0].durationMs).toEqual(expect.any(Number));
+      expect(JSON.stringify(lines)).not.toContain('secret');
+    });
+
+    it('should log failed requests with their error type', async () => {
+      app = createLoggedServer();
+      mockAdapter.execute.mockRejectedValue(new Error('CLI crashed'));
+
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Hello!' }] });
+
+      const error = lines.find((line) => line.msg === 'Error processing request');
+      const completed = lines.find((line) => line.msg === 'Request completed');
+      expect(error.error.message).toBe('CLI crashed');
+      expect(completed).toMatchObject({ level: 'error', status: 500, outcome: 'error', errorType: 'internal_error' });
+      expect(error.requestId).toBe(completed.requestId);
+    });
+
+    it('should cancel the execution and log the request as cancelled when the client disconnects', async () => {
+      app = createLoggedServer();
+      let signal: AbortSignal | undefined;
+      const aborted = new Promise<void>((resolve) => {
+        mockAdapter.execute.mockImplementation((_, options) => {
+          signal = options?.signal;
+          return new Promise((_, reject) =>
+            signal!.addEventListener('abort', () => {
+              reject(new CancelledError());
+              resolve();
+            })
+          );
+        });
+      });
+
+      await expect(
+        request(app)
+          .post('/v1/chat/completions')
+          .timeout(200)
+          .send({ messages: [{ role: 'user', content: 'Hello!' }] })
+      ).rejects.toThrow();
+      await aborted;
+
+      expect(signal!.aborted).toBe(true);
+      expect(lines.map((line) => line.msg)).toEqual(['Request cancelled']);
+      expect(lines[0]).toMatchObject({ level: 'info', status: 499, outcome: 'cancelled', adapter: 'mock-adapter' });
+    });
+
+    it('should report the backend that answered in X-Backend and the log', async () => {
+      app = createLoggedServer();
+      mockAdapter.execute.mockImplementation(async (_, options) => {
+        options?.onBackend?.('gemini-cli/flash');
+        return { content: 'Hi' };
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Hello!' }], n: 2 });
+
+      expect(response.headers['x-backend']).toBe('gemini-cli/flash');
+      expect(lines[lines.length - 1]).toMatchObject({ msg: 'Request completed', backend: 'gemini-cli/flash' });
+    });
+
+    it('should log payloads when payload capture is enabled', async () => {
+      app = createLoggedServer(true);
+      mockAdapter.execute.mockResolvedValue({ content: 'captured reply' });
+
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'captured prompt' }] });
+
+      const payloads = lines.find((line) => line.msg === 'Request payloads');
+      expect(payloads.level).toBe('debug');
+      expect(payloads.request.messages[0].content).toBe('captured prompt');
+      expect(payloads.response.choices[0].message.content).toBe('captured reply');
+    });
+  });
+
+  describe('model routing', () => {
+    let haiku: StubAdapter;
+    let sonnet: StubAdapter;
+    let flash: StubAdapter;
+
+    beforeEach(() => {
+      haiku = new StubAdapter({ name: 'claude-code' });
+      sonnet = new StubAdapter({ name: 'claude-code' });
+      flash = new StubAdapter({ name: 'gemini-cli' });
+      haiku.execute.mockResolvedValue({ content: 'from haiku' });
+      sonnet.execute.mockResolvedValue({ content: 'from sonnet' });
+      flash.execute.mockResolvedValue({ content: 'from flash' });
+
+      const registry = new AdapterRegistry()
+        .register('claude-code', haiku)
+        .register('claude-code/haiku', haiku)
+        .register('claude-code/sonnet', sonnet)
+        .register('gemini-cli/flash', flash);
+      app = createServer(registry);
+    });
+
+    it('should route requests to the adapter matching the model', async () => {
+      const send = (model: string) =>
+        request(app)
+          .post('/v1/chat/completions')
+          .send({ model, messages: [{ role: 'user', content: 'Hello!' }] });
+
+      const sonnetResponse = await send('claude-code/sonnet');
+      expect(sonnetResponse.body.choices[0].message.content).toBe('from sonnet');
+      expect(sonnetResponse.body.model).toBe('claude-code/sonnet');
+
+      const flashResponse = await send('gemini-cli/flash');
+      expect(flashResponse.body.choices[0].message.content).toBe('from flash');
+
+      const aliasResponse = await send('claude-code');
+      expect(aliasResponse.body.choices[0].message.content).toBe('from haiku');
+
+      expect(haiku.execute).toHaveBeenCalledTimes(1);
+      expect(sonnet.execute).toHaveBeenCalledTimes(1);
+      expect(flash.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list every routable model', async () => {
+      const response = await request(app).get('/v1/models');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((m: any) => m.id)).toEqual([
+        'claude-code',
+        'claude-code/haiku',
+        'claude-code/sonnet',
+        'gemini-cli/flash',
+      ]);
+    });
+
+    it('should report the default adapter in health check', async () => {
+      const response = await request(app).get('/health');
+
+      expect(response.body.adapter).toBe('claude-code');
+    });
   });
 
   describe('CORS', () => {
@@ -0,0 +1,46 @@
+import { conversationKey, SessionStore } from '../adapters/sessions';
+import { Message } from '../types';
+
+describe('SessionStore', () => {
+  const messages: Message[] = [{ role: 'user', content: 'Hello!' }];
+  const conversation: Message[] = [...messages, { role: 'assistant', content: 'Hi there!' }];
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should find the session of a conversation once', () => {
+    const store = new SessionStore(60000);
+    store.save(messages, 'Hi there!', 'session-1');
+
+    expect(store.take([{ role: 'user', content: 'Hello?' }, conversation[1]])).toBeUndefined();
+    expect(store.take(conversation)).toBe('session-1');
+    expect(store.take(conversation)).toBeUndefined();
+  });
+
+  it('should expire sessions after the ttl', () => {
+    jest.useFakeTimers({ now: 1000 });
+    const store = new SessionStore(500);
+    store.save(messages, 'Hi there!', 'session-1');
+    store.save([{ role: 'user', content: 'Other' }], 'Reply', 'session-2');
+
+    jest.setSystemTime(1500);
+    expect(store.take(conversation)).toBeUndefined();
+
+    store.save([{ role: 'user', content: 'Later' }], 'Reply', 'session-3');
+    expect(store.size).toBe(1);
+  });
+
+  it('should reject a ttl below 1', () => {
+    expect(() => new SessionStore(0)).toThrow('ttl must be at least 1');
+  });
+});
+
+describe('conversationKey', () => {
+  it('should ignore surrounding whitespace and unrelated message fields', () => {
+    const key = conversationKey([{ role: 'assistant', content: 'Hi there!' }]);
+
+    expect(conversationKey([{ role: 'assistant', content: '\nHi there!  ', name: 'bot' } as Message])).toBe(key);
+    expect(conversationKey([{ role: 'user', content: 'Hi there!' }])).not.toBe(key);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  StructuredOutputError,
+  applyResponseFormat,
+  enforceResponseFormat,
+  isStructured,
+  validateResponseFormat,
+} from '../structured_output';
+import { Message, ResponseFormat } from '../types';
+import { StubAdapter } from './helpers/stub_adapter';
+
+const personFormat: ResponseFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'person',
+    description: 'A person record',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer', minimum: 0 },
+      },
+      required: ['name', 'age'],
+      additionalProperties: false,
+    },
+  },
+};
+
+describe('structured output', () => {
+  describe('validateResponseFormat', () => {
+    it('should accept supported formats', () => {
+      expect(validateResponseFormat(undefined)).toBeUndefined();
+      expect(validateResponseFormat({ type: 'text' })).toBeUndefined();
+      expect(validateResponseFormat({ type: 'json_object' })).toBeUndefined();
+      expect(validateResponseFormat(personFormat)).toBeUndefined();
+    });
+
+    it('should reject unknown types and missing schema names', () => {
+      expect(validateResponseFormat({ type: 'yaml' })).toBe(
+        'Invalid request: response_format.type must be "text", "json_object" or "json_schema"'
+      );
+      expect(validateResponseFormat({ type: 'json_schema', json_schema: {} })).toBe(
+        'Invalid request: response_format.json_schema.name is required'
+      );
+    });
+
+    it('should reject invalid JSON schemas', () => {
+      const error = validateResponseFormat({
+        type: 'json_schema',
+        json_schema: { name: 'broken', schema: { type: 'not-a-type' } },
+      });
+
+      expect(error).toMatch(/^Invalid request: response_format.json_schema.schema is not a valid JSON schema/);
+    });
+  });
+
+  describe('isStructured', () => {
+    it('should be true for JSON formats only', () => {
+      expect(isStructured(undefined)).toBe(false);
+      expect(isStructured({ type: 'text' })).toBe(false);
+      expect(isStructured({ type: 'json_object' })).toBe(true);
+      expect(isStructured(personFormat)).toBe(true);
+    });
+  });
+
+  describe('applyResponseFormat', () => {
+    it('should leave messages unchanged for text', () => {
+      const messages: Message[] = [{ role: 'user', content: 'Hi' }];
+
+      expect(applyResponseFormat(messages, { type: 'text' })).toBe(messages);
+    });
+
+    it('should instruct the model to reply with JSON', () => {
+      const [system] = applyResponseFormat([{ role: 'user', content: 'Hi' }], { type: 'json_object' });
+
+      expect(system.role).toBe('system');
+      expect(system.content).toContain('Reply with a single valid JSON object only');
+    });
+
+    it('should include the schema in the system prompt', () => {
+      const [system] = applyResponseFormat(
+        [
+          { role: 'system', content: 'Be terse.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        personFormat
+      );
+
+      expect(system.content).toMatch(/^Be terse\.\n\nResponse format:/);
+      expect(system.content).toContain('The JSON object is "person" (A person record)');
+      expect(system.content).toContain('"additionalProperties": false');
+    });
+  });
+
+  describe('enforceResponseFormat', () => {
+    const messages: Message[] = [{ role: 'user', content: 'Who is Ada?' }];
+
+    it('should extract JSON from fenced or wrapped replies', async () => {
+      const adapter = new StubAdapter();
+
+      const result = await enforceResponseFormat(
+        adapter,
+        messages,
+        { content: 'Here you go:\n```json\n{ "name": "Ada", "age": 36 }\n```' },
+        personFormat
+      );
+
+      expect(result.content).toBe('{"name":"Ada","age":36}');
+      expect(adapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should retry once with the validation errors', async () => {
+      const adapter = new StubAdapter();
+      adapter.execute.mockResolvedValueOnce({
+        content: '{"name": "Ada", "age": 36}',
+        usage: { inputTokens: 20, outputTokens: 5 },
+      });
+
+      const result = await enforceResponseFormat(
+        adapter,
+        messages,
+        { content: '{"name": "Ada"}', usage: { inputTokens: 10, outputTokens: 4 } },
+        personFormat
+      );
+
+      expect(result.content).toBe('{"name":"Ada","age":36}');
+      expect(result.usage).toEqual({ inputTokens: 30, outputTokens: 9 });
+
+      const [retryMessages] = adapter.execute.mock.calls[0];
+      expect(retryMessages.slice(0, 2)).toEqual([
+        { role: 'user', content: 'Who is Ada?' },
+        { role: 'assistant', content: '{"name": "Ada"}' },
+      ]);
+      expect(retryMessages[2].content).toContain("/ must have required property 'age'");
+    });
+
+    it('should throw StructuredOutputError when the retry is still invalid', async () => {
+      const adapter = new StubAdapter({ reply: 'Sorry, I cannot do that.' });
+
+      const promise = enforceResponseFormat(adapter, messages, { content: 'no json' }, { type: 'json_object' });
+
+      await expect(promise).rejects.toThrow(StructuredOutputError);
+      await expect(promise).rejects.toMatchObject({
+        errors: ['the reply does not contain a valid JSON object'],
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TemplateNotFoundError } from '../adapters/errors';
+import { CONVERSATION_SYSTEM_PROMPT } from '../adapters/prompt';
+import { BUILT_IN_TEMPLATES, PromptTemplates, loadTemplateFile, parseTemplate, renderPrompt } from '../adapters/templates';
+import { Message } from '../types';
+
+const conversation: Message[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'My favorite color is blue.' },
+  { role: 'assistant', content: 'Noted!' },
+  { role: 'user', content: 'What is <my> favorite color?' },
+];
+
+describe('renderPrompt', () => {
+  it('should frame conversations as JSON history with the default template', () => {
+    const { systemPrompt, userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.default, conversation);
+
+    expect(systemPrompt).toBe(`Be brief.\n\n${CONVERSATION_SYSTEM_PROMPT}`);
+    expect(userPrompt).toBe(
+      `Conversation history:\n${JSON.stringify(conversation.slice(1, 3), null, 2)}\n\n` +
+        'Current user message: What is <my> favorite color?'
+    );
+  });
+
+  it('should leave out empty sections', () => {
+    const { systemPrompt, userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.default, [{ role: 'user', content: 'Hi' }]);
+
+    expect(systemPrompt).toBe(CONVERSATION_SYSTEM_PROMPT);
+    expect(userPrompt).toBe('Current user message: Hi');
+  });
+
+  it('should pass the conversation through as is with the raw template', () => {
+    expect(renderPrompt(BUILT_IN_TEMPLATES.raw, conversation)).toEqual({
+      systemPrompt: 'Be brief.',
+      userPrompt: 'User: My favorite color is blue.\n\nAssistant: Noted!\n\nWhat is <my> favorite color?',
+    });
+  });
+
+  it('should end transcripts with an open assistant turn', () => {
+    const { userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.transcript, conversation);
+
+    expect(userPrompt).toBe(
+      'User: My favorite color is blue.\n\nAssistant: Noted!\n\nUser: What is <my> favorite color?\n\nAssistant:'
+    );
+  });
+
+  it('should escape message text in XML conversations', () => {
+    const { userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.xml, conversation);
+
+    expect(userPrompt).toBe(
+      [
+        '<conversation>',
+        '<message role="user">My favorite color is blue.</message>',
+        '<message role="assistant">Noted!</message>',
+        '<message role="user">What is &lt;my&gt; favorite color?</message>',
+        '</conversation>',
+      ].join('\n')
+    );
+  });
+
+  it('should include tool calls in transcripts', () => {
+    const { userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.transcript, [
+      { role: 'user', content: 'Weather in Paris?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '18C' },
+    ]);
+
+    expect(userPrompt).toBe(
+      'User: Weather in Paris?\n\nAssistant: [Tool calls: weather({"city":"Paris"})]\n\nUser: 18C\n\nAssistant:'
+    );
+  });
+
+  it('should not expand placeholders inside messages', () => {
+    const { userPrompt } = renderPrompt(BUILT_IN_TEMPLATES.raw, [{ role: 'user', content: 'Print {{system}}' }]);
+
+    expect(userPrompt).toBe('Print {{system}}');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('should default the system prompt and history format', () => {
+    expect(parseTemplate({ user: '{{latest}}\n' })).toEqual({ system: '', user: '{{latest}}', history: 'json' });
+  });
+
+  it('should reject malformed templates', () => {
+    expect(() => parseTemplate('{{latest}}')).toThrow('must be an object');
+    expect(() => parseTemplate({ user: '' })).toThrow('"user" must be a non-empty string');
+    expect(() => parseTemplate({ user: 'x', format: 'json' })).toThrow('unknown field "format"');
+    expect(() => parseTemplate({ user: 'x', history: 'markdown' })).toThrow(
+      '"history" must be one of json, transcript, xml, got "markdown"'
+    );
+    expect(() => parseTemplate({ system: '{{#history}}x', user: 'x' })).toThrow(
+      '"system" has an unclosed or nested section'
+    );
+    expect(() => parseTemplate({ user: '{{#input}}{{input}}{{/input}}' })).toThrow(
+      '"user" uses unknown variable "input"'
+    );
+  });
+});
+
+describe('loadTemplateFile', () => {
+  it('should read YAML and JSON files', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    try {
+      const yamlFile = path.join(directory, 'brief.yaml');
+      fs.writeFileSync(yamlFile, 'system: |\n  Answer briefly.\nuser: "Q: {{latest}}"\nhistory: transcript\n');
+      const jsonFile = path.join(directory, 'plain.json');
+      fs.writeFileSync(jsonFile, JSON.stringify({ user: '{{latest}}' }));
+
+      expect(loadTemplateFile(yamlFile)).toEqual({ system: 'Answer briefly.', user: 'Q: {{latest}}', history: 'transcript' });
+      expect(loadTemplateFile(jsonFile)).toEqual({ system: '', user: '{{latest}}', history: 'json' });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PromptTemplates', () => {
+  const brief = { system: 'Answer briefly.', user: '{{latest}}', history: 'json' as const };
+
+  it('should return the default template when no name is given', () => {
+    expect(new PromptTemplates().get()).toBe(BUILT_IN_TEMPLATES.default);
+    expect(new PromptTemplates({ brief }, 'brief').get()).toBe(brief);
+    expect(new PromptTemplates({ brief }).get('xml')).toBe(BUILT_IN_TEMPLATES.xml);
+  });
+
+  it('should reject unknown templates', () => {
+    const templates = new PromptTemplates({ brief });
+
+    expect(() => templates.get('haiku')).toThrow(TemplateNotFoundError);
+    expect(() => templates.get('haiku')).toThrow(
+      "Prompt template 'haiku' does not exist. Available templates: default, raw, transcript, xml, brief"
+    );
+    expect(() => new PromptTemplates({}, 'brief')).toThrow(TemplateNotFoundError);
+  });
+});
@@ -0,0 +1,207 @@
+import { parseToolCalls, prepareToolMessages, toolsEnabled, validateTools } from '../tools';
+import { Message, Tool } from '../types';
+
+const weatherTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    },
+  },
+};
+
+const timeTool: Tool = {
+  type: 'function',
+  function: { name: 'get_time' },
+};
+
+describe('tools', () => {
+  describe('validateTools', () => {
+    it('should accept requests without tools', () => {
+      expect(validateTools(undefined, undefined)).toBeUndefined();
+    });
+
+    it('should accept valid tools and tool_choice values', () => {
+      expect(validateTools([weatherTool], 'auto')).toBeUndefined();
+      expect(validateTools([weatherTool], 'none')).toBeUndefined();
+      expect(validateTools([weatherTool], 'required')).toBeUndefined();
+      expect(
+        validateTools([weatherTool], { type: 'function', function: { name: 'get_weather' } })
+      ).toBeUndefined();
+    });
+
+    it('should reject malformed tools', () => {
+      expect(validateTools('nope', undefined)).toBe('Invalid request: tools must be an array');
+      expect(validateTools([{ type: 'function' }], undefined)).toBe(
+        'Invalid request: each tool must be of type "function" with a function name'
+      );
+    });
+
+    it('should reject invalid tool_choice values', () => {
+      expect(validateTools([weatherTool], 'sometimes')).toBe(
+        'Invalid request: tool_choice must be "none", "auto", "required" or a function'
+      );
+      expect(validateTools(undefined, 'required')).toBe(
+        'Invalid request: tool_choice "required" needs at least one tool'
+      );
+      expect(validateTools([weatherTool], { type: 'function', function: { name: 'other' } })).toBe(
+        'Invalid request: tool_choice refers to unknown function "other"'
+      );
+    });
+  });
+
+  describe('toolsEnabled', () => {
+    it('should be enabled only with tools and tool_choice other than none', () => {
+      expect(toolsEnabled([weatherTool], undefined)).toBe(true);
+      expect(toolsEnabled([weatherTool], 'none')).toBe(false);
+      expect(toolsEnabled([], 'auto')).toBe(false);
+      expect(toolsEnabled(undefined, undefined)).toBe(false);
+    });
+  });
+
+  describe('prepareToolMessages', () => {
+    it('should return plain messages unchanged without tools', () => {
+      const messages: Message[] = [{ role: 'user', content: 'Hello!' }];
+
+      expect(prepareToolMessages(messages, undefined, undefined)).toEqual(messages);
+    });
+
+    it('should add tool instructions as a system message', () => {
+      const prepared = prepareToolMessages([{ role: 'user', content: 'Weather in Paris?' }], [weatherTool], 'auto');
+
+      expect(prepared).toHaveLength(2);
+      expect(prepared[0].role).toBe('system');
+      expect(prepared[0].content).toContain('"name": "get_weather"');
+      expect(prepared[0].content).toContain('"required": [');
+      expect(prepared[0].content).toContain('{"tool_calls": [');
+      expect(prepared[0].content).toContain('reply to the user normally in plain text');
+      expect(prepared[1]).toEqual({ role: 'user', content: 'Weather in Paris?' });
+    });
+
+    it('should append tool instructions to an existing system message', () => {
+      const prepared = prepareToolMessages(
+        [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        [weatherTool],
+        'required'
+      );
+
+      expect(prepared).toHaveLength(2);
+      expect(prepared[0].content).toMatch(/^You are helpful\.\n\nTools:/);
+      expect(prepared[0].content).toContain('You must call at least one tool');
+    });
+
+    it('should require the named tool for a function tool_choice', () => {
+      const prepared = prepareToolMessages([{ role: 'user', content: 'Hi' }], [weatherTool, timeTool], {
+        type: 'function',
+        function: { name: 'get_time' },
+      });
+
+      expect(prepared[0].content).toContain('You must call the tool "get_time"');
+    });
+
+    it('should rewrite tool calls and tool results as text', () => {
+      const prepared = prepareToolMessages(
+        [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call_1', name: 'get_weather', content: '18°C, sunny' },
+        ],
+        [weatherTool],
+        'none'
+      );
+
+      expect(prepared).toEqual([
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: '{"tool_calls":[{"id":"call_1","name":"get_weather","arguments":{"city":"Paris"}}]}',
+        },
+        { role: 'user', content: 'Tool result for call call_1 (get_weather):\n18°C, sunny' },
+      ]);
+    });
+  });
+
+  describe('parseToolCalls', () => {
+    it('should parse a tool call reply', () => {
+      const result = parseToolCalls(
+        '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}',
+        [weatherTool]
+      );
+
+      expect(result.content).toBeNull();
+      expect(result.toolCalls).toEqual([
+        {
+          id: expect.stringMatching(/^call_[0-9a-f]{24}$/),
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+    });
+
+    it('should parse tool calls inside a code fence or surrounding prose', () => {
+      const fenced = parseToolCalls(
+        'Sure:\n```json\n{"tool_calls": [{"name": "get_time", "arguments": {}}]}\n```',
+        [timeTool]
+      );
+      expect(fenced.toolCalls?.[0].function).toEqual({ name: 'get_time', arguments: '{}' });
+
+      const prose = parseToolCalls(
+        'Calling now {"tool_calls": [{"name": "get_time", "arguments": "{}"}]}',
+        [timeTool]
+      );
+      expect(prose.toolCalls?.[0].function).toEqual({ name: 'get_time', arguments: '{}' });
+    });
+
+    it('should parse several tool calls with distinct ids', () => {
+      const result = parseToolCalls(
+        JSON.stringify({
+          tool_calls: [
+            { name: 'get_weather', arguments: { city: 'Paris' } },
+            { name: 'get_time', arguments: {} },
+          ],
+        }),
+        [weatherTool, timeTool]
+      );
+
+      expect(result.toolCalls).toHaveLength(2);
+      expect(result.toolCalls![0].id).not.toBe(result.toolCalls![1].id);
+    });
+
+    it('should return plain text replies as content', () => {
+      expect(parseToolCalls('It is sunny in Paris.', [weatherTool])).toEqual({
+        content: 'It is sunny in Paris.',
+      });
+    });
+
+    it('should ignore calls to unknown tools', () => {
+      const reply = '{"tool_calls": [{"name": "delete_files", "arguments": {}}]}';
+
+      expect(parseToolCalls(reply, [weatherTool])).toEqual({ content: reply });
+    });
+
+    it('should return replies with arguments that are not a JSON object as content', () => {
+      const malformed = '{"tool_calls": [{"name": "get_weather", "arguments": "{city: Paris"}]}';
+      const array = '{"tool_calls": [{"name": "get_weather", "arguments": "[\\"Paris\\"]"}]}';
+
+      expect(parseToolCalls(malformed, [weatherTool])).toEqual({ content: malformed });
+      expect(parseToolCalls(array, [weatherTool])).toEqual({ content: array });
+    });
+  });
+});
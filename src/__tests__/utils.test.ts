@@ -0,0 +1,109 @@
+import { execFileSync, spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CancelledError } from '../adapters/errors';
+import { execCli, isTimeoutError, killProcessTree } from '../adapters/utils';
+
+/**
+ * Shell script starting a child and a grandchild that outlive it unless
+ * killed, recording their pids in the file given as $1
+ */
+const PROCESS_TREE = `
+sleep 30 & echo $! >> "$1"
+sh -c 'sleep 30 & echo $! >> "$1"; wait' tree "$1" &
+wait
+`;
+
+/**
+ * Whether a process is still running; exited processes not yet reaped count as gone
+ */
+function isRunning(pid: number): boolean {
+  try {
+    const state = execFileSync('ps', ['-o', 'stat=', '-p', String(pid)], { encoding: 'utf8' }).trim();
+    return state !== '' && !state.startsWith('Z');
+  } catch {
+    // ps exits non-zero when no process has the pid
+    return false;
+  }
+}
+
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+const describeUnix = process.platform === 'win32' ? describe.skip : describe;
+
+describeUnix('process trees', () => {
+  let directory: string;
+  let pidFile: string;
+
+  const recordedPids = () =>
+    fs.existsSync(pidFile) ? fs.readFileSync(pidFile, 'utf8').split('\n').filter(Boolean).map(Number) : [];
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'process-tree-'));
+    pidFile = path.join(directory, 'pids');
+  });
+
+  afterEach(() => {
+    // Leave nothing running should a test fail
+    for (const pid of recordedPids()) {
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('killProcessTree', () => {
+    it('should kill the process and every process it started', async () => {
+      const child = spawn('sh', ['-c', PROCESS_TREE, 'tree', pidFile], { stdio: 'ignore' });
+      const closed = new Promise((resolve) => child.on('close', resolve));
+      await waitFor(() => recordedPids().length === 2);
+      const pids = [child.pid!, ...recordedPids()];
+      expect(pids.every(isRunning)).toBe(true);
+
+      killProcessTree(child);
+
+      await closed;
+      await waitFor(() => !pids.some(isRunning));
+    });
+  });
+
+  describe('execCli', () => {
+    const options = () => ({ cwd: directory, timeout: 0, input: '' });
+
+    it('should kill the process tree and reject with CancelledError when aborted', async () => {
+      const controller = new AbortController();
+      const execution = execCli('sh', ['-c', PROCESS_TREE, 'tree', pidFile], {
+        ...options(),
+        signal: controller.signal,
+      });
+      await waitFor(() => recordedPids().length === 2);
+
+      controller.abort();
+
+      await expect(execution).rejects.toThrow(CancelledError);
+      await waitFor(() => !recordedPids().some(isRunning));
+    });
+
+    it('should kill the process tree and report a timeout', async () => {
+      const execution = execCli('sh', ['-c', PROCESS_TREE, 'tree', pidFile], { ...options(), timeout: 500 });
+
+      const error = await execution.catch((error) => error);
+
+      expect(isTimeoutError(error)).toBe(true);
+      expect(recordedPids()).toHaveLength(2);
+      await waitFor(() => !recordedPids().some(isRunning));
+    });
+  });
+});
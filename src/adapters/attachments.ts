@@ -0,0 +1,281 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ContentPart, Message } from '../types';
+
+/**
+ * Image parts of multimodal messages, handed to the CLI as files
+ *
+ * CLIs only accept images as files, so `data:` URLs are decoded into a
+ * temporary directory inside the runtime directory (the CLI's working
+ * directory). Image parts are then replaced by a text reference to the file,
+ * and the files are removed once the execution is done.
+ *
+ * `file://` URLs are rejected unless the server has an image directory: they
+ * are then only accepted for image files inside it, and inlined as `data:`
+ * URLs before they reach an adapter.
+ */
+
+/**
+ * Directory for temporary attachments, relative to the runtime directory
+ */
+export const ATTACHMENTS_DIR = '.attachments';
+
+/**
+ * An image saved for one execution
+ */
+export interface Attachment {
+  /** Absolute path of the temporary file */
+  path: string;
+  /** Path relative to the runtime directory */
+  relativePath: string;
+  mimeType: string;
+}
+
+export interface PreparedAttachments {
+  /** Messages with every content part array turned into text */
+  messages: Message[];
+  attachments: Attachment[];
+  /** Remove the temporary files */
+  cleanup: () => Promise<void>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const DATA_URL = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/s;
+
+/**
+ * Leading bytes of each image type
+ */
+const MAGIC_BYTES: Array<{ mimeType: string; matches: (header: Buffer) => boolean }> = [
+  {
+    mimeType: 'image/png',
+    matches: (header) => header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { mimeType: 'image/jpeg', matches: (header) => header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimeType: 'image/gif', matches: (header) => /^GIF8[79]a/.test(header.toString('latin1', 0, 6)) },
+  {
+    mimeType: 'image/webp',
+    matches: (header) => header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP',
+  },
+];
+
+/**
+ * Check the content of request messages
+ * `file://` image URLs are only accepted for images inside `imageDir`
+ * Returns an error message, or undefined when valid
+ */
+export function validateMessageContent(messages: Message[], imageDir?: string): string | undefined {
+  for (const message of messages) {
+    const { content } = message;
+    if (content === null || content === undefined || typeof content === 'string') {
+      continue;
+    }
+    if (!Array.isArray(content)) {
+      return 'Invalid request: message content must be a string or an array of content parts';
+    }
+
+    for (const part of content) {
+      if (part?.type === 'text' && typeof part.text === 'string') {
+        continue;
+      }
+      if (part?.type !== 'image_url' || typeof part.image_url?.url !== 'string') {
+        return 'Invalid request: content parts must be of type "text" or "image_url"';
+      }
+
+      const error = validateImageUrl(part.image_url.url, imageDir);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace `file://` image URLs by `data:` URLs of the files, read from `imageDir`
+ * Expects messages checked by validateMessageContent()
+ */
+export async function inlineImageFiles(messages: Message[], imageDir?: string): Promise<Message[]> {
+  if (!messages.some((message) => Array.isArray(message.content))) {
+    return messages;
+  }
+
+  const inlined: Message[] = [];
+  for (const message of messages) {
+    if (!Array.isArray(message.content)) {
+      inlined.push(message);
+      continue;
+    }
+
+    const parts: ContentPart[] = [];
+    for (const part of message.content) {
+      if (part.type !== 'image_url' || !part.image_url.url.startsWith('file:')) {
+        parts.push(part);
+        continue;
+      }
+      const image = resolveImageFile(part.image_url.url, imageDir);
+      const data = await fs.promises.readFile(image.file);
+      const url = `data:${image.mimeType};base64,${data.toString('base64')}`;
+      parts.push({ ...part, image_url: { ...part.image_url, url } });
+    }
+    inlined.push({ ...message, content: parts });
+  }
+  return inlined;
+}
+
+/**
+ * Save the images of the messages into the runtime directory
+ *
+ * `formatReference` turns a saved image into the text that replaces the image
+ * part, so each adapter can use the syntax its CLI understands.
+ */
+export async function prepareAttachments(
+  messages: Message[],
+  runtimeDir: string,
+  formatReference: (attachment: Attachment, index: number) => string
+): Promise<PreparedAttachments> {
+  if (!messages.some((message) => Array.isArray(message.content))) {
+    return { messages, attachments: [], cleanup: async () => {} };
+  }
+
+  const directory = path.join(runtimeDir, ATTACHMENTS_DIR, randomBytes(8).toString('hex'));
+  const attachments: Attachment[] = [];
+  const cleanup = () => fs.promises.rm(directory, { recursive: true, force: true });
+
+  try {
+    const prepared: Message[] = [];
+    for (const message of messages) {
+      if (!Array.isArray(message.content)) {
+        prepared.push(message);
+        continue;
+      }
+
+      const texts: string[] = [];
+      for (const part of message.content) {
+        if (part.type === 'text') {
+          texts.push(part.text);
+          continue;
+        }
+        const attachment = await saveImage(part.image_url.url, directory, runtimeDir, attachments.length);
+        attachments.push(attachment);
+        texts.push(formatReference(attachment, attachments.length - 1));
+      }
+      prepared.push({ ...message, content: texts.join('\n') });
+    }
+
+    return { messages: prepared, attachments, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+function validateImageUrl(url: string, imageDir?: string): string | undefined {
+  if (url.startsWith('data:')) {
+    return DATA_URL.test(url) ? undefined : 'Invalid request: malformed data URL in image_url';
+  }
+
+  if (url.startsWith('file:')) {
+    try {
+      resolveImageFile(url, imageDir);
+    } catch (error: any) {
+      return `Invalid request: ${error.message}`;
+    }
+    return undefined;
+  }
+
+  return imageDir
+    ? 'Invalid request: image_url must be a base64 data URL or a file:// URL'
+    : 'Invalid request: image_url must be a base64 data URL';
+}
+
+/**
+ * Path and type of the image a `file://` URL refers to
+ *
+ * The file must resolve, symbolic links included, to an image inside
+ * `imageDir`. Paths outside it are rejected before the file system is
+ * consulted, so that requests cannot probe which files exist.
+ */
+function resolveImageFile(url: string, imageDir?: string): { file: string; mimeType: string } {
+  if (!imageDir) {
+    throw new Error('file:// image URLs are not enabled on this server, use a base64 data URL');
+  }
+
+  let file: string;
+  try {
+    file = fileURLToPath(url);
+  } catch {
+    throw new Error(`malformed file URL in image_url: ${url}`);
+  }
+  const outside = new Error(`image file is outside the image directory: ${url}`);
+  if (!isInside(path.resolve(file), path.resolve(imageDir))) {
+    throw outside;
+  }
+
+  let realFile: string;
+  try {
+    realFile = fs.realpathSync(file);
+  } catch {
+    throw new Error(`image file not found: ${url}`);
+  }
+  if (!isInside(realFile, fs.realpathSync(imageDir))) {
+    throw outside;
+  }
+
+  const extension = path.extname(realFile).slice(1).toLowerCase();
+  const mimeType = detectImageType(realFile);
+  if (!mimeType || EXTENSIONS[mimeType] !== (extension === 'jpeg' ? 'jpg' : extension)) {
+    throw new Error(`not a PNG, JPEG, GIF or WebP image: ${url}`);
+  }
+  return { file: realFile, mimeType };
+}
+
+function isInside(file: string, directory: string): boolean {
+  const relative = path.relative(directory, file);
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/**
+ * MIME type of an image file from its leading bytes, undefined for other files
+ */
+function detectImageType(file: string): string | undefined {
+  const header = Buffer.alloc(12);
+  let descriptor: number | undefined;
+  try {
+    descriptor = fs.openSync(file, 'r');
+    fs.readSync(descriptor, header, 0, header.length, 0);
+  } catch {
+    return undefined;
+  } finally {
+    if (descriptor !== undefined) fs.closeSync(descriptor);
+  }
+  return MAGIC_BYTES.find((magic) => magic.matches(header))?.mimeType;
+}
+
+/**
+ * Decode a `data:` URL into a file of the attachments directory
+ * Other URLs never reach adapters: `file://` URLs are inlined by the server
+ */
+async function saveImage(url: string, directory: string, runtimeDir: string, index: number): Promise<Attachment> {
+  const match = DATA_URL.exec(url);
+  if (!match) {
+    throw new Error('Images must be passed to adapters as base64 data URLs');
+  }
+  const mimeType = match[1] || 'application/octet-stream';
+  const data = match[3] ? Buffer.from(match[4], 'base64') : Buffer.from(decodeURIComponent(match[4]));
+  const extension = EXTENSIONS[mimeType] || 'bin';
+
+  await fs.promises.mkdir(directory, { recursive: true });
+  const file = path.join(directory, `image-${index + 1}.${extension}`);
+  await fs.promises.writeFile(file, data);
+
+  return { path: file, relativePath: path.relative(runtimeDir, file), mimeType };
+}
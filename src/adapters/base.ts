@@ -1,4 +1,4 @@
-import { Message } from '../types';
+import { ExecuteOptions, ExecutionResult, Message } from '../types';
 
 /**
  * Abstract base class for CLI adapters
@@ -6,8 +6,27 @@ import { Message } from '../types';
 export abstract class CLIAdapter {
   /**
    * Execute the CLI tool with the given messages and return the response
+   * along with any usage metadata the CLI reports
+   *
+   * Options the CLI has no equivalent for are ignored; the server enforces
+   * the token limit on the output either way.
    */
-  abstract execute(messages: Message[]): Promise<string>;
+  abstract execute(messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult>;
+
+  /**
+   * Execute the CLI tool and yield the response incrementally as it is produced
+   *
+   * Adapters that can read the CLI output progressively should override this.
+   * The default implementation yields the buffered result of execute() once,
+   * after handing its usage to `options.onUsage`.
+   */
+  async *executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    const result = await this.execute(messages, options);
+    if (result.usage) {
+      options?.onUsage?.(result.usage);
+    }
+    yield result.content;
+  }
 
   /**
    * Check if the CLI tool is available in the system
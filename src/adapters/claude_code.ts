@@ -1,46 +1,35 @@
 import { promisify } from 'util';
-import { execFile as execFileCb } from 'child_process';
-import stripAnsi from 'strip-ansi';
+import readline from 'readline';
+import { execFile as execFileCb, spawn } from 'child_process';
 import { CLIAdapter } from './base';
-import { Message } from '../types';
+import { Attachment, prepareAttachments } from './attachments';
+import { CancelledError, TimeoutError } from './errors';
+import { SessionStore } from './sessions';
+import { PromptTemplates, renderPrompt } from './templates';
+import { execCli, isTimeoutError, killProcessTree, quote, summarize } from './utils';
+import { logger } from '../logger';
+import { ExecuteOptions, ExecutionResult, Message } from '../types';
 
-const execFile = promisify(execFileCb);
-
-/**
- * System prompt for conversation context understanding
- *
- * Goal: make Claude Code behave like a neutral, generic LLM
- * without tool- or coding-assistant specific introductions.
- */
-const CONVERSATION_SYSTEM_PROMPT = `You are a generic, domain-agnostic AI assistant.
-
-Identity and scope:
-- Do not identify as "Claude Code", a coding assistant, or any specific product/tool.
-- Do not list capabilities or tools unless the user explicitly asks.
-- If a role label is required, use a minimal "assistant" identity only.
-
-Environment and tools:
-- Do not reference or infer local environment details (repos, files, editor, OS, terminal, processes, network).
-- Do not claim to run commands or open files. Offer steps as suggestions instead.
-- If the user shares environment details, do not extrapolate beyond what is provided.
-
-Style and conduct:
-- Default to brief, direct, and helpful answers. Avoid long introductions.
-- For simple greetings (e.g., "hi"), reply with a short friendly greeting only.
-- Ask one concise clarification question when requirements are ambiguous.
+export { TimeoutError };
 
-Conversation handling:
-- When conversation history is provided in JSON, use it for context and respond to the latest user message.
-- Focus on the user’s request and avoid unnecessary commentary.`;
+const execFile = promisify(execFileCb);
 
 /**
- * Custom error for timeout
+ * Final message of `--output-format json` (and last line of `stream-json`)
  */
-export class TimeoutError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'TimeoutError';
-  }
+interface ClaudeResultMessage {
+  type: 'result';
+  subtype: string;
+  is_error: boolean;
+  result?: string;
+  session_id?: string;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
 }
 
 /**
@@ -49,21 +38,39 @@ export class TimeoutError extends Error {
  * Note: This adapter assumes:
  * - 'claude' command is available in PATH
  * - 'claude code' subcommand accepts --system-prompt and -p options
- * - Output is returned to stdout
+ * - '--output-format json' returns a single result object (text, usage, cost, session id)
+ *   and '--output-format stream-json' returns one JSON event per line
  * - Tools are disabled in .claude/settings.json for chat-like behavior
+ * - Images are attached through `@<path>` mentions of files in the working directory
+ * - CLAUDE_CODE_MAX_OUTPUT_TOKENS limits the output tokens of the model
+ * - '--resume <session id>' continues a session stored in the runtime directory
+ *
+ * With a session store, a conversation continuing a previous execution resumes
+ * its session and only sends the latest user message (see SessionStore).
  */
 export class ClaudeCodeAdapter extends CLIAdapter {
   private runtimeDir: string;
   private timeout: number;
   private debug: boolean;
   private model: string;
-
-  constructor(runtimeDir: string, timeout: number = 30000, debug: boolean = false, model: string = 'haiku') {
+  private sessions?: SessionStore;
+  private templates: PromptTemplates;
+
+  constructor(
+    runtimeDir: string,
+    timeout: number = 30000,
+    debug: boolean = false,
+    model: string = 'haiku',
+    sessions?: SessionStore,
+    templates: PromptTemplates = new PromptTemplates()
+  ) {
     super();
     this.runtimeDir = runtimeDir;
     this.timeout = timeout;
     this.debug = debug;
     this.model = model;
+    this.sessions = sessions;
+    this.templates = templates;
   }
 
   getName(): string {
@@ -83,75 +90,134 @@ export class ClaudeCodeAdapter extends CLIAdapter {
     }
   }
 
-  async execute(messages: Message[]): Promise<string> {
-    const { systemPrompt, userPrompt } = this.buildClaudeCodeCommand(messages);
+  async execute(messages: Message[], options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    // Unknown templates fail before a session is taken
+    this.templates.get(options.template);
+    const sessionId = this.findSession(messages);
+    const prepared = await prepareAttachments(messages, this.runtimeDir, mentionAttachment);
+    try {
+      let result: ExecutionResult | undefined;
+      if (sessionId) {
+        try {
+          result = await this.executePrompt(latestTurn(prepared.messages), options, sessionId);
+        } catch (error) {
+          if (error instanceof TimeoutError || error instanceof CancelledError) throw error;
+          this.logResumeFailure(sessionId, error);
+        }
+      }
+      result = result || (await this.executePrompt(prepared.messages, options));
+
+      if (result.sessionId) {
+        this.sessions?.save(messages, result.content, result.sessionId);
+      }
+      return result;
+    } finally {
+      await prepared.cleanup();
+    }
+  }
+
+  async *executeStream(messages: Message[], options: ExecuteOptions = {}): AsyncIterable<string> {
+    this.templates.get(options.template);
+    const sessionId = this.findSession(messages);
+    const prepared = await prepareAttachments(messages, this.runtimeDir, mentionAttachment);
+    try {
+      const session: { id?: string } = {};
+      let content = '';
+      let resumed = false;
+      if (sessionId) {
+        const turn = latestTurn(prepared.messages);
+        try {
+          for await (const chunk of this.executePromptStream(turn, options, sessionId, session)) {
+            content += chunk;
+            yield chunk;
+          }
+          resumed = true;
+        } catch (error) {
+          // Output already sent cannot be taken back, so only silent failures fall back
+          if (error instanceof TimeoutError || error instanceof CancelledError || content) throw error;
+          this.logResumeFailure(sessionId, error);
+        }
+      }
+      if (!resumed) {
+        for await (const chunk of this.executePromptStream(prepared.messages, options, undefined, session)) {
+          content += chunk;
+          yield chunk;
+        }
+      }
+
+      if (session.id) {
+        this.sessions?.save(messages, content, session.id);
+      }
+    } finally {
+      await prepared.cleanup();
+    }
+  }
+
+  /**
+   * Session that produced everything before the latest user message, if stored
+   */
+  private findSession(messages: Message[]): string | undefined {
+    if (!this.sessions || messages.length < 2 || messages[messages.length - 1].role !== 'user') {
+      return undefined;
+    }
+    return this.sessions.take(messages.slice(0, -1));
+  }
+
+  /**
+   * A resumed session can fail when the CLI no longer has it; the full
+   * conversation is sent instead
+   */
+  private logResumeFailure(sessionId: string, error: any): void {
+    logger.warn('Session resume failed, sending the full conversation', {
+      adapter: this.getName(),
+      sessionId,
+      error: error?.message,
+    });
+  }
+
+  private async executePrompt(messages: Message[], options: ExecuteOptions, resume?: string): Promise<ExecutionResult> {
+    const { systemPrompt, userPrompt } = this.buildClaudeCodeCommand(messages, options.template);
 
     const t0 = Date.now();
 
     if (this.debug) {
-      console.log('[DEBUG] System Prompt:', systemPrompt);
-      console.log('[DEBUG] User Prompt:', userPrompt);
+      logger.debug('CLI invocation', {
+        adapter: this.getName(),
+        command: ['claude', ...this.buildArgs(quote(summarize(systemPrompt)), 'json', resume)].join(' '),
+        systemPrompt,
+        userPrompt,
+      });
     }
 
-    const commonOpts = {
-      cwd: this.runtimeDir,
-      timeout: this.timeout,
-      maxBuffer: 10 * 1024 * 1024, // 10MB
-    } as const;
-
     // Primary invocation: current CLI (non-interactive):
     // `claude --system-prompt <system> -p <userPrompt>`
     try {
-      if (this.debug) {
-        console.log(
-          '[DEBUG] Exec command (stdin mode):',
-          'claude',
-          'code',
-          '--model',
-          this.model,
-          '--system-prompt',
-          quote(summarize(systemPrompt)),
-          '-p'
-        );
-        console.log('[DEBUG] Prompt (stdin):', quote(summarize(userPrompt)));
-      }
-
-      // Use stdin to pass the user prompt to avoid any quoting ambiguity
-      const result = await new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
-        const child = execFileCb(
-          'claude',
-          ['code', '--model', this.model, '--system-prompt', systemPrompt, '-p'],
-          commonOpts as any,
-          (err, stdout, stderr) => {
-            if (err) {
-              (err as any).stderr = stderr;
-              reject(err);
-            } else {
-              resolve({ stdout: stdout as any, stderr: stderr as any });
-            }
-          }
-        );
 
-        if (child.stdin) {
-          child.stdin.write(userPrompt);
-          child.stdin.end();
-        }
+      const result = await execCli('claude', this.buildArgs(systemPrompt, 'json', resume), {
+        cwd: this.runtimeDir,
+        timeout: this.timeout,
+        input: userPrompt,
+        env: buildEnv(options),
+        signal: options.signal,
       });
 
       if (this.debug) {
-        console.log('[DEBUG] Raw Output:', result.stdout);
-        console.log('[DEBUG] Duration (ms):', Date.now() - t0);
+        logger.debug('CLI output', { adapter: this.getName(), stdout: result.stdout, durationMs: Date.now() - t0 });
       }
 
-      return this.cleanOutput(result.stdout);
+      return toExecutionResult(parseResultMessage(result.stdout));
     } catch (error: any) {
       // If timed out, surface as timeout
-      if (error.killed && error.signal === 'SIGTERM') {
+      if (isTimeoutError(error)) {
         throw new TimeoutError('Claude Code execution timed out');
       }
+      // On a non-zero exit the CLI still prints its result object; prefer its message
+      const output = error && error.stdout ? tryParseResultMessage(error.stdout) : undefined;
+      if (output && output.is_error && output.result) {
+        error.message = `Claude Code returned an error: ${output.result}`;
+      }
       if (this.debug) {
-        const stderr: string = (error && error.stderr) || '';
-        console.warn('[DEBUG] Invocation failed. stderr:', stderr);
+        logger.debug('CLI invocation failed', { adapter: this.getName(), stderr: (error && error.stderr) || '' });
       }
       // Rethrow original error
       throw error;
@@ -159,80 +225,251 @@ export class ClaudeCodeAdapter extends CLIAdapter {
   }
 
   /**
-   * Build system prompt and user prompt from message history
-   *
-   * Strategy:
-   * 1. Extract system message if present
-   * 2. Combine with conversation context instruction
-   * 3. Format conversation history as JSON
-   * 4. Append current user message
+   * Stream an execution; the session id reported by the CLI is stored in `session`
    */
-  private buildClaudeCodeCommand(messages: Message[]): {
-    systemPrompt: string;
-    userPrompt: string;
-  } {
-    // Extract system message
-    const systemMsg = messages.find((m) => m.role === 'system');
-    const baseSystemPrompt = systemMsg?.content || '';
+  private async *executePromptStream(
+    messages: Message[],
+    options: ExecuteOptions,
+    resume: string | undefined,
+    session: { id?: string }
+  ): AsyncIterable<string> {
+    const { systemPrompt, userPrompt } = this.buildClaudeCodeCommand(messages, options.template);
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+
+    const t0 = Date.now();
+
+    if (this.debug) {
+      logger.debug('CLI invocation', {
+        adapter: this.getName(),
+        command: ['claude', ...this.buildArgs(quote(summarize(systemPrompt)), 'stream-json', resume)].join(' '),
+        systemPrompt,
+        userPrompt,
+      });
+    }
 
-    // Build system prompt
-    const systemPrompt = baseSystemPrompt
-      ? `${baseSystemPrompt}\n\n${CONVERSATION_SYSTEM_PROMPT}`
-      : CONVERSATION_SYSTEM_PROMPT;
+    const child = spawn('claude', this.buildArgs(systemPrompt, 'stream-json', resume), {
+      cwd: this.runtimeDir,
+      env: { ...process.env, ...buildEnv(options) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, this.timeout);
+    const cancel = () => killProcessTree(child);
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let stderr = '';
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => {
+      stderr += data;
+    });
+
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code) => resolve(code));
+    });
+    // Spawn errors (e.g. ENOENT) are surfaced after stdout ends
+    exited.catch(() => undefined);
+
+    // Use stdin to pass the user prompt, same as the buffered invocation
+    child.stdin.end(userPrompt);
 
-    // Build user prompt with conversation history
-    let userPrompt = '';
+    try {
+      // Partial text deltas are preferred; complete assistant messages are the
+      // fallback for CLI versions that do not emit them
+      let sawDelta = false;
+      let yielded = false;
+      let output: ClaudeResultMessage | undefined;
+
+      const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+      for await (const line of lines) {
+        const event = tryParseJson(line);
+        if (!event) continue;
+
+        if (event.type === 'stream_event') {
+          const delta = event.event?.type === 'content_block_delta' ? event.event.delta : undefined;
+          if (delta?.type === 'text_delta' && delta.text) {
+            sawDelta = true;
+            yielded = true;
+            yield delta.text;
+          }
+        } else if (event.type === 'assistant' && !sawDelta) {
+          for (const block of event.message?.content || []) {
+            if (block.type === 'text' && block.text) {
+              yielded = true;
+              yield block.text;
+            }
+          }
+        } else if (event.type === 'result') {
+          output = event as ClaudeResultMessage;
+        }
+      }
 
-    // Get conversation messages (exclude system)
-    const conversationMessages = messages.filter((m) => m.role !== 'system');
+      const code = await exited;
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (timedOut) {
+        throw new TimeoutError('Claude Code execution timed out');
+      }
+      if (output && output.is_error) {
+        throw new Error(`Claude Code returned an error: ${output.result || output.subtype}`);
+      }
+      if (code !== 0) {
+        const error: any = new Error(`Claude Code exited with code ${code}`);
+        error.code = code;
+        error.stderr = stderr;
+        throw error;
+      }
+      // The usage of the result event is only known once the stream has ended
+      const usage = output && toExecutionResult(output).usage;
+      if (usage) {
+        options.onUsage?.(usage);
+      }
+      if (!yielded && output?.result) {
+        yield output.result;
+      }
+      session.id = output?.session_id;
 
-    // If there's conversation history (more than 1 message)
-    if (conversationMessages.length > 1) {
-      const history = conversationMessages.slice(0, -1);
-      userPrompt += `Conversation history:\n${JSON.stringify(history, null, 2)}\n\n`;
+      if (this.debug) {
+        logger.debug('CLI output', { adapter: this.getName(), durationMs: Date.now() - t0 });
+      }
+    } catch (error: any) {
+      if (this.debug) {
+        logger.debug('CLI invocation failed', { adapter: this.getName(), stderr });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      // Also stops the CLI when the consumer abandons the stream
+      if (child.exitCode === null && child.signalCode === null) {
+        killProcessTree(child);
+      }
     }
+  }
 
-    // Add current user message
-    const latestMsg = conversationMessages[conversationMessages.length - 1];
-    if (latestMsg) {
-      userPrompt += `Current user message: ${latestMsg.content}`;
+  /**
+   * Build CLI arguments for a non-interactive invocation
+   * The user prompt itself is always passed via stdin
+   */
+  private buildArgs(systemPrompt: string, outputFormat: 'json' | 'stream-json', resume?: string): string[] {
+    const args = ['code', '--model', this.model, '--system-prompt', systemPrompt, '-p'];
+    if (resume) {
+      args.push('--resume', resume);
     }
-
-    return { systemPrompt, userPrompt };
+    args.push('--output-format', outputFormat);
+    if (outputFormat === 'stream-json') {
+      // stream-json requires --verbose in print mode; partial messages carry text deltas
+      args.push('--verbose', '--include-partial-messages');
+    }
+    return args;
   }
 
   /**
-   * Clean output from Claude Code CLI
-   * Removes:
-   * - ANSI color codes
-   * - Progress indicators
-   * - Extra whitespace
+   * Build system prompt and user prompt from message history
+   * through the selected prompt template (see templates.ts)
    */
-  private cleanOutput(stdout: string): string {
-    let cleaned = stripAnsi(stdout);
+  private buildClaudeCodeCommand(
+    messages: Message[],
+    template?: string
+  ): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    return renderPrompt(this.templates.get(template), messages);
+  }
+}
 
-    // Remove common progress indicators
-    cleaned = cleaned.replace(/^.*\r/gm, ''); // Remove lines ending with \r (carriage return)
-    cleaned = cleaned.replace(/^\s*[\[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏\]]/gm, ''); // Remove spinner characters
+/**
+ * Environment variables carrying the execution options
+ */
+function buildEnv(options: ExecuteOptions): NodeJS.ProcessEnv {
+  return options.maxTokens ? { CLAUDE_CODE_MAX_OUTPUT_TOKENS: String(options.maxTokens) } : {};
+}
 
-    // Trim and normalize whitespace
-    cleaned = cleaned.trim();
+/**
+ * Messages to send to a resumed session: the system prompt and the latest
+ * user message, as the session already holds the rest of the conversation
+ */
+function latestTurn(messages: Message[]): Message[] {
+  return [...messages.filter((m) => m.role === 'system'), messages[messages.length - 1]];
+}
 
-    return cleaned;
-  }
+/**
+ * Reference an image so that Claude Code attaches the file
+ */
+function mentionAttachment(attachment: Attachment): string {
+  return `@${attachment.relativePath}`;
+}
 
+/**
+ * Parse the result object printed by `--output-format json`
+ */
+function parseResultMessage(stdout: string): ClaudeResultMessage {
+  const output = tryParseResultMessage(stdout);
+  if (!output) {
+    throw new Error(`Unexpected Claude Code output: ${summarize(stdout)}`);
+  }
+  if (output.is_error) {
+    throw new Error(`Claude Code returned an error: ${output.result || output.subtype}`);
+  }
+  return output;
 }
 
 /**
- * Summarize long prompts in debug logs to keep output readable
+ * Find the result object in CLI output
+ * Falls back to the last parseable line in case anything else was printed first
  */
-function summarize(text: string, max = 80): string {
-  if (!text) return '';
-  const clean = text.replace(/\s+/g, ' ').trim();
-  return clean.length > max ? clean.slice(0, max) + '…' : clean;
+function tryParseResultMessage(stdout: string): ClaudeResultMessage | undefined {
+  const candidates = [stdout.trim(), ...stdout.trim().split('\n').reverse()];
+  for (const candidate of candidates) {
+    const parsed = tryParseJson(candidate);
+    if (parsed && parsed.type === 'result') {
+      return parsed as ClaudeResultMessage;
+    }
+  }
+  return undefined;
+}
+
+function tryParseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
 }
 
-function quote(s: string): string {
-  // Use JSON stringify to show quotes safely in logs
-  return JSON.stringify(s);
+/**
+ * Map the CLI result object to an adapter result
+ * Cache reads and writes count towards prompt tokens, as they do for the API
+ */
+function toExecutionResult(output: ClaudeResultMessage): ExecutionResult {
+  const result: ExecutionResult = {
+    content: (output.result || '').trim(),
+  };
+
+  if (output.usage) {
+    result.usage = {
+      inputTokens:
+        (output.usage.input_tokens || 0) +
+        (output.usage.cache_creation_input_tokens || 0) +
+        (output.usage.cache_read_input_tokens || 0),
+      outputTokens: output.usage.output_tokens || 0,
+    };
+  }
+  if (typeof output.total_cost_usd === 'number') {
+    result.costUsd = output.total_cost_usd;
+  }
+  if (output.session_id) {
+    result.sessionId = output.session_id;
+  }
+
+  return result;
 }
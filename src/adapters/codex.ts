@@ -0,0 +1,144 @@
+import fs from 'fs';
+import { promisify } from 'util';
+import { execFile as execFileCb } from 'child_process';
+import { CLIAdapter } from './base';
+import { Attachment, prepareAttachments } from './attachments';
+import { TimeoutError } from './errors';
+import { PromptTemplates, renderPrompt } from './templates';
+import { cleanOutput, execCli, isTimeoutError } from './utils';
+import { logger } from '../logger';
+import { ExecuteOptions, ExecutionResult, Message } from '../types';
+
+const execFile = promisify(execFileCb);
+
+/**
+ * Codex CLI adapter implementation
+ *
+ * Note: This adapter assumes:
+ * - 'codex' command is available in PATH
+ * - 'codex exec' runs non-interactively and reads the prompt from stdin when given '-'
+ * - The final agent message is returned to stdout (progress goes to stderr)
+ * - A read-only sandbox keeps the agent from modifying the runtime directory
+ * - Images are attached with '--image <file>'
+ * - '-c model_max_output_tokens=<n>' limits the output tokens of the model
+ */
+export class CodexAdapter extends CLIAdapter {
+  private runtimeDir: string;
+  private timeout: number;
+  private debug: boolean;
+  private model?: string;
+  private templates: PromptTemplates;
+
+  constructor(
+    runtimeDir: string,
+    timeout: number = 30000,
+    debug: boolean = false,
+    model?: string,
+    templates: PromptTemplates = new PromptTemplates()
+  ) {
+    super();
+    this.runtimeDir = runtimeDir;
+    this.timeout = timeout;
+    this.debug = debug;
+    this.model = model;
+    this.templates = templates;
+  }
+
+  getName(): string {
+    return 'codex';
+  }
+
+  getModelName(): string {
+    return 'codex';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await execFile('codex', ['--version'], { timeout: 5000, env: process.env });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async execute(messages: Message[], options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const prepared = await prepareAttachments(messages, this.runtimeDir, (_, index) => `[Image #${index + 1}]`);
+    try {
+      return await this.executePrompt(prepared.messages, prepared.attachments, options);
+    } finally {
+      await prepared.cleanup();
+    }
+  }
+
+  private async executePrompt(
+    messages: Message[],
+    attachments: Attachment[],
+    options: ExecuteOptions
+  ): Promise<ExecutionResult> {
+    const prompt = this.buildCodexPrompt(messages, options.template);
+    const args = this.buildArgs(attachments, options);
+
+    const t0 = Date.now();
+
+    if (this.debug) {
+      logger.debug('CLI invocation', { adapter: this.getName(), command: ['codex', ...args].join(' '), prompt });
+    }
+
+    try {
+      // The runtime directory is the working directory of the CLI, and only exists once images were attached
+      await fs.promises.mkdir(this.runtimeDir, { recursive: true });
+      const result = await execCli('codex', args, {
+        cwd: this.runtimeDir,
+        timeout: this.timeout,
+        input: prompt,
+        signal: options.signal,
+      });
+
+      if (this.debug) {
+        logger.debug('CLI output', { adapter: this.getName(), stdout: result.stdout, durationMs: Date.now() - t0 });
+      }
+
+      return { content: cleanOutput(result.stdout) };
+    } catch (error: any) {
+      // If timed out, surface as timeout
+      if (isTimeoutError(error)) {
+        throw new TimeoutError('Codex execution timed out');
+      }
+      if (this.debug) {
+        logger.debug('CLI invocation failed', { adapter: this.getName(), stderr: (error && error.stderr) || '' });
+      }
+      // Rethrow original error
+      throw error;
+    }
+  }
+
+  /**
+   * Build CLI arguments for `codex exec`
+   * The prompt itself is passed via stdin ('-'), images are numbered in the order attached
+   */
+  private buildArgs(attachments: Attachment[] = [], options: ExecuteOptions = {}): string[] {
+    const args = ['exec', '--skip-git-repo-check', '--sandbox', 'read-only', '--color', 'never'];
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+    if (options.maxTokens) {
+      args.push('-c', `model_max_output_tokens=${options.maxTokens}`);
+    }
+    for (const attachment of attachments) {
+      args.push('--image', attachment.path);
+    }
+    args.push('-');
+    return args;
+  }
+
+  /**
+   * Build a single prompt from message history
+   *
+   * Codex has no separate system prompt option, so the system instructions
+   * are placed ahead of the history/current-message prompt.
+   */
+  private buildCodexPrompt(messages: Message[], template?: string): string {
+    const { systemPrompt, userPrompt } = renderPrompt(this.templates.get(template), messages);
+    return systemPrompt ? `Instructions:\n${systemPrompt}\n\n${userPrompt}` : userPrompt;
+  }
+}
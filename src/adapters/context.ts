@@ -0,0 +1,177 @@
+import { CLIAdapter } from './base';
+import { ContextLengthExceededError } from './errors';
+import { contentText, withSystemInstructions } from './prompt';
+import { estimateTokens } from '../parameters';
+import { AdapterConfig, ExecuteOptions, ExecutionResult, Message, TruncationStrategy } from '../types';
+
+/**
+ * Context budgets: conversations over the budget of a model are truncated or
+ * rejected before they reach the CLI, instead of failing in the CLI
+ *
+ * Tokens are estimated like the usage of CLIs that do not report it (see
+ * estimateTokens()). Truncation works on whole turns (a user message and the
+ * messages up to the next one), so replies are never separated from their
+ * question.
+ */
+
+/**
+ * System prompt of the extra execution summarizing older turns
+ */
+export const SUMMARY_PROMPT = `Summarize the conversation below for an assistant that will continue it.
+Keep the facts, names, numbers, decisions and open questions it needs, and leave out greetings and small talk.
+Reply with the summary only.`;
+
+/**
+ * Budget of one adapter and model
+ */
+export interface ContextBudget {
+  maxTokens: number;
+  strategy: TruncationStrategy;
+  lastTurns: number;
+}
+
+/**
+ * Budget of an adapter config, or undefined when its model has none
+ */
+export function contextBudget(config: AdapterConfig): ContextBudget | undefined {
+  const { context } = config;
+  if (!context) {
+    return undefined;
+  }
+  const modelBudget = config.model !== undefined ? context.models?.[config.model] : undefined;
+  const maxTokens = modelBudget ?? context.maxTokens;
+  if (maxTokens === undefined) {
+    return undefined;
+  }
+  return { maxTokens, strategy: context.strategy, lastTurns: context.lastTurns };
+}
+
+/**
+ * Estimated tokens of the messages
+ */
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(messageText(message)), 0);
+}
+
+/**
+ * Adapter applying a context budget to the messages of every execution
+ */
+export class ContextLimitedAdapter extends CLIAdapter {
+  constructor(
+    private adapter: CLIAdapter,
+    private budget: ContextBudget
+  ) {
+    super();
+  }
+
+  async execute(messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult> {
+    return this.adapter.execute(await this.fit(messages, options), options);
+  }
+
+  async *executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    yield* this.adapter.executeStream(await this.fit(messages, options), options);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.adapter.isAvailable();
+  }
+
+  getName(): string {
+    return this.adapter.getName();
+  }
+
+  getModelName(): string {
+    return this.adapter.getModelName();
+  }
+
+  /**
+   * Messages within the budget
+   * Throws ContextLengthExceededError when they cannot be made to fit
+   */
+  async fit(messages: Message[], options?: ExecuteOptions): Promise<Message[]> {
+    const { maxTokens, strategy, lastTurns } = this.budget;
+    const tokens = estimateMessageTokens(messages);
+    if (tokens <= maxTokens) {
+      return messages;
+    }
+
+    const system = messages.filter((m) => m.role === 'system');
+    const turns = splitTurns(messages.filter((m) => m.role !== 'system'));
+    let fitted: Message[] | undefined;
+    switch (strategy) {
+      case 'drop-oldest':
+        fitted = dropOldest(system, turns, maxTokens);
+        break;
+      case 'last-turns':
+        fitted = [...system, ...turns.slice(-lastTurns).flat()];
+        break;
+      case 'summarize':
+        fitted = await this.summarize(system, turns, options?.signal);
+        break;
+    }
+
+    if (!fitted || estimateMessageTokens(fitted) > maxTokens) {
+      throw new ContextLengthExceededError(maxTokens, tokens);
+    }
+    return fitted;
+  }
+
+  /**
+   * Replace the turns before the last `lastTurns` by a summary in the system prompt
+   */
+  private async summarize(system: Message[], turns: Message[][], signal?: AbortSignal): Promise<Message[]> {
+    const older = turns.slice(0, -this.budget.lastTurns);
+    const recent = [...system, ...turns.slice(-this.budget.lastTurns).flat()];
+    if (older.length === 0) {
+      return recent;
+    }
+
+    const summary = await this.adapter.execute(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript(older.flat()) },
+      ],
+      { signal }
+    );
+    return withSystemInstructions(recent, `Summary of the earlier conversation:\n${summary.content}`);
+  }
+}
+
+/**
+ * Group messages into turns, each starting with a user message
+ * Messages before the first user message form a turn of their own
+ */
+function splitTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Drop the oldest turns until the rest fits, always keeping the latest one
+ */
+function dropOldest(system: Message[], turns: Message[][], maxTokens: number): Message[] {
+  let kept = turns;
+  while (kept.length > 1 && estimateMessageTokens([...system, ...kept.flat()]) > maxTokens) {
+    kept = kept.slice(1);
+  }
+  return [...system, ...kept.flat()];
+}
+
+function transcript(messages: Message[]): string {
+  return messages.map((message) => `${message.role}: ${messageText(message)}`).join('\n\n');
+}
+
+/**
+ * Text of a message as it reaches the CLI, including its tool calls
+ */
+function messageText(message: Message): string {
+  const text = contentText(message.content);
+  return message.tool_calls ? `${text}${JSON.stringify(message.tool_calls)}` : text;
+}
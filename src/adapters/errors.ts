@@ -0,0 +1,60 @@
+/**
+ * Custom error for timeout
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Raised when an execution is aborted through its signal, usually because
+ * the client disconnected
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Execution cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Raised in replay mode when no recorded fixture matches a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Raised when a conversation does not fit the context budget of a model,
+ * after truncation if it is enabled
+ */
+export class ContextLengthExceededError extends Error {
+  constructor(
+    readonly maxTokens: number,
+    readonly tokens: number
+  ) {
+    super(
+      `This model's maximum context length is ${maxTokens} tokens. However, your messages resulted in ` +
+        `${tokens} tokens. Please reduce the length of the messages.`
+    );
+    this.name = 'ContextLengthExceededError';
+  }
+}
+
+/**
+ * Raised when an execution selects a prompt template that does not exist
+ */
+export class TemplateNotFoundError extends Error {
+  constructor(
+    readonly template: string,
+    available: string[]
+  ) {
+    super(`Prompt template '${template}' does not exist. Available templates: ${available.join(', ')}`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
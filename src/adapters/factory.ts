@@ -1,21 +1,118 @@
 import { CLIAdapter } from './base';
 import { ClaudeCodeAdapter } from './claude_code';
+import { CodexAdapter } from './codex';
+import { ContextLimitedAdapter, contextBudget } from './context';
+import { GeminiCliAdapter } from './gemini_cli';
+import { RecordReplayAdapter } from './record_replay';
+import { AdapterRegistry } from './registry';
+import { Backend, ResilientAdapter } from './resilience';
+import { SessionStore } from './sessions';
+import { PromptTemplates } from './templates';
 import { AdapterConfig } from '../types';
 
 /**
  * Factory for creating CLI adapters
  */
 export class AdapterFactory {
+  /**
+   * Create the adapter for a config
+   * The adapter is wrapped for recording or replay when `config.fixtures` is set,
+   * and to apply the context budget of its model when `config.context` sets one
+   */
   static create(config: AdapterConfig): CLIAdapter {
+    let adapter = AdapterFactory.createCliAdapter(config);
+    if (config.fixtures) {
+      const id = config.model ? `${config.type}/${config.model}` : config.type;
+      adapter = new RecordReplayAdapter(adapter, config.fixtures.mode, config.fixtures.file, id);
+    }
+
+    const budget = contextBudget(config);
+    return budget ? new ContextLimitedAdapter(adapter, budget) : adapter;
+  }
+
+  private static createCliAdapter(config: AdapterConfig): CLIAdapter {
+    const templates = new PromptTemplates(config.promptTemplates, config.promptTemplate);
     switch (config.type) {
       case 'claude-code':
-        return new ClaudeCodeAdapter(config.runtimeDir, config.timeout, config.debug, config.model);
+        return new ClaudeCodeAdapter(
+          config.runtimeDir,
+          config.timeout,
+          config.debug,
+          config.model,
+          config.sessions && new SessionStore(config.sessions.ttl),
+          templates
+        );
       case 'codex':
-        throw new Error('Codex adapter not yet implemented');
+        if (!config.allowShell) {
+          throw new Error('The codex adapter can run shell commands that read any file on the host; set allowShell to serve it');
+        }
+        return new CodexAdapter(config.runtimeDir, config.timeout, config.debug, config.model, templates);
       case 'gemini-cli':
-        throw new Error('Gemini CLI adapter not yet implemented');
+        return new GeminiCliAdapter(config.runtimeDir, config.timeout, config.debug, config.model, templates);
       default:
         throw new Error(`Unknown adapter type: ${config.type}`);
     }
   }
+
+  /**
+   * Create a registry routing model names to adapters
+   *
+   * For each config, the adapter for `config.model` is registered under the
+   * bare adapter type (e.g. `claude-code`) and `<type>/<model>`; every entry
+   * of `config.models` gets its own adapter under `<type>/<model>`.
+   * The first config provides the default adapter.
+   *
+   * Adapters of configs with `retry` or `fallback` retry their failed
+   * executions and fall back to the adapters of the fallback model ids, which
+   * are used without their own retries and fallbacks.
+   */
+  static createRegistry(configs: AdapterConfig[]): AdapterRegistry {
+    const backends = new Map<string, CLIAdapter>();
+    const routes: Array<{ modelIds: string[]; backend: Backend; config: AdapterConfig }> = [];
+
+    for (const config of configs) {
+      const primary = AdapterFactory.create(config);
+      const id = config.model ? `${config.type}/${config.model}` : config.type;
+      const modelIds = config.model ? [config.type, id] : [config.type];
+      modelIds.forEach((modelId) => backends.set(modelId, primary));
+      routes.push({ modelIds, backend: { id, adapter: primary }, config });
+
+      for (const model of config.models || []) {
+        if (model === config.model) continue;
+        const modelId = `${config.type}/${model}`;
+        const adapter = AdapterFactory.create({ ...config, model });
+        backends.set(modelId, adapter);
+        routes.push({ modelIds: [modelId], backend: { id: modelId, adapter }, config });
+      }
+    }
+
+    const registry = new AdapterRegistry();
+    for (const { modelIds, backend, config } of routes) {
+      const adapter = AdapterFactory.withFallbacks(backend, config, backends);
+      modelIds.forEach((modelId) => registry.register(modelId, adapter));
+    }
+    return registry;
+  }
+
+  /**
+   * Add the retries and fallbacks of a config to one of its adapters
+   * Fallbacks resolving to the adapter itself are skipped
+   */
+  private static withFallbacks(backend: Backend, config: AdapterConfig, backends: Map<string, CLIAdapter>): CLIAdapter {
+    if (!config.retry && !config.fallback?.length) {
+      return backend.adapter;
+    }
+
+    const fallbacks: Backend[] = [];
+    for (const id of config.fallback || []) {
+      const adapter = backends.get(id);
+      if (!adapter) {
+        throw new Error(`Unknown fallback model: ${id}`);
+      }
+      if (adapter !== backend.adapter && !fallbacks.some((fallback) => fallback.adapter === adapter)) {
+        fallbacks.push({ id, adapter });
+      }
+    }
+    return new ResilientAdapter(backend, fallbacks, config.retry);
+  }
 }
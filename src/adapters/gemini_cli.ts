@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { execFile as execFileCb } from 'child_process';
+import { CLIAdapter } from './base';
+import { prepareAttachments } from './attachments';
+import { TimeoutError } from './errors';
+import { PromptTemplates, renderPrompt } from './templates';
+import { cleanOutput, execCli, isTimeoutError } from './utils';
+import { logger } from '../logger';
+import { ExecuteOptions, ExecutionResult, Message, PromptTemplate } from '../types';
+
+const execFile = promisify(execFileCb);
+
+/**
+ * Short model aliases accepted in configuration
+ * Anything else is passed to the CLI unchanged
+ */
+const MODEL_ALIASES: Record<string, string> = {
+  flash: 'gemini-2.5-flash',
+  'flash-lite': 'gemini-2.5-flash-lite',
+  pro: 'gemini-2.5-pro',
+};
+
+/**
+ * Tool resolving `@<file>` references in prompts
+ */
+const ATTACHMENT_TOOL = 'read_many_files';
+
+/**
+ * Gemini CLI adapter implementation
+ *
+ * Note: This adapter assumes:
+ * - 'gemini' command is available in PATH
+ * - Piping the prompt via stdin runs the CLI non-interactively
+ * - GEMINI_SYSTEM_MD points the CLI at a file that replaces its built-in system prompt
+ * - Tools are disabled in .gemini/settings.json for chat-like behavior
+ * - Images are attached with `@<file>` references, which the read_many_files
+ *   tool resolves; requests with images run in a workspace of their own that
+ *   holds only the images and enables that tool (see attachmentWorkspace())
+ * - The CLI has no output token limit; the server truncates the output instead
+ */
+export class GeminiCliAdapter extends CLIAdapter {
+  private runtimeDir: string;
+  private timeout: number;
+  private debug: boolean;
+  private model: string;
+  private templates: PromptTemplates;
+
+  constructor(
+    runtimeDir: string,
+    timeout: number = 30000,
+    debug: boolean = false,
+    model: string = 'flash',
+    templates: PromptTemplates = new PromptTemplates()
+  ) {
+    super();
+    this.runtimeDir = runtimeDir;
+    this.timeout = timeout;
+    this.debug = debug;
+    this.model = MODEL_ALIASES[model] || model;
+    this.templates = templates;
+  }
+
+  getName(): string {
+    return 'gemini-cli';
+  }
+
+  getModelName(): string {
+    return 'gemini-cli';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await execFile('gemini', ['--version'], { timeout: 5000, env: process.env });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async execute(messages: Message[], options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const template = this.templates.get(options.template);
+    // References are relative to the attachment workspace the CLI runs in
+    const prepared = await prepareAttachments(
+      messages,
+      this.runtimeDir,
+      (attachment) => `@${path.basename(attachment.path)}`
+    );
+    const { systemPrompt, userPrompt } = this.buildGeminiCommand(prepared.messages, template);
+    const args = ['--model', this.model];
+
+    const t0 = Date.now();
+
+    // The system prompt is handed over as a file, removed once the CLI exits
+    const systemPromptFile = path.join(
+      this.runtimeDir,
+      '.gemini',
+      `system-${randomBytes(6).toString('hex')}.md`
+    );
+
+    try {
+      await fs.promises.mkdir(path.dirname(systemPromptFile), { recursive: true });
+      await fs.promises.writeFile(systemPromptFile, systemPrompt, 'utf8');
+      const cwd =
+        prepared.attachments.length > 0
+          ? await this.attachmentWorkspace(path.dirname(prepared.attachments[0].path))
+          : this.runtimeDir;
+
+      if (this.debug) {
+        logger.debug('CLI invocation', {
+          adapter: this.getName(),
+          command: ['gemini', ...args].join(' '),
+          cwd,
+          systemPromptFile,
+          systemPrompt,
+          userPrompt,
+        });
+      }
+
+      const result = await execCli('gemini', args, {
+        cwd,
+        timeout: this.timeout,
+        input: userPrompt,
+        env: { GEMINI_SYSTEM_MD: systemPromptFile },
+        signal: options.signal,
+      });
+
+      if (this.debug) {
+        logger.debug('CLI output', { adapter: this.getName(), stdout: result.stdout, durationMs: Date.now() - t0 });
+      }
+
+      return { content: cleanOutput(result.stdout) };
+    } catch (error: any) {
+      // If timed out, surface as timeout
+      if (isTimeoutError(error)) {
+        throw new TimeoutError('Gemini CLI execution timed out');
+      }
+      if (this.debug) {
+        logger.debug('CLI invocation failed', { adapter: this.getName(), stderr: (error && error.stderr) || '' });
+      }
+      // Rethrow original error
+      throw error;
+    } finally {
+      await fs.promises.rm(systemPromptFile, { force: true });
+      await prepared.cleanup();
+    }
+  }
+
+  /**
+   * Turn the directory of a request's images into the workspace the CLI runs in
+   *
+   * The workspace gets the runtime settings with read_many_files enabled, so
+   * that `@<file>` references resolve. The CLI only reads files inside its
+   * workspace, which holds nothing but the images, and text-only requests
+   * keep running in the runtime directory with every file tool disabled.
+   */
+  private async attachmentWorkspace(directory: string): Promise<string> {
+    const settingsFile = path.join('.gemini', 'settings.json');
+    let settings: Record<string, any> = {};
+    try {
+      settings = JSON.parse(await fs.promises.readFile(path.join(this.runtimeDir, settingsFile), 'utf8'));
+    } catch {
+      // Without runtime settings, the CLI defaults apply
+    }
+    if (Array.isArray(settings.excludeTools)) {
+      settings.excludeTools = settings.excludeTools.filter((tool: unknown) => tool !== ATTACHMENT_TOOL);
+    }
+
+    await fs.promises.mkdir(path.join(directory, '.gemini'), { recursive: true });
+    await fs.promises.writeFile(path.join(directory, settingsFile), JSON.stringify(settings, null, 2));
+    return directory;
+  }
+
+  /**
+   * Build system prompt and user prompt from message history
+   * Same prompt templates as the Claude Code adapter, see renderPrompt()
+   */
+  private buildGeminiCommand(
+    messages: Message[],
+    template: PromptTemplate
+  ): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    return renderPrompt(template, messages);
+  }
+}
@@ -0,0 +1,66 @@
+import { ContentPart, Message } from '../types';
+
+/**
+ * Instructions making CLI agents behave like a neutral, generic LLM
+ * without tool- or coding-assistant specific introductions
+ */
+export const NEUTRAL_ASSISTANT_PROMPT = `You are a generic, domain-agnostic AI assistant.
+
+Identity and scope:
+- Do not identify as "Claude Code", "Codex", "Gemini CLI", a coding assistant, or any specific product/tool.
+- Do not list capabilities or tools unless the user explicitly asks.
+- If a role label is required, use a minimal "assistant" identity only.
+
+Environment and tools:
+- Do not reference or infer local environment details (repos, files, editor, OS, terminal, processes, network).
+- Do not claim to run commands or open files. Offer steps as suggestions instead.
+- If the user shares environment details, do not extrapolate beyond what is provided.
+
+Style and conduct:
+- Default to brief, direct, and helpful answers. Avoid long introductions.
+- For simple greetings (e.g., "hi"), reply with a short friendly greeting only.
+- Ask one concise clarification question when requirements are ambiguous.`;
+
+/**
+ * System prompt for conversation context understanding, used by the default
+ * prompt template (see templates.ts)
+ */
+export const CONVERSATION_SYSTEM_PROMPT = `${NEUTRAL_ASSISTANT_PROMPT}
+
+Conversation handling:
+- When conversation history is provided in JSON, use it for context and respond to the latest user message.
+- Focus on the user’s request and avoid unnecessary commentary.`;
+
+/**
+ * Append instructions to the first system message, adding one if there is none
+ *
+ * Adapters only use the first system message as system prompt, so request-level
+ * instructions (tools, response format, ...) are merged into it.
+ */
+export function withSystemInstructions(messages: Message[], instructions: string): Message[] {
+  const systemIndex = messages.findIndex((m) => m.role === 'system');
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: instructions }, ...messages];
+  }
+
+  const result = [...messages];
+  const system = result[systemIndex];
+  const content = contentText(system.content);
+  result[systemIndex] = {
+    ...system,
+    content: content ? `${content}\n\n${instructions}` : instructions,
+  };
+  return result;
+}
+
+/**
+ * Text of a message content, with image parts replaced by a placeholder
+ * Adapters attach images before building prompts (see prepareAttachments()),
+ * so placeholders only remain where images cannot be passed on
+ */
+export function contentText(content: string | ContentPart[] | null): string {
+  if (!Array.isArray(content)) {
+    return content ?? '';
+  }
+  return content.map((part) => (part.type === 'text' ? part.text : '[image]')).join('\n');
+}
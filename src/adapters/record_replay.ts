@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CLIAdapter } from './base';
+import { FixtureNotFoundError } from './errors';
+import { ExecuteOptions, ExecutionResult, Message } from '../types';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * A recorded request/response pair, stored as one line of a JSONL file
+ */
+export interface Fixture {
+  key: string;
+  adapter: string;
+  messages: Message[];
+  result: ExecutionResult;
+  /** Output chunks, when the response was recorded from a stream */
+  chunks?: string[];
+}
+
+/**
+ * Wrapping adapter that records executions to, or replays them from, a fixtures file
+ *
+ * In record mode every successful execution of the wrapped adapter is appended
+ * to the file. In replay mode the wrapped CLI is never run: requests are matched
+ * on the adapter id, messages, prompt template and token limit, and an unmatched request fails with
+ * FixtureNotFoundError. Identical requests recorded several times are replayed
+ * in recording order, repeating the last one once exhausted.
+ */
+export class RecordReplayAdapter extends CLIAdapter {
+  private fixtures?: Promise<Map<string, Fixture[]>>;
+  private replayed = new Map<string, number>();
+
+  /**
+   * @param adapter Adapter to wrap
+   * @param mode Whether to record or replay
+   * @param file Path of the JSONL fixtures file
+   * @param id Identifies the adapter and CLI model in fixtures (e.g. `claude-code/haiku`)
+   */
+  constructor(
+    private adapter: CLIAdapter,
+    private mode: FixtureMode,
+    private file: string,
+    private id: string
+  ) {
+    super();
+  }
+
+  async execute(messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult> {
+    if (this.mode === 'replay') {
+      const fixture = await this.find(messages, options);
+      return fixture.chunks ? { ...fixture.result, content: fixture.chunks.join('') } : fixture.result;
+    }
+
+    const result = await this.adapter.execute(messages, options);
+    await this.record({ key: this.key(messages, options), adapter: this.id, messages, result });
+    return result;
+  }
+
+  async *executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    if (this.mode === 'replay') {
+      const fixture = await this.find(messages, options);
+      if (fixture.result.usage) {
+        options?.onUsage?.(fixture.result.usage);
+      }
+      yield* fixture.chunks || [fixture.result.content];
+      return;
+    }
+
+    const chunks: string[] = [];
+    let usage: ExecutionResult['usage'];
+    const onUsage = (reported: NonNullable<ExecutionResult['usage']>) => {
+      usage = reported;
+      options?.onUsage?.(reported);
+    };
+    for await (const chunk of this.adapter.executeStream(messages, { ...options, onUsage })) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.record({
+      key: this.key(messages, options),
+      adapter: this.id,
+      messages,
+      result: { content: chunks.join(''), ...(usage && { usage }) },
+      chunks,
+    });
+  }
+
+  /**
+   * Replay needs no CLI, so the adapter is always available then
+   */
+  isAvailable(): Promise<boolean> {
+    return this.mode === 'replay' ? Promise.resolve(true) : this.adapter.isAvailable();
+  }
+
+  getName(): string {
+    return this.adapter.getName();
+  }
+
+  getModelName(): string {
+    return this.adapter.getModelName();
+  }
+
+  /**
+   * Key of a request: the adapter id, the messages and the options that change the reply
+   */
+  private key(messages: Message[], options?: ExecuteOptions): string {
+    const request = {
+      adapter: this.id,
+      messages,
+      template: options?.template ?? null,
+      maxTokens: options?.maxTokens ?? null,
+    };
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  private async record(fixture: Fixture): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify(fixture) + '\n', 'utf8');
+  }
+
+  private async find(messages: Message[], options?: ExecuteOptions): Promise<Fixture> {
+    const key = this.key(messages, options);
+    const recorded = (await this.loadFixtures()).get(key);
+    if (!recorded) {
+      // The messages are left out: the error reaches responses and logs
+      throw new FixtureNotFoundError(`No recorded fixture for ${this.id} matches this request (key ${key})`);
+    }
+
+    const index = this.replayed.get(key) || 0;
+    this.replayed.set(key, index + 1);
+    return recorded[Math.min(index, recorded.length - 1)];
+  }
+
+  private loadFixtures(): Promise<Map<string, Fixture[]>> {
+    if (!this.fixtures) {
+      this.fixtures = readFixtures(this.file);
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Read a fixtures file into lists of fixtures per key
+ */
+async function readFixtures(file: string): Promise<Map<string, Fixture[]>> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read fixtures file ${file}: ${error.message}`);
+  }
+
+  const fixtures = new Map<string, Fixture[]>();
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid fixture on line ${index + 1} of ${file}`);
+    }
+
+    const list = fixtures.get(fixture.key) || [];
+    list.push(fixture);
+    fixtures.set(fixture.key, list);
+  });
+  return fixtures;
+}
@@ -0,0 +1,70 @@
+import { CLIAdapter } from './base';
+
+/**
+ * Registry of adapters routable by request model name
+ *
+ * Model ids are either a bare adapter name (e.g. `claude-code`) or
+ * `<adapter>/<cli model>` (e.g. `claude-code/sonnet`, `gemini-cli/flash`).
+ * The first registered adapter is the default, used when a request
+ * does not specify a model.
+ */
+export class AdapterRegistry {
+  private routes = new Map<string, CLIAdapter>();
+  private defaultAdapter?: CLIAdapter;
+
+  /**
+   * Create a registry serving a single adapter under its model name
+   */
+  static single(adapter: CLIAdapter): AdapterRegistry {
+    return new AdapterRegistry().register(adapter.getModelName(), adapter);
+  }
+
+  /**
+   * Register an adapter under a model id
+   */
+  register(modelId: string, adapter: CLIAdapter): this {
+    if (this.routes.has(modelId)) {
+      throw new Error(`Model already registered: ${modelId}`);
+    }
+    this.routes.set(modelId, adapter);
+    if (!this.defaultAdapter) {
+      this.defaultAdapter = adapter;
+    }
+    return this;
+  }
+
+  /**
+   * Find the adapter for a request model
+   * Returns the default adapter when no model is given, undefined for unknown models
+   */
+  resolve(model?: string): CLIAdapter | undefined {
+    if (!model) {
+      return this.defaultAdapter;
+    }
+    return this.routes.get(model);
+  }
+
+  /**
+   * Get the default adapter
+   */
+  getDefault(): CLIAdapter {
+    if (!this.defaultAdapter) {
+      throw new Error('No adapters registered');
+    }
+    return this.defaultAdapter;
+  }
+
+  /**
+   * List all routable model ids in registration order
+   */
+  listModels(): string[] {
+    return Array.from(this.routes.keys());
+  }
+
+  /**
+   * List distinct adapter instances in registration order
+   */
+  getAdapters(): CLIAdapter[] {
+    return Array.from(new Set(this.routes.values()));
+  }
+}
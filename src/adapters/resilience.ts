@@ -0,0 +1,202 @@
+import { CLIAdapter } from './base';
+import { CancelledError, ContextLengthExceededError, TemplateNotFoundError, TimeoutError } from './errors';
+import { logger } from '../logger';
+import { ExecuteOptions, ExecutionResult, Message, RetryPolicy } from '../types';
+
+/**
+ * Retries and fallbacks: failed executions are retried with exponential
+ * backoff when the failure looks transient, then handed to fallback backends
+ *
+ * Timeouts, processes killed by a signal, temporary failure exit codes and
+ * error output mentioning rate limits or overloaded servers are retried.
+ * Other execution failures go straight to the next backend. Failures caused
+ * by the request itself (a cancelled request, a conversation over the context
+ * budget, an unknown prompt template) are neither retried nor handed over, as
+ * another backend would fail the same way.
+ */
+
+/**
+ * Error output of transient failures
+ */
+export const RETRYABLE_PATTERNS: RegExp[] = [
+  /rate.?limit/i,
+  /too many requests/i,
+  /overloaded/i,
+  /\b(429|503|529)\b/,
+  /(service|temporarily) unavailable/i,
+  /ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/,
+];
+
+/**
+ * Exit codes of transient failures: EX_TEMPFAIL of sysexits.h
+ */
+export const RETRYABLE_EXIT_CODES: number[] = [75];
+
+/**
+ * An adapter and the model id it is routed under, e.g. `gemini-cli/flash`
+ */
+export interface Backend {
+  id: string;
+  adapter: CLIAdapter;
+}
+
+export type FailureKind = 'retry' | 'fallback' | 'fail';
+
+/**
+ * How to handle a failed execution:
+ * - `retry`: transient, worth another attempt on the same backend
+ * - `fallback`: the backend failed, another one may answer
+ * - `fail`: caused by the request, reported as is
+ */
+export function classifyFailure(error: any): FailureKind {
+  if (
+    error instanceof CancelledError ||
+    error instanceof ContextLengthExceededError ||
+    error instanceof TemplateNotFoundError
+  ) {
+    return 'fail';
+  }
+  if (error instanceof TimeoutError) {
+    return 'retry';
+  }
+  // Spawn errors (ENOENT, EACCES) have string codes; exit codes are numbers
+  if (typeof error?.code === 'number' && RETRYABLE_EXIT_CODES.includes(error.code)) {
+    return 'retry';
+  }
+  if (error?.code === null || (error?.signal && !error?.killed)) {
+    return 'retry';
+  }
+  const output = `${error?.message ?? ''}\n${error?.stderr ?? ''}`;
+  return RETRYABLE_PATTERNS.some((pattern) => pattern.test(output)) ? 'retry' : 'fallback';
+}
+
+/**
+ * Delay before a retry, doubling from `policy.delay` up to `policy.maxDelay`
+ * `attempt` counts the failed attempts so far, starting at 1
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.delay * 2 ** (attempt - 1), policy.maxDelay);
+}
+
+/**
+ * Adapter retrying failed executions and falling back to other backends
+ *
+ * Every backend is tried with the same retry policy, in order. The id of the
+ * backend that answers is passed to `options.onBackend`. Streams are only
+ * retried or handed over before their first output, since output already
+ * sent cannot be taken back.
+ */
+export class ResilientAdapter extends CLIAdapter {
+  private backends: Backend[];
+
+  constructor(
+    private primary: Backend,
+    fallbacks: Backend[],
+    private policy: RetryPolicy = { retries: 0, delay: 0, maxDelay: 0 }
+  ) {
+    super();
+    this.backends = [primary, ...fallbacks];
+  }
+
+  async execute(messages: Message[], options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    return this.run(options, async (backend) => {
+      const result = await backend.adapter.execute(messages, options);
+      options.onBackend?.(backend.id);
+      return result;
+    });
+  }
+
+  async *executeStream(messages: Message[], options: ExecuteOptions = {}): AsyncIterable<string> {
+    // Only the wait for the first chunk is retried
+    const { iterator, first } = await this.run(options, async (backend) => {
+      const iterator = backend.adapter.executeStream(messages, options)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      options.onBackend?.(backend.id);
+      return { iterator, first };
+    });
+
+    try {
+      for (let next = first; !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } finally {
+      // Stops the CLI when the consumer abandons the stream
+      await iterator.return?.();
+    }
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.primary.adapter.isAvailable();
+  }
+
+  getName(): string {
+    return this.primary.adapter.getName();
+  }
+
+  getModelName(): string {
+    return this.primary.adapter.getModelName();
+  }
+
+  /**
+   * Run an attempt on each backend in turn until one succeeds
+   * Throws the last failure once every backend failed
+   */
+  private async run<T>(options: ExecuteOptions, attempt: (backend: Backend) => Promise<T>): Promise<T> {
+    let lastError: any;
+    for (const [index, backend] of this.backends.entries()) {
+      if (index > 0) {
+        logger.warn('Execution failed, falling back', {
+          backend: this.backends[index - 1].id,
+          fallback: backend.id,
+          error: lastError?.message,
+        });
+      }
+
+      for (let failures = 0; ; ) {
+        try {
+          return await attempt(backend);
+        } catch (error: any) {
+          lastError = error;
+          const kind = classifyFailure(error);
+          if (kind === 'fail') {
+            throw error;
+          }
+          failures++;
+          if (kind === 'fallback' || failures > this.policy.retries) {
+            break;
+          }
+
+          const delayMs = retryDelay(this.policy, failures);
+          logger.warn('Execution failed, retrying', {
+            backend: backend.id,
+            attempt: failures,
+            delayMs,
+            error: error?.message,
+          });
+          await sleep(delayMs, options.signal);
+        }
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Wait for a retry, cut short by the execution's signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new CancelledError());
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
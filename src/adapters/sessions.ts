@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { ContentPart, Message } from '../types';
+
+/**
+ * CLI sessions that can be resumed instead of re-sending the conversation
+ *
+ * After each execution, the conversation including the reply is stored
+ * against the session id reported by the CLI. When the next request starts
+ * with exactly that conversation, only its latest message needs to be sent to
+ * the resumed session. Anything else (an edited history, a regenerated reply,
+ * an expired entry) finds no session and is executed without one.
+ */
+
+interface SessionEntry {
+  sessionId: string;
+  /** Expiry as epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * In-memory store mapping conversation hashes to CLI session ids
+ * `ttl` is in milliseconds
+ */
+export class SessionStore {
+  private entries = new Map<string, SessionEntry>();
+
+  constructor(private ttl: number) {
+    if (!(ttl >= 1)) {
+      throw new Error(`ttl must be at least 1, got ${ttl}`);
+    }
+  }
+
+  /**
+   * Remember the session that produced a conversation (its messages followed by the reply)
+   */
+  save(messages: Message[], reply: string, sessionId: string): void {
+    this.removeExpired();
+    const conversation: Message[] = [...messages, { role: 'assistant', content: reply }];
+    this.entries.set(conversationKey(conversation), { sessionId, expiresAt: Date.now() + this.ttl });
+  }
+
+  /**
+   * Find and remove the session that produced a conversation
+   *
+   * A session is resumed at most once: resuming it twice would make the
+   * second turn see the first one, so a conversation that branches off an
+   * earlier turn starts afresh.
+   */
+  take(conversation: Message[]): string | undefined {
+    const key = conversationKey(conversation);
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.sessionId;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Hash of the parts of a conversation that reach the CLI
+ * Text is trimmed, as replies are trimmed before they are returned
+ */
+export function conversationKey(messages: Message[]): string {
+  const normalized = messages.map((message) => ({
+    role: message.role,
+    content: normalizeContent(message.content),
+    tool_calls: message.tool_calls ?? null,
+    tool_call_id: message.tool_call_id ?? null,
+  }));
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+function normalizeContent(content: string | ContentPart[] | null): string | ContentPart[] | null {
+  return typeof content === 'string' ? content.trim() : content;
+}
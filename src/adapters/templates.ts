@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { TemplateNotFoundError } from './errors';
+import { CONVERSATION_SYSTEM_PROMPT, NEUTRAL_ASSISTANT_PROMPT, contentText } from './prompt';
+import { Message, PromptTemplate } from '../types';
+
+/**
+ * Prompt templates: how a conversation is framed for the CLI
+ *
+ * Adapters render the messages of every execution through a named template,
+ * the adapter's default or the one a request selects. Besides the built-in
+ * templates, templates can be loaded from YAML or JSON files.
+ */
+
+const VARIABLES = ['system', 'history', 'latest'];
+const HISTORY_FORMATS: PromptTemplate['history'][] = ['json', 'transcript', 'xml'];
+const TEMPLATE_FIELDS = ['system', 'user', 'history'];
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+/**
+ * Templates available without configuration
+ * - `default`: neutral assistant instructions, JSON history and the latest message
+ * - `raw`: the system message as is, and the conversation as a plain transcript
+ * - `transcript`: a `User:` / `Assistant:` transcript ending with an open assistant turn
+ * - `xml`: turns as `<message role="...">` elements of a `<conversation>`
+ */
+export const BUILT_IN_TEMPLATES: Record<string, PromptTemplate> = {
+  default: {
+    system: `{{#system}}{{system}}\n\n{{/system}}${CONVERSATION_SYSTEM_PROMPT}`,
+    user: '{{#history}}Conversation history:\n{{history}}\n\n{{/history}}Current user message: {{latest}}',
+    history: 'json',
+  },
+  raw: {
+    system: '{{system}}',
+    user: '{{#history}}{{history}}\n\n{{/history}}{{latest}}',
+    history: 'transcript',
+  },
+  transcript: {
+    system: `{{#system}}{{system}}\n\n{{/system}}${NEUTRAL_ASSISTANT_PROMPT}
+
+Conversation handling:
+- The conversation is a transcript of User and Assistant turns.
+- Write the next Assistant turn only, without the "Assistant:" label.`,
+    user: '{{#history}}{{history}}\n\n{{/history}}User: {{latest}}\n\nAssistant:',
+    history: 'transcript',
+  },
+  xml: {
+    system: `{{#system}}{{system}}\n\n{{/system}}${NEUTRAL_ASSISTANT_PROMPT}
+
+Conversation handling:
+- The conversation is given as <message> elements of a <conversation>.
+- Reply to the last user message in plain text, without XML tags.`,
+    user: [
+      '<conversation>',
+      '{{#history}}{{history}}\n{{/history}}<message role="user">{{latest}}</message>',
+      '</conversation>',
+    ].join('\n'),
+    history: 'xml',
+  },
+};
+
+/**
+ * The built-in templates and the loaded ones, with the adapter's default
+ */
+export class PromptTemplates {
+  private templates: Map<string, PromptTemplate>;
+
+  constructor(
+    templates: Record<string, PromptTemplate> = {},
+    private defaultName = 'default'
+  ) {
+    this.templates = new Map(Object.entries({ ...BUILT_IN_TEMPLATES, ...templates }));
+    if (!this.templates.has(defaultName)) {
+      throw new TemplateNotFoundError(defaultName, this.names());
+    }
+  }
+
+  /**
+   * Template of a name, the default one when no name is given
+   * Throws TemplateNotFoundError for unknown names
+   */
+  get(name: string = this.defaultName): PromptTemplate {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new TemplateNotFoundError(name, this.names());
+    }
+    return template;
+  }
+
+  names(): string[] {
+    return [...this.templates.keys()];
+  }
+}
+
+/**
+ * Render the system and user prompts of a conversation
+ * Only the first system message is used; the latest non-system message is the one answered
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  messages: Message[]
+): {
+  systemPrompt: string;
+  userPrompt: string;
+} {
+  const systemMsg = messages.find((m) => m.role === 'system');
+  const conversation = messages.filter((m) => m.role !== 'system');
+  const latest = conversation[conversation.length - 1];
+  const latestText = contentText(latest?.content ?? null);
+
+  const variables: Record<string, string> = {
+    system: contentText(systemMsg?.content ?? null),
+    history: formatHistory(conversation.slice(0, -1), template.history),
+    latest: template.history === 'xml' ? escapeXml(latestText) : latestText,
+  };
+  return { systemPrompt: render(template.system, variables), userPrompt: render(template.user, variables) };
+}
+
+/**
+ * Check and normalize a template read from a file
+ * Throws an Error describing the first problem
+ */
+export function parseTemplate(value: unknown): PromptTemplate {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('must be an object with "system", "user" and "history"');
+  }
+  const fields = value as Record<string, unknown>;
+  const unknown = Object.keys(fields).find((name) => !TEMPLATE_FIELDS.includes(name));
+  if (unknown) {
+    throw new Error(`unknown field "${unknown}"`);
+  }
+  const { system = '', user, history = 'json' } = fields;
+  if (typeof system !== 'string') {
+    throw new Error('"system" must be a string');
+  }
+  if (typeof user !== 'string' || !user.trim()) {
+    throw new Error('"user" must be a non-empty string');
+  }
+  if (!HISTORY_FORMATS.includes(history as PromptTemplate['history'])) {
+    throw new Error(`"history" must be one of ${HISTORY_FORMATS.join(', ')}, got ${JSON.stringify(history)}`);
+  }
+
+  // Block scalars of YAML files end with a newline that is not part of the prompt
+  const template = { system: system.trimEnd(), user: user.trimEnd(), history: history as PromptTemplate['history'] };
+  for (const [name, text] of [
+    ['system', template.system],
+    ['user', template.user],
+  ]) {
+    const error = checkPlaceholders(text);
+    if (error) {
+      throw new Error(`"${name}" ${error}`);
+    }
+  }
+  return template;
+}
+
+/**
+ * Load a template from a YAML or JSON file
+ */
+export function loadTemplateFile(file: string): PromptTemplate {
+  const content = fs.readFileSync(file, 'utf8');
+  const value = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+  return parseTemplate(value);
+}
+
+function checkPlaceholders(text: string): string | undefined {
+  const names = [...text.matchAll(SECTION)].map((match) => match[2]);
+  const rest = text.replace(SECTION, (_, _kind, _name, inner) => inner);
+  names.push(...[...rest.matchAll(VARIABLE)].map((match) => match[1]));
+
+  const unknown = names.find((name) => !VARIABLES.includes(name));
+  if (unknown) {
+    return `uses unknown variable "${unknown}" (expected ${VARIABLES.join(', ')})`;
+  }
+  if (/\{\{[#^/]/.test(rest.replace(VARIABLE, ''))) {
+    return 'has an unclosed or nested section';
+  }
+  return undefined;
+}
+
+/**
+ * Render sections, then variables in a single pass so that values are never
+ * interpreted as placeholders themselves
+ */
+function render(text: string, variables: Record<string, string>): string {
+  const expanded = text.replace(SECTION, (_, kind, name, inner) =>
+    Boolean(variables[name]) === (kind === '#') ? inner : ''
+  );
+  return expanded.replace(VARIABLE, (_, name) => variables[name] ?? '');
+}
+
+function formatHistory(messages: Message[], format: PromptTemplate['history']): string {
+  if (messages.length === 0) {
+    return '';
+  }
+  switch (format) {
+    case 'json':
+      return JSON.stringify(messages, null, 2);
+    case 'transcript':
+      return messages.map((message) => `${roleLabel(message.role)}: ${messageText(message)}`).join('\n\n');
+    case 'xml':
+      return messages
+        .map((message) => `<message role="${message.role}">${escapeXml(messageText(message))}</message>`)
+        .join('\n');
+  }
+}
+
+function roleLabel(role: Message['role']): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+/**
+ * Text of a message, with its tool calls for assistant messages that made some
+ */
+function messageText(message: Message): string {
+  const text = contentText(message.content);
+  if (!message.tool_calls) {
+    return text;
+  }
+  const calls = message.tool_calls.map((call) => `${call.function.name}(${call.function.arguments})`).join(', ');
+  return text ? `${text}\n[Tool calls: ${calls}]` : `[Tool calls: ${calls}]`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
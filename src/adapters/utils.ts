@@ -0,0 +1,175 @@
+import { ChildProcess, execFile as execFileCb } from 'child_process';
+import stripAnsi from 'strip-ansi';
+import { CancelledError } from './errors';
+
+/**
+ * Options for a buffered, non-interactive CLI invocation
+ */
+export interface ExecCliOptions {
+  cwd: string;
+  timeout: number;
+  /** Written to the child's stdin, which is then closed */
+  input: string;
+  /** Extra environment variables, merged over the current process environment */
+  env?: NodeJS.ProcessEnv;
+  /** Kills the process tree when aborted; the call then rejects with CancelledError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a CLI command to completion, passing the prompt via stdin
+ *
+ * Using stdin avoids any quoting ambiguity and argument length limits.
+ * On failure the rejected error carries the captured `stdout` and `stderr`; timeouts
+ * kill the process tree and surface as `killed: true` with `signal: 'SIGTERM'`,
+ * like the timeouts of execFile (see isTimeoutError()).
+ */
+export function execCli(
+  command: string,
+  args: string[],
+  options: ExecCliOptions
+): Promise<{ stdout: string; stderr: string }> {
+  // The timeout is enforced here rather than by execFile, which only kills the child itself
+  const execOpts = {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env },
+    maxBuffer: 10 * 1024 * 1024, // 10MB
+  } as const;
+
+  return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return reject(new CancelledError());
+    }
+
+    let timedOut = false;
+    const timer =
+      options.timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            killProcessTree(child);
+          }, options.timeout)
+        : undefined;
+    const cancel = () => killProcessTree(child);
+    const child = execFileCb(command, args, execOpts as any, (err, stdout, stderr) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      // Killed processes may still exit cleanly, e.g. a shell whose children were killed
+      if (signal?.aborted) {
+        reject(new CancelledError());
+      } else if (err || timedOut) {
+        const error: any = err || new Error(`Command timed out: ${command}`);
+        if (timedOut) {
+          Object.assign(error, { killed: true, signal: 'SIGTERM' });
+        }
+        error.stdout = stdout;
+        error.stderr = stderr;
+        reject(error);
+      } else {
+        resolve({ stdout: stdout as any, stderr: stderr as any });
+      }
+    });
+
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    if (child && child.stdin) {
+      child.stdin.write(options.input);
+      child.stdin.end();
+    }
+  });
+}
+
+/**
+ * Terminate a child process and the processes it started
+ *
+ * CLIs such as Claude Code run their own subprocesses, which would outlive a
+ * killed parent. The descendants are looked up before anything is killed, as
+ * they are re-parented once their parent exits.
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  const { pid } = child;
+  if (!pid) {
+    child.kill(signal);
+    return;
+  }
+  if (process.platform === 'win32') {
+    execFileCb('taskkill', ['/pid', String(pid), '/T', '/F'], () => undefined);
+    return;
+  }
+
+  execFileCb('ps', ['-A', '-o', 'pid=,ppid='], (error, stdout) => {
+    const pids = error ? [] : descendantPids(pid, String(stdout));
+    // The root goes first, so that it does not exit normally once its children are gone
+    for (const target of [pid, ...pids]) {
+      try {
+        process.kill(target, signal);
+      } catch {
+        // Already exited
+      }
+    }
+  });
+}
+
+/**
+ * Descendants of a process, from `ps -o pid=,ppid=` output
+ */
+function descendantPids(root: number, psOutput: string): number[] {
+  const children = new Map<number, number[]>();
+  for (const line of psOutput.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+    if (pid && ppid !== undefined) {
+      children.set(ppid, [...(children.get(ppid) || []), pid]);
+    }
+  }
+
+  const found: number[] = [];
+  const pending = [root];
+  while (pending.length > 0) {
+    for (const pid of children.get(pending.pop()!) || []) {
+      found.push(pid);
+      pending.push(pid);
+    }
+  }
+  return found;
+}
+
+/**
+ * Whether an execFile error was caused by the timeout killing the process
+ */
+export function isTimeoutError(error: any): boolean {
+  return Boolean(error && error.killed && error.signal === 'SIGTERM');
+}
+
+/**
+ * Clean output from a CLI tool
+ * Removes:
+ * - ANSI color codes
+ * - Progress indicators
+ * - Extra whitespace
+ */
+export function cleanOutput(stdout: string): string {
+  let cleaned = stripAnsi(stdout);
+
+  // Remove common progress indicators
+  cleaned = cleaned.replace(/^.*\r/gm, ''); // Remove lines ending with \r (carriage return)
+  cleaned = cleaned.replace(/^\s*[\[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏\]]/gm, ''); // Remove spinner characters
+
+  // Trim and normalize whitespace
+  cleaned = cleaned.trim();
+
+  return cleaned;
+}
+
+/**
+ * Summarize long prompts in debug logs to keep output readable
+ */
+export function summarize(text: string, max = 80): string {
+  if (!text) return '';
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? clean.slice(0, max) + '…' : clean;
+}
+
+export function quote(s: string): string {
+  // Use JSON stringify to show quotes safely in logs
+  return JSON.stringify(s);
+}
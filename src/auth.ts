@@ -0,0 +1,111 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * An API key and the policy applied to requests made with it
+ */
+export interface ApiKeyPolicy {
+  key: string;
+  /** Label used in logs; the key itself is never logged */
+  name?: string;
+  /** Model ids this key may use; all models when omitted */
+  models?: string[];
+  /** Maximum requests per minute; unlimited when omitted */
+  rateLimit?: number;
+  /** Browser origins allowed to use this key; any origin when omitted */
+  corsOrigins?: string[];
+}
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the next request is allowed, when rejected */
+  retryAfter?: number;
+}
+
+const RATE_LIMIT_WINDOW = 60000;
+
+/**
+ * Bearer token authentication against a configured key list
+ */
+export class ApiKeyAuth {
+  private policies: ApiKeyPolicy[];
+  /** Request timestamps within the current window, per key */
+  private requests = new Map<string, number[]>();
+
+  constructor(policies: ApiKeyPolicy[]) {
+    if (policies.length === 0) {
+      throw new Error('At least one API key is required');
+    }
+    this.policies = policies;
+  }
+
+  /**
+   * Find the policy for an `Authorization` header value
+   * Returns undefined for a missing, malformed or unknown key
+   */
+  authenticate(header: string | undefined): ApiKeyPolicy | undefined {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(header || '');
+    if (!match) {
+      return undefined;
+    }
+    const key = Buffer.from(match[1]);
+    return this.policies.find((policy) => {
+      const candidate = Buffer.from(policy.key);
+      return candidate.length === key.length && timingSafeEqual(candidate, key);
+    });
+  }
+
+  /**
+   * Whether a key may use a model
+   */
+  allowsModel(policy: ApiKeyPolicy, model: string): boolean {
+    return !policy.models || policy.models.includes(model);
+  }
+
+  /**
+   * Whether a key may be used from a browser origin
+   */
+  allowsOrigin(policy: ApiKeyPolicy, origin: string): boolean {
+    return !policy.corsOrigins || policy.corsOrigins.includes('*') || policy.corsOrigins.includes(origin);
+  }
+
+  /**
+   * Whether any key may be used from a browser origin
+   * Preflight requests carry no credentials, so they are checked against all keys
+   */
+  allowsOriginForAnyKey(origin: string): boolean {
+    return this.policies.some((policy) => this.allowsOrigin(policy, origin));
+  }
+
+  /**
+   * Count a request against the key's rate limit (sliding one-minute window)
+   */
+  checkRateLimit(policy: ApiKeyPolicy): RateLimitResult {
+    if (!policy.rateLimit) {
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+    const recent = (this.requests.get(policy.key) || []).filter((time) => time > now - RATE_LIMIT_WINDOW);
+    if (recent.length >= policy.rateLimit) {
+      this.requests.set(policy.key, recent);
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((recent[0] + RATE_LIMIT_WINDOW - now) / 1000)) };
+    }
+
+    recent.push(now);
+    this.requests.set(policy.key, recent);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Mask a key for error messages, keeping only its start and end
+ */
+export function maskApiKey(key: string): string {
+  if (key.length <= 8) {
+    return '*'.repeat(key.length);
+  }
+  return `${key.slice(0, 3)}${'*'.repeat(Math.min(key.length - 7, 20))}${key.slice(-4)}`;
+}
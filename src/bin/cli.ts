@@ -2,55 +2,171 @@
 
 import { createServer } from '../server';
 import { AdapterFactory } from '../adapters/factory';
-import { loadConfig, loadServerConfig } from '../config';
+import { AdapterRegistry } from '../adapters/registry';
+import { ConfigError, Settings, loadSettings } from '../config';
+import { ConcurrencyLimiter } from '../queue';
+import { DiskCacheStore, MemoryCacheStore, ResponseCache } from '../cache';
+import { ApiKeyAuth } from '../auth';
+import { logger } from '../logger';
+import {
+  USAGE,
+  UsageError,
+  parseCommandLine,
+  readStdin,
+  readVersion,
+  runChat,
+  runCheck,
+  runModels,
+} from '../commands';
 
 async function main() {
-  console.log('🚀 CLI Agent OpenAI Adapter');
-  console.log('==============================\n');
-
-  // Load configuration
-  const config = loadConfig();
-  const serverConfig = loadServerConfig();
+  let commandLine;
+  try {
+    commandLine = parseCommandLine(process.argv.slice(2));
+  } catch (error: any) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`❌ ${error.message}\n`);
+    console.error(USAGE);
+    process.exit(2);
+  }
 
-  console.log('Configuration:');
-  console.log(`  Adapter: ${config.type}`);
-  console.log(`  Runtime: ${config.runtimeDir}`);
-  console.log(`  Timeout: ${config.timeout}ms`);
-  console.log(`  Debug: ${config.debug}`);
-  console.log(`  Server: http://${serverConfig.host}:${serverConfig.port}\n`);
+  if (commandLine.command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+  if (commandLine.command === 'version') {
+    console.log(readVersion());
+    return;
+  }
 
-  // Create adapter
-  let adapter;
+  // Load configuration (--config <file> takes precedence over CONFIG_FILE)
+  const configFile = commandLine.configFile || process.env.CONFIG_FILE;
+  let settings;
   try {
-    adapter = AdapterFactory.create(config);
+    settings = loadSettings(configFile, commandLine.overrides);
   } catch (error: any) {
-    console.error(`❌ Failed to create adapter: ${error.message}`);
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(`❌ ${error.message}`);
     process.exit(1);
   }
+  logger.configure({ level: settings.server.logLevel, capturePayloads: settings.server.logPayloads });
 
-  // Check if adapter is available (allow bypass via env for demos)
-  const isAvailable = await adapter.isAvailable();
-  if (!isAvailable) {
-    if (process.env.ALLOW_START_WITHOUT_CLI === 'true') {
-      console.warn(`⚠️  ${adapter.getName()} not found. Starting server anyway (ALLOW_START_WITHOUT_CLI=true).`);
+  switch (commandLine.command) {
+    case 'check':
+      process.exitCode = (await runCheck(settings.adapters)) ? 0 : 1;
+      return;
+    case 'models':
+      runModels(createRegistry(settings));
+      return;
+    case 'chat': {
+      const prompt = commandLine.prompt || (await readStdin()).trim();
+      if (!prompt) {
+        console.error('❌ No prompt given: pass it as an argument or pipe it to stdin');
+        process.exit(2);
+      }
+      try {
+        await runChat(createRegistry(settings).getDefault(), prompt, commandLine.system);
+      } catch (error: any) {
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+      }
+      return;
+    }
+    case 'serve':
+      await serve(settings, configFile);
+      return;
+  }
+}
+
+/**
+ * Start the HTTP server
+ */
+async function serve(settings: Settings, configFile: string | undefined) {
+  const { adapters: configs, server: serverConfig } = settings;
+
+  console.log('🚀 CLI Agent OpenAI Adapter');
+  console.log('==============================\n');
+
+  console.log(`Configuration:${configFile ? ` ${configFile}` : ''}`);
+  for (const config of configs) {
+    console.log(`  Adapter: ${config.type}`);
+    console.log(`    Runtime: ${config.runtimeDir}`);
+    console.log(`    Model: ${config.model || '(CLI default)'}`);
+    console.log(`    Timeout: ${config.timeout}ms`);
+  }
+  console.log(`  Log level: ${serverConfig.logPayloads ? 'debug (with payloads)' : serverConfig.logLevel}`);
+  if (configs[0].fixtures) {
+    console.log(`  Fixtures: ${configs[0].fixtures.mode} (${configs[0].fixtures.file})`);
+  }
+  console.log(`  Concurrency: ${serverConfig.maxConcurrency} (queue: ${serverConfig.maxQueueSize}, wait: ${serverConfig.queueTimeout}ms)`);
+  console.log(`  Cache: ${serverConfig.cache}${serverConfig.cache === 'disk' ? ` (${serverConfig.cacheDir})` : ''}`);
+  console.log(`  Auth: ${serverConfig.apiKeys.length > 0 ? `${serverConfig.apiKeys.length} API key(s)` : 'disabled'}`);
+  console.log(`  Server: http://${serverConfig.host}:${serverConfig.port}\n`);
+
+  const registry = createRegistry(settings);
+
+  // Check if each CLI is available (allow bypass via env for demos)
+  const checked = new Set<string>();
+  for (const adapter of registry.getAdapters()) {
+    if (checked.has(adapter.getName())) continue;
+    checked.add(adapter.getName());
+
+    const isAvailable = await adapter.isAvailable();
+    if (!isAvailable) {
+      if (process.env.ALLOW_START_WITHOUT_CLI === 'true') {
+        console.warn(`⚠️  ${adapter.getName()} not found. Starting server anyway (ALLOW_START_WITHOUT_CLI=true).`);
+      } else {
+        console.error(`❌ ${adapter.getName()} is not available`);
+        console.error('   Please make sure the CLI tool is installed and accessible in PATH');
+        process.exit(1);
+      }
     } else {
-      console.error(`❌ ${adapter.getName()} is not available`);
-      console.error('   Please make sure the CLI tool is installed and accessible in PATH');
-      process.exit(1);
+      console.log(`✅ ${adapter.getName()} is available`);
     }
-  } else {
-    console.log(`✅ ${adapter.getName()} is available\n`);
   }
 
+  console.log('\nModels:');
+  for (const model of registry.listModels()) {
+    console.log(`  ${model}`);
+  }
+  console.log('');
+
   // Create and start server
-  const app = createServer(adapter);
+  const limiter = new ConcurrencyLimiter({
+    maxConcurrency: serverConfig.maxConcurrency,
+    maxQueueSize: serverConfig.maxQueueSize,
+    queueTimeout: serverConfig.queueTimeout,
+  });
+  let cache: ResponseCache | undefined;
+  if (serverConfig.cache === 'memory') {
+    cache = new ResponseCache(new MemoryCacheStore(serverConfig.cacheMaxEntries, serverConfig.cacheTtl));
+  } else if (serverConfig.cache === 'disk') {
+    cache = new ResponseCache(new DiskCacheStore(serverConfig.cacheDir, serverConfig.cacheTtl));
+  }
+  const auth = serverConfig.apiKeys.length > 0 ? new ApiKeyAuth(serverConfig.apiKeys) : undefined;
+  if (!auth && serverConfig.host !== 'localhost' && serverConfig.host !== '127.0.0.1') {
+    console.warn(`⚠️  Listening on ${serverConfig.host} without API keys: anyone on the network can use this server.`);
+    console.warn('   Set API_KEYS or API_KEYS_FILE to require authentication.');
+  }
+  const app = createServer(registry, {
+    limiter,
+    cache,
+    auth,
+    unsupportedParameters: serverConfig.unsupportedParameters,
+    imageDir: serverConfig.imageDir,
+    bodyLimit: serverConfig.bodyLimit,
+  });
 
   app.listen(serverConfig.port, serverConfig.host, () => {
     console.log(`✅ Server is running at http://${serverConfig.host}:${serverConfig.port}`);
     console.log('\nEndpoints:');
     console.log(`  POST http://${serverConfig.host}:${serverConfig.port}/v1/chat/completions`);
+    console.log(`  POST http://${serverConfig.host}:${serverConfig.port}/v1/responses`);
+    console.log(`  POST http://${serverConfig.host}:${serverConfig.port}/v1/messages`);
+    console.log(`  POST http://${serverConfig.host}:${serverConfig.port}/v1/completions`);
     console.log(`  GET  http://${serverConfig.host}:${serverConfig.port}/v1/models`);
     console.log(`  GET  http://${serverConfig.host}:${serverConfig.port}/health`);
+    console.log(`  GET  http://${serverConfig.host}:${serverConfig.port}/metrics`);
     console.log('\nPress Ctrl+C to stop the server');
   });
 
@@ -66,6 +182,18 @@ async function main() {
   });
 }
 
+/**
+ * Create the adapters, exiting when one cannot be created
+ */
+function createRegistry(settings: Settings): AdapterRegistry {
+  try {
+    return AdapterFactory.createRegistry(settings.adapters);
+  } catch (error: any) {
+    console.error(`❌ Failed to create adapter: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 main().catch((error) => {
   console.error('Fatal error:', error);
   process.exit(1);
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CLIAdapter } from './adapters/base';
+import { ChatCompletionRequest, ExecutionResult, Message } from './types';
+
+/**
+ * Storage backend for cached execution results
+ */
+export interface CacheStore {
+  get(key: string): Promise<ExecutionResult | undefined>;
+  set(key: string, result: ExecutionResult): Promise<void>;
+}
+
+interface CacheEntry {
+  /** Expiry as epoch milliseconds; 0 never expires */
+  expiresAt: number;
+  result: ExecutionResult;
+}
+
+/**
+ * In-memory LRU store
+ * `ttl` is in milliseconds; 0 keeps entries until they are evicted
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private maxEntries: number,
+    private ttl: number
+  ) {
+    if (!(maxEntries >= 1)) {
+      throw new Error(`maxEntries must be at least 1, got ${maxEntries}`);
+    }
+  }
+
+  async get(key: string): Promise<ExecutionResult | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.result;
+  }
+
+  async set(key: string, result: ExecutionResult): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: expiryFor(this.ttl), result });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * On-disk store with one JSON file per entry
+ * Survives restarts, so repeated test runs can share a cache directory
+ */
+export class DiskCacheStore implements CacheStore {
+  constructor(
+    private directory: string,
+    private ttl: number
+  ) {}
+
+  async get(key: string): Promise<ExecutionResult | undefined> {
+    const file = this.fileFor(key);
+
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return undefined;
+    }
+
+    if (isExpired(entry)) {
+      await fs.promises.rm(file, { force: true });
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  async set(key: string, result: ExecutionResult): Promise<void> {
+    const file = this.fileFor(key);
+    const entry: CacheEntry = { expiresAt: expiryFor(this.ttl), result };
+
+    // Write to a temporary file first so readers never see a partial entry
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+    await fs.promises.rename(tempFile, file);
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Response cache in front of adapter executions
+ *
+ * Entries are keyed on the adapter, requested model, the messages sent to the
+ * CLI, the sampling parameters and the output limits. Only successful
+ * executions are stored.
+ */
+export class ResponseCache {
+  constructor(private store: CacheStore) {}
+
+  /**
+   * Build the cache key for a request
+   * `messages` are the messages as sent to the adapter, after tool and format instructions were added,
+   * and `template` the prompt template selected by the request
+   */
+  key(adapter: CLIAdapter, request: ChatCompletionRequest, messages: Message[], template?: string): string {
+    const normalized = {
+      adapter: adapter.getName(),
+      adapterModel: adapter.getModelName(),
+      model: request.model ?? null,
+      messages,
+      template: template ?? null,
+      temperature: request.temperature ?? null,
+      top_p: request.top_p ?? null,
+      max_tokens: request.max_tokens ?? null,
+      max_completion_tokens: request.max_completion_tokens ?? null,
+      stop: request.stop ?? null,
+      tools: request.tools ?? null,
+      tool_choice: request.tool_choice ?? null,
+      response_format: request.response_format ?? null,
+    };
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  get(key: string): Promise<ExecutionResult | undefined> {
+    return this.store.get(key);
+  }
+
+  set(key: string, result: ExecutionResult): Promise<void> {
+    return this.store.set(key, result);
+  }
+}
+
+function expiryFor(ttl: number): number {
+  return ttl > 0 ? Date.now() + ttl : 0;
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt > 0 && entry.expiresAt <= Date.now();
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { CLIAdapter } from './adapters/base';
+import { AdapterFactory } from './adapters/factory';
+import { AdapterRegistry } from './adapters/registry';
+import { ConfigOverrides } from './config';
+import { AdapterConfig, Message } from './types';
+
+/**
+ * Command-line interface: argument parsing and the non-server subcommands
+ */
+
+export type CommandName = 'serve' | 'check' | 'models' | 'chat' | 'help' | 'version';
+
+export interface CommandLine {
+  command: CommandName;
+  /** Config file given with --config */
+  configFile?: string;
+  overrides: ConfigOverrides;
+  /** Prompt of the chat command; read from stdin when empty */
+  prompt: string;
+  /** System prompt of the chat command */
+  system?: string;
+}
+
+/**
+ * Invalid command-line arguments
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Minimal output stream, so commands can be run against a buffer in tests
+ */
+export interface Output {
+  write(text: string): unknown;
+}
+
+const COMMANDS: CommandName[] = ['serve', 'check', 'models', 'chat'];
+
+export const USAGE = `Usage: cli-agent-openai-adapter [command] [options]
+
+Commands:
+  serve               Start the OpenAI-compatible server (default)
+  check               Check that every configured CLI is available
+  models              List the routable model ids
+  chat [prompt...]    Send a one-shot prompt to the default adapter (reads stdin when no prompt is given)
+
+Options:
+  -c, --config <file>     JSON or YAML config file (env: CONFIG_FILE)
+  -p, --port <port>       Server port (env: PORT)
+  -H, --host <host>       Server host (env: HOST)
+  -a, --adapter <type>    Default adapter: claude-code, codex or gemini-cli (env: ADAPTER_TYPE)
+  -m, --model <model>     CLI model of the default adapter (env: MODEL)
+  -t, --timeout <ms>      CLI timeout in milliseconds (env: TIMEOUT)
+  -s, --system <prompt>   System prompt for the chat command
+  -h, --help              Show this help
+  -v, --version           Show the version
+
+Options take precedence over environment variables, which take precedence over the config file.
+`;
+
+/**
+ * Parse command-line arguments (without the node and script paths)
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        port: { type: 'string', short: 'p' },
+        host: { type: 'string', short: 'H' },
+        adapter: { type: 'string', short: 'a' },
+        model: { type: 'string', short: 'm' },
+        timeout: { type: 'string', short: 't' },
+        system: { type: 'string', short: 's' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const { values, positionals } = parsed;
+  const [first, ...rest] = positionals;
+  if (first !== undefined && !COMMANDS.includes(first as CommandName)) {
+    throw new UsageError(`Unknown command: ${first}`);
+  }
+  const command = (first || 'serve') as CommandName;
+  if (command !== 'chat' && rest.length > 0) {
+    throw new UsageError(`Unexpected argument: ${rest[0]}`);
+  }
+  if (values.system !== undefined && command !== 'chat') {
+    throw new UsageError('--system is only supported by the chat command');
+  }
+
+  return {
+    command: values.help ? 'help' : values.version ? 'version' : command,
+    configFile: values.config,
+    overrides: {
+      port: values.port,
+      host: values.host,
+      adapter: values.adapter,
+      model: values.model,
+      timeout: values.timeout,
+    },
+    prompt: rest.join(' '),
+    system: values.system,
+  };
+}
+
+/**
+ * Version of the package
+ */
+export function readVersion(): string {
+  // Same relative location from src/ and dist/
+  const packageJson = path.join(__dirname, '..', 'package.json');
+  return JSON.parse(fs.readFileSync(packageJson, 'utf8')).version;
+}
+
+/**
+ * Check each configured adapter and print diagnostics
+ * Returns whether every adapter is usable
+ */
+export async function runCheck(configs: AdapterConfig[], output: Output = process.stdout): Promise<boolean> {
+  let ok = true;
+
+  for (const config of configs) {
+    const adapter = AdapterFactory.create(config);
+    const available = await adapter.isAvailable();
+    const runtimeExists = fs.existsSync(config.runtimeDir);
+    ok = ok && available && runtimeExists;
+
+    output.write(`${available && runtimeExists ? '✅' : '❌'} ${config.type}\n`);
+    output.write(`    Model: ${config.model || '(CLI default)'}\n`);
+    output.write(`    Runtime: ${config.runtimeDir}${runtimeExists ? '' : ' (missing)'}\n`);
+    if (config.fixtures) {
+      output.write(`    Fixtures: ${config.fixtures.mode} (${config.fixtures.file})\n`);
+    }
+    if (!available) {
+      output.write('    CLI not found: make sure it is installed and accessible in PATH\n');
+    }
+  }
+
+  return ok;
+}
+
+/**
+ * Print the routable model ids, one per line
+ */
+export function runModels(registry: AdapterRegistry, output: Output = process.stdout): void {
+  for (const model of registry.listModels()) {
+    output.write(`${model}\n`);
+  }
+}
+
+/**
+ * Send a one-shot prompt and print the reply as it is produced
+ */
+export async function runChat(
+  adapter: CLIAdapter,
+  prompt: string,
+  system: string | undefined,
+  output: Output = process.stdout
+): Promise<void> {
+  const messages: Message[] = [];
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  messages.push({ role: 'user', content: prompt });
+
+  let last = '';
+  for await (const chunk of adapter.executeStream(messages)) {
+    output.write(chunk);
+    last = chunk || last;
+  }
+  if (!last.endsWith('\n')) {
+    output.write('\n');
+  }
+}
+
+/**
+ * Read all of stdin, for prompts piped into the chat command
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
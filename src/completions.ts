@@ -0,0 +1,77 @@
+import { randomBytes } from 'crypto';
+import { MAX_CHOICES } from './parameters';
+import { Message } from './types';
+
+/**
+ * Legacy text completions (`/v1/completions`) on top of chat-style CLI agents
+ *
+ * CLIs only answer conversations, so each prompt is sent as a user message
+ * with instructions to continue the text rather than reply to it.
+ */
+
+const CONTINUE_INSTRUCTIONS =
+  'You are a text completion engine. The user message is the beginning of a text. ' +
+  'Reply with the continuation of that text only: do not repeat the text, do not comment on it ' +
+  'and do not wrap the continuation in quotes or code fences.';
+
+/**
+ * Check a completion request; `n` itself is checked by validateParameters()
+ * Each prompt is completed n times by its own CLI execution, so a request may
+ * run at most as many executions as a chat request may have choices.
+ * Returns an error message, or undefined when valid
+ */
+export function validateCompletionRequest(request: any): string | undefined {
+  const { prompt, suffix, n, echo } = request;
+  if (prompt === undefined || prompt === null) {
+    return 'Invalid request: prompt is required';
+  }
+  if (typeof prompt !== 'string') {
+    if (!Array.isArray(prompt) || prompt.length === 0) {
+      return 'Invalid request: prompt must be a string or a non-empty array of strings';
+    }
+    if (prompt.some((item) => typeof item !== 'string')) {
+      return 'Invalid request: token array prompts are not supported, send the prompt as text';
+    }
+  }
+  if (suffix !== undefined && suffix !== null && typeof suffix !== 'string') {
+    return 'Invalid request: suffix must be a string';
+  }
+  const executions = (typeof prompt === 'string' ? 1 : prompt.length) * (Number.isInteger(n) ? n : 1);
+  if (executions > MAX_CHOICES) {
+    return `Invalid request: the prompts times n must not exceed ${MAX_CHOICES} completions, got ${executions}`;
+  }
+  if (echo !== undefined && typeof echo !== 'boolean') {
+    return 'Invalid request: echo must be a boolean';
+  }
+  return undefined;
+}
+
+/**
+ * The prompts of a request, each completed independently
+ */
+export function completionPrompts(prompt: string | string[]): string[] {
+  return typeof prompt === 'string' ? [prompt] : prompt;
+}
+
+/**
+ * Id of a `text_completion` object, e.g. `cmpl-3f9c...`
+ */
+export function completionId(): string {
+  return `cmpl-${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Build the conversation asking the CLI to continue a prompt
+ * With a suffix, the continuation has to lead into it (fill in the middle)
+ */
+export function buildCompletionMessages(prompt: string, suffix?: string | null): Message[] {
+  const instructions = suffix
+    ? `${CONTINUE_INSTRUCTIONS} The text continues with the following suffix after your continuation, ` +
+      `so write only what goes between the text and the suffix, without the suffix itself:\n${suffix}`
+    : CONTINUE_INSTRUCTIONS;
+
+  return [
+    { role: 'system', content: instructions },
+    { role: 'user', content: prompt },
+  ];
+}
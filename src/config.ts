@@ -1,24 +1,75 @@
-import { AdapterConfig } from './types';
+import { AdapterConfig, PromptTemplate, TruncationStrategy } from './types';
+import { ApiKeyPolicy } from './auth';
+import { LogLevel } from './logger';
+import { UnsupportedParameterPolicy } from './parameters';
+import { BUILT_IN_TEMPLATES, loadTemplateFile } from './adapters/templates';
+import fs from 'fs';
 import path from 'path';
+import yaml from 'js-yaml';
 
 /**
- * Load configuration from environment variables or use defaults
+ * Default CLI model per adapter type
+ * Codex falls back to the model configured for the CLI itself
  */
-export function loadConfig(): AdapterConfig {
-  const adapterType = (process.env.ADAPTER_TYPE || 'claude-code') as AdapterConfig['type'];
-  const runtimeDir = process.env.RUNTIME_DIR || path.join(__dirname, '..', 'runtime', 'claude-code');
-  const timeout = parseInt(process.env.TIMEOUT || '30000', 10);
-  const debug = process.env.DEBUG === 'true';
-  const model = process.env.MODEL || 'haiku';
+const DEFAULT_MODELS: Record<AdapterConfig['type'], string | undefined> = {
+  'claude-code': 'haiku',
+  codex: undefined,
+  'gemini-cli': 'flash',
+};
 
-  return {
-    type: adapterType,
-    runtimeDir,
-    timeout,
-    debug,
-    model,
-  };
-}
+/**
+ * CLI models routable as `<type>/<model>` per adapter type by default
+ */
+const DEFAULT_ROUTABLE_MODELS: Record<AdapterConfig['type'], string[]> = {
+  'claude-code': ['haiku', 'sonnet', 'opus'],
+  codex: [],
+  'gemini-cli': ['flash', 'flash-lite', 'pro'],
+};
+
+const ADAPTER_TYPES = Object.keys(DEFAULT_MODELS) as AdapterConfig['type'][];
+const FIXTURE_MODES = ['record', 'replay'] as const;
+const CACHE_BACKENDS = ['off', 'memory', 'disk'] as const;
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const UNSUPPORTED_PARAMETER_POLICIES: UnsupportedParameterPolicy[] = ['warn', 'error'];
+const TRUNCATION_STRATEGIES: TruncationStrategy[] = ['none', 'drop-oldest', 'last-turns', 'summarize'];
+
+const ADAPTER_FIELDS = [
+  'type',
+  'runtimeDir',
+  'timeout',
+  'debug',
+  'model',
+  'models',
+  'fixtures',
+  'sessions',
+  'sessionTtl',
+  'allowShell',
+  'context',
+  'promptTemplate',
+  'promptTemplates',
+  'retries',
+  'retryDelay',
+  'retryMaxDelay',
+  'fallback',
+];
+const SERVER_FIELDS = [
+  'port',
+  'host',
+  'maxConcurrency',
+  'maxQueueSize',
+  'queueTimeout',
+  'cache',
+  'cacheTtl',
+  'cacheMaxEntries',
+  'cacheDir',
+  'apiKeys',
+  'logLevel',
+  'logPayloads',
+  'unsupportedParameters',
+  'imageDir',
+  'bodyLimit',
+];
+const API_KEY_FIELDS = ['key', 'name', 'models', 'rateLimit', 'corsOrigins'];
 
 /**
  * Server configuration
@@ -26,11 +77,754 @@ export function loadConfig(): AdapterConfig {
 export interface ServerConfig {
   port: number;
   host: string;
+  /** Maximum number of CLI processes running at once */
+  maxConcurrency: number;
+  /** Maximum number of requests waiting for a free slot */
+  maxQueueSize: number;
+  /** Maximum time a request waits for a free slot in milliseconds (0 = no limit) */
+  queueTimeout: number;
+  /** Response cache backend */
+  cache: 'off' | 'memory' | 'disk';
+  /** Time a cached response stays valid in milliseconds (0 = no expiry) */
+  cacheTtl: number;
+  /** Maximum number of responses kept by the memory cache */
+  cacheMaxEntries: number;
+  /** Directory of the disk cache */
+  cacheDir: string;
+  /** Accepted API keys and their policy; authentication is disabled when empty */
+  apiKeys: ApiKeyPolicy[];
+  /** Minimum level of log lines */
+  logLevel: LogLevel;
+  /** Log prompts, replies and raw CLI output (DEBUG=true is an alias) */
+  logPayloads: boolean;
+  /** Answer requests using parameters the CLIs cannot honour with a warning, or reject them */
+  unsupportedParameters: UnsupportedParameterPolicy;
+  /** Directory that `file://` image URLs may point into; such URLs are rejected when unset */
+  imageDir?: string;
+  /** Maximum size of a JSON request body in bytes, including base64 images */
+  bodyLimit: number;
+}
+
+/**
+ * Contents of a JSON or YAML config file
+ *
+ * Both sections use the field names of ServerConfig and AdapterConfig, and
+ * every field is optional. Relative paths are resolved against the directory
+ * of the file. Environment variables take precedence over the file.
+ */
+export interface ConfigFile {
+  server?: Partial<ServerConfig>;
+  /** Adapters to serve; the first one is the default unless ADAPTER_TYPE is set */
+  adapters?: Array<Partial<AdapterConfig>>;
+}
+
+/**
+ * Command-line options, taking precedence over environment variables and the config file
+ */
+export interface ConfigOverrides {
+  port?: string;
+  host?: string;
+  /** Type of the default adapter */
+  adapter?: string;
+  /** CLI model of the default adapter */
+  model?: string;
+  timeout?: string;
+}
+
+/**
+ * Environment variable each command-line option overrides
+ */
+const OVERRIDDEN_ENV: Record<keyof ConfigOverrides, string> = {
+  port: 'PORT',
+  host: 'HOST',
+  adapter: 'ADAPTER_TYPE',
+  model: 'MODEL',
+  timeout: 'TIMEOUT',
+};
+
+/**
+ * Complete configuration of the server and its adapters
+ */
+export interface Settings {
+  adapters: AdapterConfig[];
+  server: ServerConfig;
+}
+
+/**
+ * Invalid configuration, listing every invalid field
+ */
+export class ConfigError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Load and validate the configuration of the server and all adapters
+ *
+ * Values come from command-line overrides, then environment variables, then
+ * the config file (CONFIG_FILE unless given), then defaults. Every invalid
+ * value is collected and reported in a single ConfigError.
+ */
+export function loadSettings(configFile = process.env.CONFIG_FILE, overrides: ConfigOverrides = {}): Settings {
+  const reader = new ConfigReader(configFile ? readConfigFile(configFile) : undefined, overrides);
+  const adapters = readAdapterConfigs(reader);
+  const server = readServerConfig(reader);
+  reader.throwIfInvalid();
+  return { adapters, server };
+}
+
+/**
+ * Load the configuration of the default adapter
+ */
+export function loadConfig(configFile = process.env.CONFIG_FILE): AdapterConfig {
+  return loadAdapterConfigs(configFile)[0];
+}
+
+/**
+ * Load configuration for every adapter the server should route to
+ *
+ * The adapter selected by ADAPTER_TYPE (or listed first in the config file)
+ * comes first and serves requests without a model. RUNTIME_DIR, MODEL and
+ * MODELS apply to that adapter only. Further adapters come from the config
+ * file and EXTRA_ADAPTERS (comma-separated types, with their default runtime
+ * directory and models), sharing TIMEOUT, DEBUG and the fixtures settings.
+ */
+export function loadAdapterConfigs(configFile = process.env.CONFIG_FILE): AdapterConfig[] {
+  const reader = new ConfigReader(configFile ? readConfigFile(configFile) : undefined);
+  const adapters = readAdapterConfigs(reader);
+  reader.throwIfInvalid();
+  return adapters;
+}
+
+export function loadServerConfig(configFile = process.env.CONFIG_FILE): ServerConfig {
+  const reader = new ConfigReader(configFile ? readConfigFile(configFile) : undefined);
+  const server = readServerConfig(reader);
+  reader.throwIfInvalid();
+  return server;
+}
+
+/**
+ * Read and parse a config file; `.json` files are parsed as JSON, others as YAML
+ */
+export function loadConfigFile(file: string): ConfigFile {
+  return readConfigFile(file).content as ConfigFile;
+}
+
+interface ParsedConfigFile {
+  path: string;
+  content: Record<string, unknown>;
+}
+
+function readConfigFile(file: string): ParsedConfigFile {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error: any) {
+    throw new ConfigError([`${file}: cannot be read (${error.message})`]);
+  }
+
+  const isJson = path.extname(file).toLowerCase() === '.json';
+  let content: unknown;
+  try {
+    content = isJson ? JSON.parse(text) : yaml.load(text, { filename: file });
+  } catch (error: any) {
+    throw new ConfigError([`${file}: invalid ${isJson ? 'JSON' : 'YAML'} (${error.message})`]);
+  }
+
+  // An empty YAML file holds no settings
+  if (content === undefined || content === null) {
+    return { path: path.resolve(file), content: {} };
+  }
+  if (!isObject(content)) {
+    throw new ConfigError([`${file}: must contain an object with "server" and "adapters" sections`]);
+  }
+  return { path: path.resolve(file), content };
+}
+
+/**
+ * A value that can be set by an environment variable or a config file field
+ */
+interface Setting<T> {
+  /** Environment variable overriding the file */
+  env?: string;
+  /** Path of the field in the config file, e.g. `server.port` */
+  field?: string;
+  /** Value of the field in the config file */
+  value?: unknown;
+  /** Convert a raw value, throwing an Error with the reason when invalid */
+  parse: (value: unknown, fromEnv: boolean) => T;
+}
+
+/**
+ * Reads settings from the environment and the config file, collecting the
+ * errors of invalid values instead of stopping at the first one
+ */
+class ConfigReader {
+  readonly errors: string[] = [];
+
+  constructor(
+    readonly file?: ParsedConfigFile,
+    private overrides: ConfigOverrides = {}
+  ) {
+    if (file) {
+      this.checkFields(file.content, ['server', 'adapters'], '');
+    }
+  }
+
+  /**
+   * Section of the config file, or undefined when absent or invalid
+   */
+  section(name: 'server'): Record<string, unknown> | undefined {
+    const value = this.file?.content[name];
+    if (value === undefined) return undefined;
+    if (!isObject(value)) {
+      this.error(this.fieldLabel(name), 'must be an object');
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Get a setting: the command-line option or environment variable, then the
+   * file value, then the fallback
+   * Invalid values are recorded and replaced by the fallback
+   */
+  get<T>(setting: Setting<T>, fallback: T): T {
+    const option = (Object.keys(OVERRIDDEN_ENV) as (keyof ConfigOverrides)[]).find(
+      (name) => setting.env && OVERRIDDEN_ENV[name] === setting.env && this.overrides[name] !== undefined
+    );
+    // Command-line values are strings, parsed like environment values
+    const envValue = option ? this.overrides[option] : setting.env ? process.env[setting.env] : undefined;
+    const fromEnv = envValue !== undefined && envValue !== '';
+    if (!fromEnv && setting.value === undefined) {
+      return fallback;
+    }
+
+    try {
+      return setting.parse(fromEnv ? envValue : setting.value, fromEnv);
+    } catch (error: any) {
+      const label = option ? `--${option}` : fromEnv ? setting.env! : this.fieldLabel(setting.field!);
+      this.error(label, error.message);
+      return fallback;
+    }
+  }
+
+  /**
+   * Record fields of a file object that are not in the allowed list
+   */
+  checkFields(object: Record<string, unknown>, allowed: string[], prefix: string): void {
+    for (const name of Object.keys(object)) {
+      if (!allowed.includes(name)) {
+        this.error(this.fieldLabel(prefix ? `${prefix}.${name}` : name), 'unknown field');
+      }
+    }
+  }
+
+  /**
+   * Resolve a path from the config file against the file's directory
+   */
+  resolvePath(value: string, fromEnv: boolean): string {
+    return fromEnv || !this.file ? value : path.resolve(path.dirname(this.file.path), value);
+  }
+
+  fieldLabel(field: string): string {
+    return `${this.file?.path}: ${field}`;
+  }
+
+  error(label: string, reason: string): void {
+    const message = `${label}: ${reason}`;
+    // Shared settings such as TIMEOUT are read once per adapter
+    if (!this.errors.includes(message)) {
+      this.errors.push(message);
+    }
+  }
+
+  throwIfInvalid(): void {
+    if (this.errors.length > 0) {
+      throw new ConfigError(this.errors);
+    }
+  }
+}
+
+function readAdapterConfigs(reader: ConfigReader): AdapterConfig[] {
+  const entries = readAdapterEntries(reader);
+
+  const primaryType = reader.get(
+    { env: 'ADAPTER_TYPE', parse: oneOf(ADAPTER_TYPES) },
+    entries[0]?.type || 'claude-code'
+  );
+  const extraTypes = reader.get({ env: 'EXTRA_ADAPTERS', parse: listOf(oneOf(ADAPTER_TYPES)) }, []);
+
+  const ordered = [
+    entries.find((entry) => entry.type === primaryType) || { type: primaryType, field: undefined, value: {} },
+    ...entries.filter((entry) => entry.type !== primaryType),
+  ];
+  for (const type of extraTypes) {
+    if (!ordered.some((entry) => entry.type === type)) {
+      ordered.push({ type, field: undefined, value: {} });
+    }
+  }
+
+  const configs = ordered.map((entry, index) => readAdapterConfig(reader, entry, index === 0));
+  checkFallbacks(reader, configs, ordered);
+  return configs;
+}
+
+/**
+ * Check that fallbacks name models routed to the configured adapters
+ */
+function checkFallbacks(reader: ConfigReader, configs: AdapterConfig[], entries: AdapterEntry[]): void {
+  const modelIds = configs.flatMap((config) => [
+    config.type,
+    ...[config.model, ...(config.models || [])].filter(Boolean).map((model) => `${config.type}/${model}`),
+  ]);
+  configs.forEach((config, index) => {
+    for (const model of config.fallback || []) {
+      if (!modelIds.includes(model)) {
+        const label =
+          index === 0 && process.env.FALLBACK ? 'FALLBACK' : reader.fieldLabel(`${entries[index].field}.fallback`);
+        reader.error(label, `unknown model "${model}" (one of ${[...new Set(modelIds)].join(', ')})`);
+      }
+    }
+  });
 }
 
-export function loadServerConfig(): ServerConfig {
+interface AdapterEntry {
+  type: AdapterConfig['type'];
+  /** Path of the entry in the config file, undefined for adapters only set by the environment */
+  field: string | undefined;
+  value: Record<string, unknown>;
+}
+
+/**
+ * Read the adapters listed in the config file
+ */
+function readAdapterEntries(reader: ConfigReader): AdapterEntry[] {
+  const adapters = reader.file?.content.adapters;
+  if (adapters === undefined) {
+    return [];
+  }
+  if (!Array.isArray(adapters)) {
+    reader.error(reader.fieldLabel('adapters'), 'must be a list of adapters');
+    return [];
+  }
+
+  const entries: AdapterEntry[] = [];
+  adapters.forEach((value, index) => {
+    const field = `adapters[${index}]`;
+    if (!isObject(value)) {
+      reader.error(reader.fieldLabel(field), 'must be an object');
+      return;
+    }
+    reader.checkFields(value, ADAPTER_FIELDS, field);
+
+    if (value.type === undefined) {
+      reader.error(reader.fieldLabel(`${field}.type`), `is required (one of ${ADAPTER_TYPES.join(', ')})`);
+      return;
+    }
+    const type = reader.get({ field: `${field}.type`, value: value.type, parse: oneOf(ADAPTER_TYPES) }, undefined);
+    if (!type) return;
+    if (entries.some((entry) => entry.type === type)) {
+      reader.error(reader.fieldLabel(`${field}.type`), `adapter "${type}" is configured more than once`);
+      return;
+    }
+    entries.push({ type, field, value });
+  });
+  return entries;
+}
+
+function readAdapterConfig(reader: ConfigReader, entry: AdapterEntry, primary: boolean): AdapterConfig {
+  const { type, value } = entry;
+  const field = (name: string) => `${entry.field}.${name}`;
+
+  const fixturesSection = value.fixtures;
+  if (fixturesSection !== undefined && !isObject(fixturesSection)) {
+    reader.error(reader.fieldLabel(field('fixtures')), 'must be an object with "mode" and "file"');
+  }
+  const fixtures = isObject(fixturesSection) ? fixturesSection : {};
+  if (isObject(fixturesSection)) {
+    reader.checkFields(fixturesSection, ['mode', 'file'], field('fixtures'));
+  }
+
+  const fixturesMode = reader.get(
+    { env: 'FIXTURES_MODE', field: field('fixtures.mode'), value: fixtures.mode, parse: oneOf(FIXTURE_MODES) },
+    undefined
+  );
+  const fixturesFile = reader.get(
+    { env: 'FIXTURES_FILE', field: field('fixtures.file'), value: fixtures.file, parse: filePath(reader) },
+    path.join(process.cwd(), 'fixtures', 'recordings.jsonl')
+  );
+
+  // Only Claude Code sessions can be resumed; SESSIONS applies to it alone
+  const sessionsEnv = type === 'claude-code' ? 'SESSIONS' : undefined;
+  const sessions = reader.get(
+    { env: sessionsEnv, field: field('sessions'), value: value.sessions, parse: boolean },
+    false
+  );
+  if (sessions && type !== 'claude-code') {
+    reader.error(reader.fieldLabel(field('sessions')), 'is only supported by the claude-code adapter');
+  }
+  const sessionTtl = reader.get(
+    { env: sessionsEnv && 'SESSION_TTL', field: field('sessionTtl'), value: value.sessionTtl, parse: integer(1) },
+    1800000
+  );
+
+  // The read-only sandbox of Codex still lets its agent run shell commands that read host files,
+  // so it is only served once the operator opts in; CODEX_ALLOW_SHELL applies to it alone
+  const allowShellEnv = type === 'codex' ? 'CODEX_ALLOW_SHELL' : undefined;
+  const allowShell = reader.get(
+    { env: allowShellEnv, field: field('allowShell'), value: value.allowShell, parse: boolean },
+    false
+  );
+  if (allowShell && type !== 'codex') {
+    reader.error(reader.fieldLabel(field('allowShell')), 'is only supported by the codex adapter');
+  }
+  if (!allowShell && type === 'codex') {
+    const label = entry.field ? reader.fieldLabel(field('allowShell')) : 'CODEX_ALLOW_SHELL';
+    reader.error(label, 'must be true to serve codex, whose agent can run shell commands that read any file on the host');
+  }
+
+  const context = readContextConfig(reader, value.context, field('context'));
+  const promptTemplates = readPromptTemplates(reader, value.promptTemplates, field('promptTemplates'));
+  const promptTemplate = reader.get(
+    { env: 'PROMPT_TEMPLATE', field: field('promptTemplate'), value: value.promptTemplate, parse: nonEmptyString },
+    undefined
+  );
+  if (promptTemplate && !(promptTemplate in BUILT_IN_TEMPLATES) && !(promptTemplate in promptTemplates)) {
+    const names = [...Object.keys(BUILT_IN_TEMPLATES), ...Object.keys(promptTemplates)];
+    const label = process.env.PROMPT_TEMPLATE ? 'PROMPT_TEMPLATE' : reader.fieldLabel(field('promptTemplate'));
+    reader.error(label, `unknown prompt template "${promptTemplate}" (one of ${names.join(', ')})`);
+  }
+
+  const retries = reader.get(
+    { env: 'RETRIES', field: field('retries'), value: value.retries, parse: integer(0) },
+    0
+  );
+  const retryDelay = reader.get(
+    { env: 'RETRY_DELAY', field: field('retryDelay'), value: value.retryDelay, parse: integer(0) },
+    1000
+  );
+  const retryMaxDelay = reader.get(
+    { env: 'RETRY_MAX_DELAY', field: field('retryMaxDelay'), value: value.retryMaxDelay, parse: integer(0) },
+    30000
+  );
+  const fallback = reader.get(
+    { env: primary ? 'FALLBACK' : undefined, field: field('fallback'), value: value.fallback, parse: listOf(nonEmptyString) },
+    []
+  );
+
   return {
-    port: parseInt(process.env.PORT || '8000', 10),
-    host: process.env.HOST || 'localhost',
+    type,
+    runtimeDir: reader.get(
+      { env: primary ? 'RUNTIME_DIR' : undefined, field: field('runtimeDir'), value: value.runtimeDir, parse: filePath(reader) },
+      path.join(__dirname, '..', 'runtime', type)
+    ),
+    timeout: reader.get(
+      { env: 'TIMEOUT', field: field('timeout'), value: value.timeout, parse: integer(1) },
+      30000
+    ),
+    // Raw CLI invocations are logged whenever payloads are
+    debug: readPayloadLogging(reader, { field: field('debug'), value: value.debug, parse: boolean }),
+    model: reader.get(
+      { env: primary ? 'MODEL' : undefined, field: field('model'), value: value.model, parse: nonEmptyString },
+      DEFAULT_MODELS[type]
+    ),
+    models: reader.get(
+      { env: primary ? 'MODELS' : undefined, field: field('models'), value: value.models, parse: listOf(nonEmptyString) },
+      DEFAULT_ROUTABLE_MODELS[type] || []
+    ),
+    ...(fixturesMode && { fixtures: { mode: fixturesMode, file: fixturesFile } }),
+    ...(sessions && type === 'claude-code' && { sessions: { ttl: sessionTtl } }),
+    ...(allowShell && type === 'codex' && { allowShell }),
+    ...(context && { context }),
+    ...(promptTemplate && { promptTemplate }),
+    ...(Object.keys(promptTemplates).length > 0 && { promptTemplates }),
+    ...(retries > 0 && { retry: { retries, delay: retryDelay, maxDelay: retryMaxDelay } }),
+    ...(fallback.length > 0 && { fallback }),
   };
 }
+
+/**
+ * Prompt templates loaded from files: PROMPT_TEMPLATES lists files for every
+ * adapter, named after the file without its extension; the config file maps
+ * names to files
+ */
+function readPromptTemplates(reader: ConfigReader, value: unknown, field: string): Record<string, PromptTemplate> {
+  const files: Record<string, string> = {};
+  const fromEnv = Boolean(process.env.PROMPT_TEMPLATES);
+  if (fromEnv) {
+    for (const file of parseList(process.env.PROMPT_TEMPLATES!)) {
+      files[path.basename(file, path.extname(file))] = file;
+    }
+  } else if (value !== undefined) {
+    const mapped = reader.get({ field, value, parse: recordOf(filePath(reader)) }, {});
+    Object.assign(files, mapped);
+  }
+
+  const templates: Record<string, PromptTemplate> = {};
+  for (const [name, file] of Object.entries(files)) {
+    try {
+      templates[name] = loadTemplateFile(file);
+    } catch (error: any) {
+      const label = fromEnv ? `PROMPT_TEMPLATES: ${file}` : reader.fieldLabel(`${field}.${name}`);
+      reader.error(label, error.code === 'ENOENT' ? 'cannot be read' : error.message);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Context budget settings, shared by every adapter when set in the environment
+ * Returns undefined when no budget is set
+ */
+function readContextConfig(reader: ConfigReader, section: unknown, field: string): AdapterConfig['context'] {
+  if (section !== undefined && !isObject(section)) {
+    reader.error(reader.fieldLabel(field), 'must be an object');
+  }
+  const context = isObject(section) ? section : {};
+  if (isObject(section)) {
+    reader.checkFields(section, ['maxTokens', 'models', 'strategy', 'lastTurns'], field);
+  }
+
+  const maxTokens = reader.get(
+    { env: 'CONTEXT_MAX_TOKENS', field: `${field}.maxTokens`, value: context.maxTokens, parse: integer(1) },
+    undefined
+  );
+  const models = reader.get(
+    { field: `${field}.models`, value: context.models, parse: recordOf(integer(1)) },
+    undefined
+  );
+  const strategy = reader.get(
+    {
+      env: 'CONTEXT_STRATEGY',
+      field: `${field}.strategy`,
+      value: context.strategy,
+      parse: oneOf(TRUNCATION_STRATEGIES),
+    },
+    'none'
+  );
+  const lastTurns = reader.get(
+    { env: 'CONTEXT_LAST_TURNS', field: `${field}.lastTurns`, value: context.lastTurns, parse: integer(1) },
+    10
+  );
+
+  if (maxTokens === undefined && models === undefined) {
+    return undefined;
+  }
+  return { ...(maxTokens !== undefined && { maxTokens }), ...(models && { models }), strategy, lastTurns };
+}
+
+function readServerConfig(reader: ConfigReader): ServerConfig {
+  const server = reader.section('server') || {};
+  reader.checkFields(server, SERVER_FIELDS, 'server');
+  const setting = <T>(env: string, name: string, parse: Setting<T>['parse']): Setting<T> => ({
+    env,
+    field: `server.${name}`,
+    value: server[name],
+    parse,
+  });
+
+  return {
+    port: reader.get(setting('PORT', 'port', integer(0, 65535)), 8000),
+    host: reader.get(setting('HOST', 'host', nonEmptyString), 'localhost'),
+    maxConcurrency: reader.get(setting('MAX_CONCURRENCY', 'maxConcurrency', integer(1)), 4),
+    maxQueueSize: reader.get(setting('MAX_QUEUE_SIZE', 'maxQueueSize', integer(0)), 100),
+    queueTimeout: reader.get(setting('QUEUE_TIMEOUT', 'queueTimeout', integer(0)), 60000),
+    cache: reader.get(setting('CACHE', 'cache', oneOf(CACHE_BACKENDS)), 'off'),
+    cacheTtl: reader.get(setting('CACHE_TTL', 'cacheTtl', integer(0)), 3600000),
+    cacheMaxEntries: reader.get(setting('CACHE_MAX_ENTRIES', 'cacheMaxEntries', integer(1)), 1000),
+    cacheDir: reader.get(
+      setting('CACHE_DIR', 'cacheDir', filePath(reader)),
+      path.join(process.cwd(), '.cache', 'responses')
+    ),
+    apiKeys: readApiKeys(reader, server.apiKeys),
+    logLevel: reader.get(setting('LOG_LEVEL', 'logLevel', oneOf(LOG_LEVELS)), 'info'),
+    logPayloads: readPayloadLogging(reader, { field: 'server.logPayloads', value: server.logPayloads, parse: boolean }),
+    unsupportedParameters: reader.get(
+      setting('UNSUPPORTED_PARAMETERS', 'unsupportedParameters', oneOf(UNSUPPORTED_PARAMETER_POLICIES)),
+      'warn'
+    ),
+    imageDir: reader.get<string | undefined>(setting('IMAGE_DIR', 'imageDir', filePath(reader)), undefined),
+    bodyLimit: reader.get(setting('BODY_LIMIT', 'bodyLimit', byteSize), 20 * 1024 ** 2),
+  };
+}
+
+/**
+ * Whether payloads are logged: LOG_PAYLOADS or its alias DEBUG, then the file value
+ */
+function readPayloadLogging(reader: ConfigReader, setting: Setting<boolean>): boolean {
+  if (process.env.LOG_PAYLOADS || process.env.DEBUG) {
+    return process.env.LOG_PAYLOADS === 'true' || process.env.DEBUG === 'true';
+  }
+  return reader.get(setting, false);
+}
+
+/**
+ * Load API keys from API_KEYS (comma-separated, no restrictions) and
+ * API_KEYS_FILE (JSON array of key policies), which replace the keys of the
+ * config file when set
+ */
+function readApiKeys(reader: ConfigReader, fileValue: unknown): ApiKeyPolicy[] {
+  const keysFile = process.env.API_KEYS_FILE;
+  if (!process.env.API_KEYS && !keysFile) {
+    return fileValue === undefined ? [] : readApiKeyPolicies(reader, fileValue, reader.fieldLabel('server.apiKeys'));
+  }
+
+  const keys: ApiKeyPolicy[] = parseList(process.env.API_KEYS || '').map((key) => ({ key }));
+  if (keysFile) {
+    let policies: unknown;
+    try {
+      policies = JSON.parse(fs.readFileSync(keysFile, 'utf8'));
+    } catch (error: any) {
+      reader.error(`API_KEYS_FILE (${keysFile})`, `cannot be read as JSON (${error.message})`);
+      return keys;
+    }
+    keys.push(...readApiKeyPolicies(reader, policies, keysFile));
+  }
+  return keys;
+}
+
+function readApiKeyPolicies(reader: ConfigReader, value: unknown, label: string): ApiKeyPolicy[] {
+  if (!Array.isArray(value)) {
+    reader.error(label, 'must be an array of API key policies');
+    return [];
+  }
+
+  const policies: ApiKeyPolicy[] = [];
+  value.forEach((policy, index) => {
+    const at = `${label}[${index}]`;
+    if (!isObject(policy)) {
+      reader.error(at, 'must be an object with a "key" string');
+      return;
+    }
+
+    const errors = reader.errors.length;
+    for (const name of Object.keys(policy)) {
+      if (!API_KEY_FIELDS.includes(name)) reader.error(`${at}.${name}`, 'unknown field');
+    }
+    const check = (name: string, parse: (value: unknown) => unknown) => {
+      if (policy[name] === undefined && name !== 'key') return;
+      try {
+        parse(policy[name]);
+      } catch (error: any) {
+        reader.error(`${at}.${name}`, error.message);
+      }
+    };
+    check('key', nonEmptyString);
+    check('name', nonEmptyString);
+    check('models', (models) => listOf(nonEmptyString)(models, false));
+    check('rateLimit', (rateLimit) => integer(1)(rateLimit, false));
+    check('corsOrigins', (origins) => listOf(nonEmptyString)(origins, false));
+
+    if (reader.errors.length === errors) {
+      policies.push(policy as unknown as ApiKeyPolicy);
+    }
+  });
+  return policies;
+}
+
+// Parsers for Setting values. Environment values are always strings.
+
+function integer(min: number, max = Number.MAX_SAFE_INTEGER): (value: unknown, fromEnv: boolean) => number {
+  return (value, fromEnv) => {
+    const number = fromEnv && /^-?\d+$/.test(String(value).trim()) ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      throw new Error(`must be an integer ${range}, got ${JSON.stringify(value)}`);
+    }
+    return number;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): (value: unknown) => T {
+  return (value) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new Error(`must be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+}
+
+const BYTE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * A size in bytes, or a string with a unit such as `512kb` or `20mb`
+ */
+function byteSize(value: unknown): number {
+  const match = typeof value === 'string' ? /^(\d+)\s*(b|kb|mb|gb)?$/i.exec(value.trim()) : null;
+  const size = match ? Number(match[1]) * BYTE_UNITS[(match[2] || 'b').toLowerCase()] : value;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+    throw new Error(`must be a size in bytes, or with a unit such as 512kb or 20mb, got ${JSON.stringify(value)}`);
+  }
+  return size;
+}
+
+function nonEmptyString(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`must be a non-empty string, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function boolean(value: unknown, fromEnv?: boolean): boolean {
+  if (fromEnv && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (typeof value !== 'boolean') {
+    throw new Error(`must be true or false, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * A comma-separated list in the environment, a list in the config file
+ */
+function listOf<T>(parse: (value: unknown, fromEnv: boolean) => T): (value: unknown, fromEnv: boolean) => T[] {
+  return (value, fromEnv) => {
+    const items = fromEnv ? parseList(String(value)) : value;
+    if (!Array.isArray(items)) {
+      throw new Error(`must be a list, got ${JSON.stringify(value)}`);
+    }
+    return items.map((item) => parse(item, fromEnv));
+  };
+}
+
+/**
+ * An object of values keyed by name, only set in the config file
+ */
+function recordOf<T>(parse: (value: unknown, fromEnv: boolean) => T): (value: unknown) => Record<string, T> {
+  return (value) => {
+    if (!isObject(value)) {
+      throw new Error(`must be an object, got ${JSON.stringify(value)}`);
+    }
+    const record: Record<string, T> = {};
+    for (const [name, item] of Object.entries(value)) {
+      try {
+        record[name] = parse(item, false);
+      } catch (error: any) {
+        throw new Error(`${name} ${error.message}`);
+      }
+    }
+    return record;
+  };
+}
+
+function filePath(reader: ConfigReader): (value: unknown, fromEnv: boolean) => string {
+  return (value, fromEnv) => reader.resolvePath(nonEmptyString(value), fromEnv);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
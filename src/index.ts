@@ -5,8 +5,28 @@
  */
 
 export { CLIAdapter } from './adapters/base';
-export { ClaudeCodeAdapter, TimeoutError } from './adapters/claude_code';
+export { ClaudeCodeAdapter } from './adapters/claude_code';
+export { CodexAdapter } from './adapters/codex';
+export { GeminiCliAdapter } from './adapters/gemini_cli';
+export { RecordReplayAdapter, Fixture, FixtureMode } from './adapters/record_replay';
+export { TimeoutError, FixtureNotFoundError } from './adapters/errors';
 export { AdapterFactory } from './adapters/factory';
-export { createServer } from './server';
-export { loadConfig, loadServerConfig } from './config';
+export { AdapterRegistry } from './adapters/registry';
+export { createServer, ServerOptions } from './server';
+export { ServerMetrics, Counter, Gauge, Histogram } from './metrics';
+export { Logger, logger, LogLevel, LoggerOptions } from './logger';
+export { ApiKeyAuth, ApiKeyPolicy } from './auth';
+export { ResponseCache, MemoryCacheStore, DiskCacheStore, CacheStore } from './cache';
+export { ConcurrencyLimiter, QueueFullError, QueueTimeoutError } from './queue';
+export {
+  loadConfig,
+  loadAdapterConfigs,
+  loadServerConfig,
+  loadSettings,
+  loadConfigFile,
+  ConfigError,
+  ConfigFile,
+  ServerConfig,
+  Settings,
+} from './config';
 export * from './types';
@@ -0,0 +1,33 @@
+/**
+ * Find a JSON object in a model reply
+ *
+ * Tries, in order: the whole text, the first fenced code block, and the
+ * text between the outermost braces. Returns undefined when none parses
+ * to a JSON object.
+ */
+export function extractJsonObject(text: string): Record<string, any> | undefined {
+  const candidates = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggerOptions {
+  /** Minimum level written (default: info) */
+  level?: LogLevel;
+  /**
+   * Include prompts, replies and raw CLI output in logs (default: false)
+   * Payloads are logged at debug level, so this also lowers the level to debug
+   */
+  capturePayloads?: boolean;
+  /** Destination of each JSON line (default: stdout) */
+  write?: (line: string) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Structured logger writing one JSON object per line
+ *
+ * Fields bound with withContext() (e.g. the request id) are added to every
+ * line logged while handling that request, including lines from adapters.
+ */
+export class Logger {
+  private level: LogLevel = 'info';
+  private payloads = false;
+  private writeLine: (line: string) => void = (line) => process.stdout.write(line + '\n');
+  private context = new AsyncLocalStorage<Record<string, unknown>>();
+
+  constructor(options: LoggerOptions = {}) {
+    this.configure(options);
+  }
+
+  configure(options: LoggerOptions): void {
+    if (options.level) {
+      this.level = options.level;
+    }
+    if (options.capturePayloads !== undefined) {
+      this.payloads = options.capturePayloads;
+      if (this.payloads) {
+        this.level = 'debug';
+      }
+    }
+    if (options.write) {
+      this.writeLine = options.write;
+    }
+  }
+
+  /**
+   * Whether prompts and replies may be logged
+   */
+  get capturePayloads(): boolean {
+    return this.payloads;
+  }
+
+  /**
+   * Run a function with fields added to every line it logs
+   */
+  withContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...fields }, fn);
+  }
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.context.getStore(),
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        entry[key] = value instanceof Error ? serializeError(value) : value;
+      }
+    }
+    this.writeLine(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Shared logger used by the server and adapters
+ */
+export const logger = new Logger();
+
+function serializeError(error: Error): Record<string, unknown> {
+  const serialized: Record<string, unknown> = { name: error.name, message: error.message, stack: error.stack };
+  const { code, stderr } = error as any;
+  if (code !== undefined) serialized.code = code;
+  if (stderr) serialized.stderr = stderr;
+  return serialized;
+}
@@ -0,0 +1,383 @@
+import { randomBytes } from 'crypto';
+import { OutputEnd } from './parameters';
+import { ServerSentEvent, StreamFormat } from './sse';
+import {
+  AnthropicContentBlock,
+  AnthropicErrorResponse,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicStopReason,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ContentPart,
+  ErrorResponse,
+  Message,
+  ToolCall,
+  ToolChoice,
+} from './types';
+
+/**
+ * Anthropic Messages API (`/v1/messages`) on top of the chat pipeline
+ *
+ * Requests are converted to the equivalent chat completion request, and chat
+ * replies back to `message` objects with `text` and `tool_use` content blocks.
+ */
+
+type ChatUsage = NonNullable<ChatCompletionResponse['usage']>;
+
+/**
+ * Fields of a message known before the reply
+ */
+export interface MessageBase {
+  id: string;
+  model: string;
+}
+
+/**
+ * Check a Messages API request
+ * Returns an error message, or undefined when valid
+ */
+export function validateMessagesRequest(request: any): string | undefined {
+  const { max_tokens: maxTokens, messages, system, stop_sequences: stopSequences, tools, tool_choice: toolChoice } =
+    request;
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    return 'Invalid request: max_tokens is required and must be a positive integer';
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return 'Invalid request: messages must be a non-empty array';
+  }
+  for (const message of messages) {
+    const error = validateMessage(message);
+    if (error) {
+      return error;
+    }
+  }
+  if (system !== undefined && typeof system !== 'string' && !isTextBlockList(system)) {
+    return 'Invalid request: system must be a string or an array of text blocks';
+  }
+  if (
+    stopSequences !== undefined &&
+    (!Array.isArray(stopSequences) || !stopSequences.every((stop: unknown) => typeof stop === 'string'))
+  ) {
+    return 'Invalid request: stop_sequences must be an array of strings';
+  }
+  if (tools !== undefined) {
+    if (!Array.isArray(tools)) {
+      return 'Invalid request: tools must be an array';
+    }
+    for (const tool of tools) {
+      if (tool?.type !== undefined && tool.type !== 'custom') {
+        return `Invalid request: unsupported tool type "${tool.type}", only custom tools are supported`;
+      }
+      if (typeof tool.name !== 'string' || !tool.name || typeof tool.input_schema !== 'object') {
+        return 'Invalid request: each tool needs a name and an input_schema';
+      }
+    }
+  }
+  if (toolChoice !== undefined) {
+    if (!['auto', 'any', 'none', 'tool'].includes(toolChoice?.type)) {
+      return 'Invalid request: tool_choice type must be auto, any, none or tool';
+    }
+    if (toolChoice.type === 'tool' && typeof toolChoice.name !== 'string') {
+      return 'Invalid request: tool_choice of type tool needs a name';
+    }
+  }
+  return undefined;
+}
+
+function validateMessage(message: any): string | undefined {
+  if (message?.role !== 'user' && message?.role !== 'assistant') {
+    return 'Invalid request: message role must be user or assistant';
+  }
+  if (typeof message.content === 'string') {
+    return undefined;
+  }
+  if (!Array.isArray(message.content)) {
+    return 'Invalid request: message content must be a string or an array of content blocks';
+  }
+
+  for (const block of message.content) {
+    switch (block?.type) {
+      case 'text':
+        if (typeof block.text !== 'string') {
+          return 'Invalid request: text blocks need a text string';
+        }
+        break;
+      case 'image': {
+        const { source } = block;
+        const valid =
+          (source?.type === 'base64' && typeof source.media_type === 'string' && typeof source.data === 'string') ||
+          (source?.type === 'url' && typeof source.url === 'string');
+        if (message.role !== 'user' || !valid) {
+          return 'Invalid request: image blocks need a base64 or url source and are only supported in user messages';
+        }
+        break;
+      }
+      case 'tool_use':
+        if (message.role !== 'assistant' || typeof block.id !== 'string' || typeof block.name !== 'string') {
+          return 'Invalid request: tool_use blocks need an id and a name and are only supported in assistant messages';
+        }
+        break;
+      case 'tool_result':
+        if (
+          message.role !== 'user' ||
+          typeof block.tool_use_id !== 'string' ||
+          (block.content !== undefined && typeof block.content !== 'string' && !isTextBlockList(block.content))
+        ) {
+          return 'Invalid request: tool_result blocks need a tool_use_id and text content and are only supported in user messages';
+        }
+        break;
+      default:
+        return `Invalid request: unsupported content block type "${block?.type}"`;
+    }
+  }
+  return undefined;
+}
+
+function isTextBlockList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((block) => block?.type === 'text' && typeof block.text === 'string');
+}
+
+/**
+ * Convert a Messages API request to the equivalent chat completion request
+ */
+export function messagesToChatRequest(request: AnthropicMessagesRequest): ChatCompletionRequest {
+  const messages: Message[] = [];
+  const system =
+    typeof request.system === 'string' ? request.system : request.system?.map((block) => block.text).join('\n\n');
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  for (const message of request.messages) {
+    const converted = message.role === 'user' ? fromUserContent(message.content) : fromAssistantContent(message.content);
+    messages.push(...converted);
+  }
+
+  return {
+    model: request.model,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.max_tokens,
+    stop: request.stop_sequences,
+    stream: request.stream,
+    tools: request.tools?.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    })),
+    tool_choice: toToolChoice(request.tool_choice),
+  };
+}
+
+function fromUserContent(content: string | AnthropicContentBlock[]): Message[] {
+  if (typeof content === 'string') {
+    return [{ role: 'user', content }];
+  }
+
+  // Tool results answer the previous assistant turn, so they come first
+  const messages: Message[] = [];
+  const parts: ContentPart[] = [];
+  for (const block of content) {
+    if (block.type === 'tool_result') {
+      messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) });
+    } else if (block.type === 'text') {
+      parts.push({ type: 'text', text: block.text });
+    } else if (block.type === 'image') {
+      const { source } = block;
+      const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url;
+      parts.push({ type: 'image_url', image_url: { url } });
+    }
+  }
+  if (parts.length > 0) {
+    messages.push({ role: 'user', content: parts });
+  }
+  return messages;
+}
+
+function fromAssistantContent(content: string | AnthropicContentBlock[]): Message[] {
+  if (typeof content === 'string') {
+    return [{ role: 'assistant', content }];
+  }
+
+  let text = '';
+  const toolCalls: ToolCall[] = [];
+  for (const block of content) {
+    if (block.type === 'text') {
+      text += block.text;
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+  if (toolCalls.length === 0) {
+    return [{ role: 'assistant', content: text }];
+  }
+  return [{ role: 'assistant', content: text || null, tool_calls: toolCalls }];
+}
+
+function toolResultText(block: Extract<AnthropicContentBlock, { type: 'tool_result' }>): string {
+  const text =
+    typeof block.content === 'string' ? block.content : (block.content || []).map((part) => part.text).join('\n');
+  return block.is_error ? `Error: ${text}` : text;
+}
+
+function toToolChoice(choice: AnthropicMessagesRequest['tool_choice']): ToolChoice | undefined {
+  if (!choice) {
+    return undefined;
+  }
+  switch (choice.type) {
+    case 'tool':
+      return { type: 'function', function: { name: choice.name } };
+    case 'any':
+      return 'required';
+    default:
+      return choice.type;
+  }
+}
+
+/**
+ * Id of a `message` object, e.g. `msg_3f9c...`
+ */
+export function messageId(): string {
+  return `msg_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Build a `message` object: the text of the reply, followed by its tool calls
+ * The arguments of tool calls are JSON objects, as ensured by parseToolCalls()
+ */
+export function buildMessage(
+  base: MessageBase,
+  content: string | null,
+  toolCalls: ToolCall[] | undefined,
+  end: OutputEnd,
+  usage: ChatUsage
+): AnthropicMessage {
+  const blocks: AnthropicMessage['content'] = [];
+  if (content || !toolCalls) {
+    blocks.push({ type: 'text', text: content || '' });
+  }
+  for (const call of toolCalls || []) {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: JSON.parse(call.function.arguments) });
+  }
+
+  return {
+    id: base.id,
+    type: 'message',
+    role: 'assistant',
+    model: base.model,
+    content: blocks,
+    stop_reason: toolCalls ? 'tool_use' : stopReason(end),
+    stop_sequence: end.stopSequence,
+    usage: { input_tokens: usage.prompt_tokens, output_tokens: usage.completion_tokens },
+  };
+}
+
+/**
+ * Events streaming a text reply as it is produced:
+ * `message_start`, `content_block_start`, `ping`, a `content_block_delta` per
+ * piece of output, `content_block_stop`, `message_delta` and `message_stop`
+ */
+export function messageStreamFormat(base: MessageBase, usage: (content: string) => ChatUsage): StreamFormat {
+  return {
+    start: () => [
+      messageStart(base, usage('').prompt_tokens),
+      event('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+      event('ping', {}),
+    ],
+    delta: (text) => [event('content_block_delta', { index: 0, delta: { type: 'text_delta', text } })],
+    finish: (text, end) => [
+      event('content_block_stop', { index: 0 }),
+      ...messageEnd({ stop_reason: stopReason(end), stop_sequence: end.stopSequence }, usage(text).completion_tokens),
+    ],
+    error: (body) => [{ event: 'error', data: toAnthropicError(body) }],
+  };
+}
+
+/**
+ * Events streaming a complete message at once, in the same sequence as
+ * messageStreamFormat(), with tool inputs sent in one `input_json_delta`
+ */
+export function messageEvents(message: AnthropicMessage): ServerSentEvent[] {
+  const events = [messageStart(message, message.usage.input_tokens)];
+
+  message.content.forEach((block, index) => {
+    if (block.type === 'text') {
+      events.push(
+        event('content_block_start', { index, content_block: { type: 'text', text: '' } }),
+        event('content_block_delta', { index, delta: { type: 'text_delta', text: block.text } })
+      );
+    } else {
+      events.push(
+        event('content_block_start', { index, content_block: { ...block, input: {} } }),
+        event('content_block_delta', {
+          index,
+          delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input) },
+        })
+      );
+    }
+    events.push(event('content_block_stop', { index }));
+  });
+
+  events.push(...messageEnd(message, message.usage.output_tokens));
+  return events;
+}
+
+/**
+ * Convert an OpenAI-style error body to the Anthropic error shape
+ */
+export function toAnthropicError(body: ErrorResponse): AnthropicErrorResponse {
+  return { type: 'error', error: { type: anthropicErrorType(body.error), message: body.error.message } };
+}
+
+function anthropicErrorType({ type, code }: ErrorResponse['error']): string {
+  if (code === 'invalid_api_key') return 'authentication_error';
+  if (code === 'model_not_found') return 'not_found_error';
+  if (code === 'queue_timeout') return 'overloaded_error';
+  if (code === 'request_too_large') return 'request_too_large';
+  if (type === 'invalid_request_error' || type === 'permission_error' || type === 'rate_limit_error') return type;
+  if (type === 'timeout_error') return 'timeout_error';
+  return 'api_error';
+}
+
+function stopReason(end: OutputEnd): AnthropicStopReason {
+  if (end.finishReason === 'length') return 'max_tokens';
+  return end.stopSequence === null ? 'end_turn' : 'stop_sequence';
+}
+
+function messageStart(base: MessageBase, inputTokens: number): ServerSentEvent {
+  return event('message_start', {
+    message: {
+      id: base.id,
+      type: 'message',
+      role: 'assistant',
+      model: base.model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: inputTokens, output_tokens: 0 },
+    } satisfies AnthropicMessage,
+  });
+}
+
+function messageEnd(
+  delta: Pick<AnthropicMessage, 'stop_reason' | 'stop_sequence'>,
+  outputTokens: number
+): ServerSentEvent[] {
+  return [
+    event('message_delta', {
+      delta: { stop_reason: delta.stop_reason, stop_sequence: delta.stop_sequence },
+      usage: { output_tokens: outputTokens },
+    }),
+    event('message_stop', {}),
+  ];
+}
+
+/**
+ * Anthropic events repeat their name as the `type` of their data
+ */
+function event(type: string, fields: Record<string, unknown>): ServerSentEvent {
+  return { event: type, data: { type, ...fields } };
+}
@@ -0,0 +1,272 @@
+import { CLIAdapter } from './adapters/base';
+import { TimeoutError } from './adapters/errors';
+import { ExecuteOptions, ExecutionResult, Message } from './types';
+
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4)
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Content type of the text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+export class Gauge extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+export class Histogram extends Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  /**
+   * @param buckets Upper bounds in ascending order; `+Inf` is added automatically
+   */
+  constructor(
+    name: string,
+    help: string,
+    private buckets: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, counts[index]));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, count));
+      lines.push(sample(`${this.name}_sum`, labels, sum));
+      lines.push(sample(`${this.name}_count`, labels, count));
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics collected by the server
+ *
+ * Request metrics are recorded by the HTTP layer; CLI execution metrics by
+ * wrapping the routed adapter (see wrap()), so they only cover time spent
+ * running the CLI, not waiting in the queue.
+ */
+export class ServerMetrics {
+  readonly requests = new Counter(
+    'cli_adapter_http_requests_total',
+    'HTTP requests by route, status code and error type'
+  );
+  readonly executionDuration = new Histogram(
+    'cli_adapter_execution_duration_seconds',
+    'CLI execution latency by adapter, model and outcome',
+    [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300]
+  );
+  readonly timeouts = new Counter('cli_adapter_execution_timeouts_total', 'CLI executions that timed out');
+  readonly inFlight = new Gauge('cli_adapter_executions_in_flight', 'CLI processes currently running');
+  readonly tokens = new Counter(
+    'cli_adapter_tokens_total',
+    'Tokens by adapter, model, direction (input/output) and source (reported by the CLI or estimated)'
+  );
+
+  /**
+   * Record a finished HTTP request
+   * `errorType` is the `error.type` of the response body, empty for successful requests
+   */
+  recordRequest(route: string, status: number, errorType = ''): void {
+    this.requests.inc({ route, status: String(status), error_type: errorType });
+  }
+
+  /**
+   * Record the token usage of a response
+   */
+  recordTokens(
+    adapter: string,
+    model: string,
+    usage: { inputTokens: number; outputTokens: number },
+    source: 'reported' | 'estimated'
+  ): void {
+    this.tokens.inc({ adapter, model, type: 'input', source }, usage.inputTokens);
+    this.tokens.inc({ adapter, model, type: 'output', source }, usage.outputTokens);
+  }
+
+  /**
+   * Wrap an adapter so that its executions are measured under the given model id
+   */
+  wrap(adapter: CLIAdapter, model: string): CLIAdapter {
+    return new MeasuredAdapter(adapter, this, { adapter: adapter.getName(), model });
+  }
+
+  render(): string {
+    const metrics: Metric[] = [this.requests, this.executionDuration, this.timeouts, this.inFlight, this.tokens];
+    return metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  /**
+   * Measure a single CLI execution
+   * Returns a function to call with the error once the execution is done
+   */
+  startExecution(labels: Labels): (error?: unknown) => void {
+    const startedAt = process.hrtime.bigint();
+    this.inFlight.inc(labels);
+
+    return (error?: unknown) => {
+      this.inFlight.dec(labels);
+      const outcome = error === undefined ? 'success' : error instanceof TimeoutError ? 'timeout' : 'error';
+      if (outcome === 'timeout') {
+        this.timeouts.inc(labels);
+      }
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      this.executionDuration.observe({ ...labels, outcome }, seconds);
+    };
+  }
+}
+
+/**
+ * Adapter view recording latency, outcome and in-flight executions
+ */
+class MeasuredAdapter extends CLIAdapter {
+  constructor(
+    private adapter: CLIAdapter,
+    private metrics: ServerMetrics,
+    private labels: Labels
+  ) {
+    super();
+  }
+
+  async execute(messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult> {
+    const finish = this.metrics.startExecution(this.labels);
+    try {
+      const result = await this.adapter.execute(messages, options);
+      finish();
+      return result;
+    } catch (error) {
+      finish(error);
+      throw error;
+    }
+  }
+
+  async *executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    const finish = this.metrics.startExecution(this.labels);
+    let failure: unknown;
+    try {
+      yield* this.adapter.executeStream(messages, options);
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      finish(failure);
+    }
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.adapter.isAvailable();
+  }
+
+  getName(): string {
+    return this.adapter.getName();
+  }
+
+  getModelName(): string {
+    return this.adapter.getModelName();
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const names = Object.keys(labels);
+  const rendered = names.length
+    ? `{${names.map((label) => `${label}="${escapeLabelValue(labels[label])}"`).join(',')}}`
+    : '';
+  return `${name}${rendered} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
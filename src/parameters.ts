@@ -0,0 +1,235 @@
+/**
+ * Request parameters applied to the CLI output: max_tokens, stop sequences and n
+ *
+ * The CLIs have no sampling controls: max_tokens is passed to the CLIs that
+ * have an equivalent setting and always enforced on the output, stop
+ * sequences are applied to the output, and sampling parameters are reported
+ * as unsupported rather than silently ignored.
+ */
+
+/**
+ * Maximum number of choices per chat request
+ */
+export const MAX_CHOICES = 10;
+
+/**
+ * Characters per token of the token estimates, for CLIs that do not report usage
+ * Shared by usage, output limits and context budgets so that they agree
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Request parameters that no CLI can honour
+ */
+export const UNSUPPORTED_PARAMETERS = [
+  'temperature',
+  'top_p',
+  'top_k',
+  'frequency_penalty',
+  'presence_penalty',
+  'logit_bias',
+  'logprobs',
+  'top_logprobs',
+  'best_of',
+  'seed',
+];
+
+/**
+ * How requests using unsupported parameters are handled: answered with the
+ * parameters ignored and a warning, or rejected with HTTP 400
+ */
+export type UnsupportedParameterPolicy = 'warn' | 'error';
+
+/**
+ * Limits applied to the output of an execution
+ */
+export interface OutputLimits {
+  /** Estimated output tokens; longer output is truncated */
+  maxTokens?: number;
+  /** The output ends before the first occurrence of any of these */
+  stop: string[];
+}
+
+/**
+ * Why the output ended
+ */
+export interface OutputEnd {
+  /** `length` when the output was truncated to the token limit */
+  finishReason: 'stop' | 'length';
+  /** The stop sequence found in the output, if any */
+  stopSequence: string | null;
+}
+
+/**
+ * Estimated tokens of a text
+ * Real token counting requires the model's tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Check max_tokens, stop and n
+ * Returns an error message, or undefined when valid
+ */
+export function validateParameters(request: any): string | undefined {
+  for (const name of ['max_tokens', 'max_completion_tokens']) {
+    const value = request[name];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+      return `Invalid request: ${name} must be a positive integer`;
+    }
+  }
+  const { stop, n } = request;
+  if (stop !== undefined && stop !== null) {
+    const sequences = Array.isArray(stop) ? stop : [stop];
+    if (!sequences.every((sequence: unknown) => typeof sequence === 'string' && sequence !== '')) {
+      return 'Invalid request: stop must be a non-empty string or an array of non-empty strings';
+    }
+  }
+  if (n !== undefined && n !== null && (!Number.isInteger(n) || n < 1 || n > MAX_CHOICES)) {
+    return `Invalid request: n must be an integer between 1 and ${MAX_CHOICES}`;
+  }
+  return undefined;
+}
+
+/**
+ * Names of the unsupported parameters set in a request
+ * `false` counts as not set, so that `logprobs: false` is accepted
+ */
+export function unsupportedParameters(request: Record<string, unknown>): string[] {
+  return UNSUPPORTED_PARAMETERS.filter((name) => {
+    const value = request[name];
+    return value !== undefined && value !== null && value !== false;
+  });
+}
+
+/**
+ * Output limits of a request
+ */
+export function outputLimits(request: {
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[] | null;
+}): OutputLimits {
+  const { stop } = request;
+  return {
+    maxTokens: request.max_completion_tokens ?? request.max_tokens,
+    stop: stop === undefined || stop === null ? [] : Array.isArray(stop) ? stop : [stop],
+  };
+}
+
+/**
+ * Apply the output limits to a complete reply
+ */
+export function limitOutput(content: string, limits: OutputLimits): OutputEnd & { content: string } {
+  const limiter = new OutputLimiter(limits);
+  const limited = limiter.push(content) + limiter.end();
+  return { content: limited, ...limiter.result };
+}
+
+/**
+ * Applies the output limits to output received in pieces
+ *
+ * Text that may be the start of a stop sequence is held back until the next
+ * piece (or end()) shows whether it is one.
+ */
+export class OutputLimiter {
+  private pending = '';
+  private emitted = 0;
+  private finished = false;
+  private outcome: OutputEnd = { finishReason: 'stop', stopSequence: null };
+
+  constructor(private limits: OutputLimits) {}
+
+  /**
+   * Whether a limit was reached; further output is discarded
+   */
+  get done(): boolean {
+    return this.finished;
+  }
+
+  get result(): OutputEnd {
+    return this.outcome;
+  }
+
+  /**
+   * Add a piece of output and return the text that can be passed on
+   */
+  push(chunk: string): string {
+    if (this.finished) {
+      return '';
+    }
+
+    let text = this.pending + chunk;
+    this.pending = '';
+
+    const stop = findStop(text, this.limits.stop);
+    if (stop) {
+      text = text.slice(0, stop.index);
+      this.finished = true;
+      this.outcome = { finishReason: 'stop', stopSequence: stop.sequence };
+    } else {
+      const held = partialStopLength(text, this.limits.stop);
+      this.pending = text.slice(text.length - held);
+      text = text.slice(0, text.length - held);
+    }
+    return this.take(text);
+  }
+
+  /**
+   * Signal the end of the output and return the text still held back
+   */
+  end(): string {
+    if (this.finished) {
+      return '';
+    }
+    const text = this.take(this.pending);
+    this.pending = '';
+    this.finished = true;
+    return text;
+  }
+
+  private take(text: string): string {
+    if (this.limits.maxTokens === undefined) {
+      return text;
+    }
+    const remaining = this.limits.maxTokens * CHARS_PER_TOKEN - this.emitted;
+    if (text.length > remaining) {
+      text = text.slice(0, remaining);
+      this.finished = true;
+      this.outcome = { finishReason: 'length', stopSequence: null };
+    }
+    this.emitted += text.length;
+    return text;
+  }
+}
+
+/**
+ * Earliest occurrence of any stop sequence
+ */
+function findStop(text: string, sequences: string[]): { index: number; sequence: string } | undefined {
+  let found: { index: number; sequence: string } | undefined;
+  for (const sequence of sequences) {
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { index, sequence };
+    }
+  }
+  return found;
+}
+
+/**
+ * Length of the longest end of the text that is the start of a stop sequence
+ */
+function partialStopLength(text: string, sequences: string[]): number {
+  let longest = 0;
+  for (const sequence of sequences) {
+    for (let length = Math.min(sequence.length - 1, text.length); length > longest; length--) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
@@ -0,0 +1,229 @@
+import { CLIAdapter } from './adapters/base';
+import { CancelledError } from './adapters/errors';
+import { ExecuteOptions, ExecutionResult, Message } from './types';
+
+/**
+ * Raised when a task cannot be queued because the queue is full
+ */
+export class QueueFullError extends Error {
+  /** Suggested wait before retrying, in seconds */
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'QueueFullError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Raised when a queued task waited longer than the queue timeout
+ */
+export class QueueTimeoutError extends Error {
+  /** Suggested wait before retrying, in seconds */
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'QueueTimeoutError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface ConcurrencyLimiterOptions {
+  /** Maximum number of CLI processes running at once */
+  maxConcurrency: number;
+  /** Maximum number of requests waiting for a slot; 0 disables queueing */
+  maxQueueSize: number;
+  /** Maximum time a request waits for a slot in milliseconds; 0 waits indefinitely */
+  queueTimeout: number;
+}
+
+export interface QueueStats {
+  active: number;
+  queued: number;
+  maxConcurrency: number;
+  maxQueueSize: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  signal?: AbortSignal;
+  /** Removes the waiter when its signal aborts */
+  cancel?: () => void;
+}
+
+/**
+ * Limits concurrent CLI executions with a bounded FIFO queue
+ *
+ * The queue wait timeout is separate from the adapter execution timeout:
+ * a request may wait up to `queueTimeout` for a slot, then run for up to
+ * the adapter's `timeout`.
+ */
+export class ConcurrencyLimiter {
+  private options: ConcurrencyLimiterOptions;
+  private active = 0;
+  private waiting: Waiter[] = [];
+  /** Moving average of task duration, used to suggest Retry-After */
+  private averageDuration = 0;
+
+  constructor(options: ConcurrencyLimiterOptions) {
+    if (!(options.maxConcurrency >= 1)) {
+      throw new Error(`maxConcurrency must be at least 1, got ${options.maxConcurrency}`);
+    }
+    this.options = options;
+  }
+
+  /**
+   * Wait for a free slot
+   * Resolves with a release function that must be called once the task is done;
+   * rejects with CancelledError when `signal` aborts while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.waiting.length >= this.options.maxQueueSize) {
+      return Promise.reject(
+        new QueueFullError(
+          `Too many concurrent requests: ${this.active} running, ${this.waiting.length} queued`,
+          this.estimateRetryAfter()
+        )
+      );
+    }
+
+    return new Promise<() => void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+
+      if (this.options.queueTimeout > 0) {
+        waiter.timer = setTimeout(() => {
+          this.waiting = this.waiting.filter((w) => w !== waiter);
+          if (waiter.cancel) signal?.removeEventListener('abort', waiter.cancel);
+          reject(
+            new QueueTimeoutError(
+              `Request waited more than ${this.options.queueTimeout}ms for a free slot`,
+              this.estimateRetryAfter()
+            )
+          );
+        }, this.options.queueTimeout);
+      }
+
+      if (signal) {
+        waiter.cancel = () => {
+          this.waiting = this.waiting.filter((w) => w !== waiter);
+          if (waiter.timer) clearTimeout(waiter.timer);
+          reject(new CancelledError());
+        };
+        signal.addEventListener('abort', waiter.cancel, { once: true });
+        waiter.signal = signal;
+      }
+
+      this.waiting.push(waiter);
+    });
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wrap an adapter so that every execution goes through this limiter
+   */
+  wrap(adapter: CLIAdapter): CLIAdapter {
+    return new LimitedAdapter(adapter, this);
+  }
+
+  getStats(): QueueStats {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      maxConcurrency: this.options.maxConcurrency,
+      maxQueueSize: this.options.maxQueueSize,
+    };
+  }
+
+  private createRelease(): () => void {
+    const startedAt = Date.now();
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+
+      const duration = Date.now() - startedAt;
+      this.averageDuration = this.averageDuration ? this.averageDuration * 0.8 + duration * 0.2 : duration;
+
+      const next = this.waiting.shift();
+      if (next) {
+        // Hand the slot over directly so it cannot be taken by a newcomer
+        if (next.timer) clearTimeout(next.timer);
+        if (next.cancel) next.signal?.removeEventListener('abort', next.cancel);
+        next.resolve(this.createRelease());
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  /**
+   * Rough time until a slot frees up for a new request, in whole seconds
+   */
+  private estimateRetryAfter(): number {
+    const waves = (this.waiting.length + 1) / this.options.maxConcurrency;
+    return Math.max(1, Math.ceil((this.averageDuration * waves) / 1000));
+  }
+}
+
+/**
+ * Adapter view that holds a limiter slot for each execution
+ * Streams keep their slot until the stream is finished or abandoned
+ */
+class LimitedAdapter extends CLIAdapter {
+  constructor(
+    private adapter: CLIAdapter,
+    private limiter: ConcurrencyLimiter
+  ) {
+    super();
+  }
+
+  execute(messages: Message[], options?: ExecuteOptions): Promise<ExecutionResult> {
+    return this.limiter.run(() => this.adapter.execute(messages, options), options?.signal);
+  }
+
+  async *executeStream(messages: Message[], options?: ExecuteOptions): AsyncIterable<string> {
+    const release = await this.limiter.acquire(options?.signal);
+    try {
+      yield* this.adapter.executeStream(messages, options);
+    } finally {
+      release();
+    }
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.adapter.isAvailable();
+  }
+
+  getName(): string {
+    return this.adapter.getName();
+  }
+
+  getModelName(): string {
+    return this.adapter.getModelName();
+  }
+}
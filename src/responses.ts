@@ -0,0 +1,349 @@
+import { randomBytes } from 'crypto';
+import { OutputEnd } from './parameters';
+import { ServerSentEvent, StreamFormat } from './sse';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ContentPart,
+  ErrorResponse,
+  Message,
+  ResponseFormat,
+  ResponseInputContent,
+  ResponseObject,
+  ResponseOutputItem,
+  ResponseRequest,
+  ResponseTextFormat,
+  ToolCall,
+} from './types';
+
+/**
+ * OpenAI Responses API (`/v1/responses`) on top of the chat pipeline
+ *
+ * Requests are converted to the equivalent chat completion request, and chat
+ * replies back to `response` objects with `message` or `function_call` output
+ * items. Responses are not stored, so every request carries the whole
+ * conversation in `input`.
+ */
+
+type ChatUsage = NonNullable<ChatCompletionResponse['usage']>;
+
+/**
+ * Fields of a response known before the reply
+ */
+export interface ResponseBase {
+  id: string;
+  created: number;
+  model: string;
+}
+
+const MESSAGE_ROLES = ['user', 'assistant', 'system', 'developer'];
+
+/**
+ * Check a Responses API request
+ * Returns an error message, or undefined when valid
+ */
+export function validateResponseRequest(request: any): string | undefined {
+  const { input, instructions, tools, previous_response_id: previousResponseId } = request;
+  if (previousResponseId !== undefined && previousResponseId !== null) {
+    return 'Invalid request: previous_response_id is not supported as responses are not stored; send the whole conversation in input';
+  }
+  if (typeof input !== 'string' && !Array.isArray(input)) {
+    return 'Invalid request: input must be a string or an array of items';
+  }
+  if (Array.isArray(input)) {
+    for (const item of input) {
+      const error = validateInputItem(item);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  if (instructions !== undefined && instructions !== null && typeof instructions !== 'string') {
+    return 'Invalid request: instructions must be a string';
+  }
+  if (tools !== undefined) {
+    if (!Array.isArray(tools)) {
+      return 'Invalid request: tools must be an array';
+    }
+    for (const tool of tools) {
+      if (tool?.type !== 'function') {
+        return `Invalid request: unsupported tool type "${tool?.type}", only function tools are supported`;
+      }
+      if (typeof tool.name !== 'string' || !tool.name) {
+        return 'Invalid request: each function tool needs a name';
+      }
+    }
+  }
+  return undefined;
+}
+
+function validateInputItem(item: any): string | undefined {
+  const type = item?.type ?? 'message';
+  switch (type) {
+    case 'message':
+      if (!MESSAGE_ROLES.includes(item.role)) {
+        return 'Invalid request: input message role must be user, assistant, system or developer';
+      }
+      if (typeof item.content === 'string') {
+        return undefined;
+      }
+      if (!Array.isArray(item.content)) {
+        return 'Invalid request: input message content must be a string or an array of content parts';
+      }
+      for (const part of item.content) {
+        if ((part?.type === 'input_text' || part?.type === 'output_text') && typeof part.text === 'string') {
+          continue;
+        }
+        if (part?.type === 'input_image' && typeof part.image_url === 'string') {
+          continue;
+        }
+        if (part?.type === 'input_image') {
+          return 'Invalid request: input_image parts need an image_url; file ids are not supported';
+        }
+        return `Invalid request: unsupported content part type "${part?.type}"`;
+      }
+      return undefined;
+    case 'function_call':
+      if (typeof item.call_id !== 'string' || typeof item.name !== 'string' || typeof item.arguments !== 'string') {
+        return 'Invalid request: function_call items need call_id, name and arguments strings';
+      }
+      return undefined;
+    case 'function_call_output':
+      if (typeof item.call_id !== 'string' || typeof item.output !== 'string') {
+        return 'Invalid request: function_call_output items need call_id and output strings';
+      }
+      return undefined;
+    default:
+      return `Invalid request: unsupported input item type "${type}"`;
+  }
+}
+
+/**
+ * Convert a Responses API request to the equivalent chat completion request
+ */
+export function toChatRequest(request: ResponseRequest): ChatCompletionRequest {
+  const messages: Message[] = [];
+  if (request.instructions) {
+    messages.push({ role: 'system', content: request.instructions });
+  }
+
+  const items = typeof request.input === 'string' ? [{ role: 'user' as const, content: request.input }] : request.input;
+  for (const item of items) {
+    if (item.type === 'function_call') {
+      const call: ToolCall = { id: item.call_id, type: 'function', function: { name: item.name, arguments: item.arguments } };
+      // Parallel calls are consecutive items, but belong to a single assistant turn
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'assistant' && previous.tool_calls) {
+        previous.tool_calls.push(call);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+    } else {
+      messages.push({ role: item.role === 'developer' ? 'system' : item.role, content: toChatContent(item.content) });
+    }
+  }
+
+  const { tool_choice: toolChoice } = request;
+  return {
+    model: request.model,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.max_output_tokens,
+    stream: request.stream,
+    tools: request.tools?.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    tool_choice: typeof toolChoice === 'object' ? { type: 'function', function: { name: toolChoice.name } } : toolChoice,
+    response_format: toResponseFormat(request.text?.format),
+  };
+}
+
+function toChatContent(content: string | ResponseInputContent[]): string | ContentPart[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.map((part) =>
+    part.type === 'input_image'
+      ? { type: 'image_url', image_url: { url: part.image_url, detail: part.detail } }
+      : { type: 'text', text: part.text }
+  );
+}
+
+function toResponseFormat(format: ResponseTextFormat | undefined): ResponseFormat | undefined {
+  if (!format || format.type !== 'json_schema') {
+    return format;
+  }
+  const { name, description, schema, strict } = format;
+  return { type: 'json_schema', json_schema: { name, description, schema, strict } };
+}
+
+/**
+ * Output items of a reply: one item per function call, or a single message
+ * The message is incomplete when its text was truncated to the token limit
+ */
+export function buildOutputItems(
+  content: string | null,
+  toolCalls: ToolCall[] | undefined,
+  end: OutputEnd
+): ResponseOutputItem[] {
+  if (toolCalls) {
+    return toolCalls.map((call) => ({
+      type: 'function_call',
+      id: itemId('fc'),
+      call_id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+      status: 'completed',
+    }));
+  }
+  return [messageItem(itemId('msg'), content || '', itemStatus(end))];
+}
+
+/**
+ * Id of a `response` object, e.g. `resp_3f9c...`
+ */
+export function responseId(): string {
+  return itemId('resp');
+}
+
+export function buildResponse(
+  base: ResponseBase,
+  instructions: string | null,
+  output: ResponseOutputItem[],
+  usage: ChatUsage | null,
+  status: ResponseObject['status']
+): ResponseObject {
+  return {
+    id: base.id,
+    object: 'response',
+    created_at: base.created,
+    status,
+    model: base.model,
+    output,
+    instructions,
+    error: null,
+    incomplete_details: status === 'incomplete' ? { reason: 'max_output_tokens' } : null,
+    usage: usage && {
+      input_tokens: usage.prompt_tokens,
+      output_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+    },
+  };
+}
+
+/**
+ * Events streaming a text reply as it is produced:
+ * `response.created`, `response.in_progress`, the message item and its text
+ * part being added, `response.output_text.delta` per piece of output, the
+ * matching `done` events and `response.completed` (`response.incomplete` when
+ * truncated to the token limit, `response.failed` on errors)
+ */
+export function responseStreamFormat(
+  base: ResponseBase,
+  instructions: string | null,
+  usage: (content: string) => ChatUsage
+): StreamFormat {
+  const event = eventSequence();
+  const inProgress = buildResponse(base, instructions, [], null, 'in_progress');
+  const item = messageItem(itemId('msg'), '', 'in_progress');
+  const at = { item_id: item.id, output_index: 0, content_index: 0 };
+
+  return {
+    start: () => [
+      event('response.created', { response: inProgress }),
+      event('response.in_progress', { response: inProgress }),
+      event('response.output_item.added', { output_index: 0, item: { ...item, content: [] } }),
+      event('response.content_part.added', { ...at, part: textPart('') }),
+    ],
+    delta: (delta) => [event('response.output_text.delta', { ...at, delta })],
+    finish: (text, end) => {
+      const status = itemStatus(end);
+      const done = messageItem(item.id, text, status);
+      return [
+        event('response.output_text.done', { ...at, text }),
+        event('response.content_part.done', { ...at, part: textPart(text) }),
+        event('response.output_item.done', { output_index: 0, item: done }),
+        event(`response.${status}`, {
+          response: buildResponse(base, instructions, [done], usage(text), status),
+        }),
+      ];
+    },
+    error: (body) => [event('response.failed', { response: failedResponse(base, instructions, body) })],
+  };
+}
+
+/**
+ * Events streaming a complete response at once, in the same sequence as
+ * responseStreamFormat(), with function call arguments sent in one delta
+ */
+export function responseEvents(response: ResponseObject): ServerSentEvent[] {
+  const event = eventSequence();
+  const inProgress: ResponseObject = { ...response, status: 'in_progress', output: [], usage: null };
+  const events = [
+    event('response.created', { response: inProgress }),
+    event('response.in_progress', { response: inProgress }),
+  ];
+
+  response.output.forEach((item, outputIndex) => {
+    if (item.type === 'message') {
+      const text = item.content.map((part) => part.text).join('');
+      const at = { item_id: item.id, output_index: outputIndex, content_index: 0 };
+      events.push(
+        event('response.output_item.added', { output_index: outputIndex, item: { ...item, status: 'in_progress', content: [] } }),
+        event('response.content_part.added', { ...at, part: textPart('') }),
+        event('response.output_text.delta', { ...at, delta: text }),
+        event('response.output_text.done', { ...at, text }),
+        event('response.content_part.done', { ...at, part: textPart(text) })
+      );
+    } else {
+      const at = { item_id: item.id, output_index: outputIndex };
+      events.push(
+        event('response.output_item.added', { output_index: outputIndex, item: { ...item, status: 'in_progress', arguments: '' } }),
+        event('response.function_call_arguments.delta', { ...at, delta: item.arguments }),
+        event('response.function_call_arguments.done', { ...at, arguments: item.arguments })
+      );
+    }
+    events.push(event('response.output_item.done', { output_index: outputIndex, item }));
+  });
+
+  events.push(event(`response.${response.status}`, { response }));
+  return events;
+}
+
+/**
+ * Event factory numbering the events of one stream
+ */
+function eventSequence(): (type: string, fields: Record<string, unknown>) => ServerSentEvent {
+  let sequenceNumber = 0;
+  return (type, fields) => ({ event: type, data: { type, sequence_number: sequenceNumber++, ...fields } });
+}
+
+function failedResponse(base: ResponseBase, instructions: string | null, body: ErrorResponse): ResponseObject {
+  return {
+    ...buildResponse(base, instructions, [], null, 'failed'),
+    error: { code: body.error.code, message: body.error.message },
+  };
+}
+
+function itemStatus(end: OutputEnd): 'completed' | 'incomplete' {
+  return end.finishReason === 'length' ? 'incomplete' : 'completed';
+}
+
+function messageItem(
+  id: string,
+  text: string,
+  status: 'in_progress' | 'completed' | 'incomplete'
+): Extract<ResponseOutputItem, { type: 'message' }> {
+  return { type: 'message', id, status, role: 'assistant', content: [textPart(text)] };
+}
+
+function textPart(text: string): { type: 'output_text'; text: string; annotations: [] } {
+  return { type: 'output_text', text, annotations: [] };
+}
+
+function itemId(prefix: 'resp' | 'msg' | 'fc'): string {
+  return `${prefix}_${randomBytes(12).toString('hex')}`;
+}
@@ -1,127 +1,1161 @@
-import express, { Request, Response } from 'express';
+import { defaultMaxListeners, setMaxListeners } from 'events';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
 import cors from 'cors';
 import { CLIAdapter } from './adapters/base';
-import { TimeoutError } from './adapters/claude_code';
 import {
+  CancelledError,
+  ContextLengthExceededError,
+  FixtureNotFoundError,
+  TemplateNotFoundError,
+  TimeoutError,
+} from './adapters/errors';
+import { inlineImageFiles, validateMessageContent } from './adapters/attachments';
+import { AdapterRegistry } from './adapters/registry';
+import {
+  StructuredOutputError,
+  applyResponseFormat,
+  enforceResponseFormat,
+  isStructured,
+  validateResponseFormat,
+} from './structured_output';
+import { ApiKeyAuth, ApiKeyPolicy, maskApiKey } from './auth';
+import { ResponseCache } from './cache';
+import { Logger, logger as defaultLogger } from './logger';
+import { METRICS_CONTENT_TYPE, ServerMetrics } from './metrics';
+import { ConcurrencyLimiter, QueueFullError, QueueTimeoutError } from './queue';
+import { parseToolCalls, prepareToolMessages, toolsEnabled, validateTools } from './tools';
+import { buildCompletionMessages, completionId, completionPrompts, validateCompletionRequest } from './completions';
+import {
+  OutputEnd,
+  OutputLimiter,
+  OutputLimits,
+  UnsupportedParameterPolicy,
+  estimateTokens,
+  limitOutput,
+  outputLimits,
+  unsupportedParameters,
+  validateParameters,
+} from './parameters';
+import {
+  buildOutputItems,
+  buildResponse,
+  responseEvents,
+  responseId,
+  responseStreamFormat,
+  toChatRequest,
+  validateResponseRequest,
+} from './responses';
+import {
+  buildMessage,
+  messageEvents,
+  messageId,
+  messageStreamFormat,
+  messagesToChatRequest,
+  toAnthropicError,
+  validateMessagesRequest,
+} from './messages';
+import {
+  AnthropicMessagesRequest,
+  ChatCompletionChunk,
   ChatCompletionRequest,
   ChatCompletionResponse,
+  CompletionRequest,
+  CompletionResponse,
   ErrorResponse,
+  ExecuteOptions,
+  ExecutionResult,
+  Message,
+  ResponseRequest,
+  ToolCall,
 } from './types';
+import { DONE_EVENT, ServerSentEvent, StreamFormat, openEventStream, writeEvent } from './sse';
+
+/**
+ * Optional server components
+ */
+export interface ServerOptions {
+  /** Limits concurrent CLI executions; a default limiter is used when omitted */
+  limiter?: ConcurrencyLimiter;
+  /** Caches execution results; responses are not cached when omitted */
+  cache?: ResponseCache;
+  /** Requires an API key on /v1 endpoints; open access when omitted */
+  auth?: ApiKeyAuth;
+  /** Collects the metrics served on /metrics; a fresh collector is used when omitted */
+  metrics?: ServerMetrics;
+  /** Receives request logs; the shared logger is used when omitted */
+  logger?: Logger;
+  /** Handling of parameters the CLIs cannot honour, such as temperature (default: warn) */
+  unsupportedParameters?: UnsupportedParameterPolicy;
+  /** Directory that `file://` image URLs may point into; such URLs are rejected when omitted */
+  imageDir?: string;
+  /** Maximum size of a JSON request body in bytes (default: 20 MiB) */
+  bodyLimit?: number;
+}
+
+/**
+ * Defaults used when no limiter is passed to createServer
+ */
+const DEFAULT_LIMITER_OPTIONS = {
+  maxConcurrency: 4,
+  maxQueueSize: 100,
+  queueTimeout: 60000,
+};
+
+/**
+ * Maximum size of a JSON request body used when none is passed to createServer
+ */
+const DEFAULT_BODY_LIMIT = 20 * 1024 ** 2;
 
 /**
  * Create Express server with OpenAI-compatible endpoints
+ *
+ * Accepts a single adapter or a registry routing request models to adapters.
  */
-export function createServer(adapter: CLIAdapter): express.Application {
+export function createServer(
+  adapters: CLIAdapter | AdapterRegistry,
+  options: ServerOptions = {}
+): express.Application {
+  const registry = adapters instanceof AdapterRegistry ? adapters : AdapterRegistry.single(adapters);
+  const limiter = options.limiter || new ConcurrencyLimiter(DEFAULT_LIMITER_OPTIONS);
+  const metrics = options.metrics || new ServerMetrics();
+  const logger = options.logger || defaultLogger;
+  const { auth } = options;
   const app = express();
 
-  app.use(cors());
-  app.use(express.json());
+  app.use(observeRequests(metrics, logger));
+  if (auth) {
+    // Preflight requests carry no API key, so any origin allowed by some key passes
+    app.use(cors({ origin: (origin, callback) => callback(null, !origin || auth.allowsOriginForAnyKey(origin)) }));
+  } else {
+    app.use(cors());
+  }
+  app.use(express.json({ limit: options.bodyLimit || DEFAULT_BODY_LIMIT }));
+  app.use(bodyParserErrors);
+
+  // Checked per route (rather than for the /v1 prefix) so rejected requests are counted under their route
+  const protect: RequestHandler[] = auth ? [authenticate(auth)] : [];
 
   // Health check endpoint
   app.get('/health', (req: Request, res: Response) => {
-    res.json({ status: 'ok', adapter: adapter.getName() });
+    res.json({
+      status: 'ok',
+      adapter: registry.getDefault().getName(),
+      queue: limiter.getStats(),
+    });
   });
 
-  // OpenAI-compatible chat completions endpoint
-  app.post('/v1/chat/completions', async (req: Request, res: Response) => {
-    try {
-      const request: ChatCompletionRequest = req.body;
+  /**
+   * Find the adapter for a request model, answering 404 when the model is
+   * unknown or not allowed for the API key
+   */
+  const routeModel = (res: Response, model: string | undefined) => {
+    const routed = registry.resolve(model);
+    // Requests without a model use the default adapter, registered first
+    const modelId = model || registry.listModels()[0];
+    const apiKey: ApiKeyPolicy | undefined = res.locals.apiKey;
+    if (!routed || (auth && apiKey && !auth.allowsModel(apiKey, modelId))) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          message: `The model \`${modelId}\` does not exist or you do not have access to it.`,
+          type: 'invalid_request_error',
+          code: 'model_not_found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return undefined;
+    }
+    res.locals.adapter = routed.getName();
+    res.locals.model = modelId;
+
+    // Every CLI execution, including retries, waits for a limiter slot (the retries and
+    // fallbacks of an adapter keep the slot of the execution they retry);
+    // latency is measured once the slot is acquired
+    return { routed, modelId, adapter: limiter.wrap(metrics.wrap(routed, modelId)) };
+  };
 
+  /**
+   * Apply the unsupported parameter policy to a request: reject it with a 400
+   * unsupported_parameter error, or log a warning and list the ignored
+   * parameters in the X-Unsupported-Parameters response header
+   * Returns false when the request was rejected
+   */
+  const checkUnsupportedParameters = (res: Response, request: Record<string, unknown>): boolean => {
+    const unsupported = unsupportedParameters(request || {});
+    if (unsupported.length === 0) {
+      return true;
+    }
+    if (options.unsupportedParameters === 'error') {
+      const errorResponse: ErrorResponse = {
+        error: {
+          message: `Unsupported parameter: '${unsupported[0]}' cannot be honoured by the CLI adapters.`,
+          type: 'invalid_request_error',
+          code: 'unsupported_parameter',
+          param: unsupported[0],
+        },
+      };
+      res.status(400).json(errorResponse);
+      return false;
+    }
+    logger.warn('Unsupported parameters ignored', { parameters: unsupported });
+    res.setHeader('X-Unsupported-Parameters', unsupported.join(', '));
+    return true;
+  };
+
+  /**
+   * Answer a chat request: validation, routing, cache, tools and structured
+   * output are shared by the chat-style endpoints, which only differ in how
+   * the reply is presented
+   */
+  const handleChat = async (req: Request, res: Response, request: ChatCompletionRequest, endpoint: ChatEndpoint) => {
+    try {
       // Validate request
       if (!request.messages || !Array.isArray(request.messages)) {
-        const errorResponse: ErrorResponse = {
-          error: {
-            message: 'Invalid request: messages array is required',
-            type: 'invalid_request_error',
-            code: 'invalid_request',
-          },
-        };
-        return res.status(400).json(errorResponse);
+        return sendInvalidRequest(res, 'Invalid request: messages array is required');
       }
 
       if (request.messages.length === 0) {
-        const errorResponse: ErrorResponse = {
-          error: {
-            message: 'Invalid request: messages array cannot be empty',
-            type: 'invalid_request_error',
-            code: 'invalid_request',
-          },
-        };
-        return res.status(400).json(errorResponse);
-      }
-
-      // Execute adapter
-      const content = await adapter.execute(request.messages);
-
-      // Build OpenAI-compatible response
-      const response: ChatCompletionResponse = {
-        id: generateId(),
-        object: 'chat.completion',
+        return sendInvalidRequest(res, 'Invalid request: messages array cannot be empty');
+      }
+
+      const optionsError =
+        validateParameters(request) ||
+        validateMessageContent(request.messages, options.imageDir) ||
+        validateTools(request.tools, request.tool_choice) ||
+        validateResponseFormat(request.response_format);
+      if (optionsError) {
+        return sendInvalidRequest(res, optionsError);
+      }
+
+      const route = routeModel(res, request.model);
+      if (!route) return;
+      const { routed, modelId, adapter } = route;
+
+      // Adapters only receive images as data URLs
+      const inlined = await inlineImageFiles(request.messages, options.imageDir);
+      const messages = applyResponseFormat(
+        prepareToolMessages(inlined, request.tools, request.tool_choice),
+        request.response_format
+      );
+      const useTools = toolsEnabled(request.tools, request.tool_choice);
+      const structured = isStructured(request.response_format);
+      const limits = outputLimits(request);
+      const executeOptions = executionOptions(req, res, limits);
+      const n = request.n || 1;
+      const input = JSON.stringify(request.messages);
+      const base: ReplyBase = {
+        id: endpoint.replyId(res.locals.requestId),
         created: Math.floor(Date.now() / 1000),
         model: request.model || adapter.getModelName(),
-        choices: [
-          {
-            index: 0,
-            message: {
-              role: 'assistant',
-              content: content,
-            },
-            finish_reason: 'stop',
-          },
-        ],
-        usage: {
-          prompt_tokens: estimateTokens(JSON.stringify(request.messages)),
-          completion_tokens: estimateTokens(content),
-          total_tokens: estimateTokens(JSON.stringify(request.messages) + content),
-        },
       };
 
+      // Several choices are separate executions, which a single cache entry cannot hold
+      const cache =
+        options.cache && n === 1
+          ? createRequestCache(options.cache, req, res, routed, request, messages, executeOptions, logger)
+          : undefined;
+      const cached = cache ? await cache.lookup() : undefined;
+
+      // Tool calls and structured output can only be recognised once the full
+      // reply is known, so such requests are buffered even when streaming
+      if (request.stream && n === 1 && !useTools && !structured && !cached) {
+        // The CLI reports its usage once the stream has ended, in time for the closing events
+        let reported: ExecutionResult['usage'];
+        const streamOptions: ExecuteOptions = { ...executeOptions, onUsage: (usage) => (reported = usage) };
+        const format = endpoint.streamFormat(base, (content) => buildUsage({ content, usage: reported }, input));
+        const streamed = await streamExecution(res, adapter, messages, limits, streamOptions, logger, format);
+        if (streamed) {
+          const usage = buildUsage({ content: streamed.content, usage: reported }, input);
+          metrics.recordTokens(routed.getName(), modelId, toTokenCounts(usage), reported ? 'reported' : 'estimated');
+          // Output cut by a limit is not the complete reply
+          if (cache && streamed.finishReason === 'stop' && streamed.stopSequence === null) {
+            await cache.store({ content: streamed.content, usage: reported });
+          }
+        }
+        return;
+      }
+
+      const complete = async (choiceOptions: ExecuteOptions): Promise<{ choice: ReplyChoice; usage: Usage }> => {
+        let result = cached || (await adapter.execute(messages, choiceOptions));
+        let { content, toolCalls } = useTools
+          ? parseToolCalls(result.content, request.tools!)
+          : { content: result.content as string | null, toolCalls: undefined };
+
+        if (structured && !toolCalls) {
+          result = await enforceResponseFormat(adapter, messages, result, request.response_format!, choiceOptions);
+          content = result.content;
+        }
+
+        // The complete result is cached, so that limits are applied the same way on replay
+        if (cache && !cached) {
+          await cache.store(result);
+        }
+
+        const limited = limitOutput(content || '', limits);
+        const usage = buildUsage(toolCalls ? result : { ...result, content: limited.content }, input);
+        if (!cached) {
+          metrics.recordTokens(routed.getName(), modelId, toTokenCounts(usage), result.usage ? 'reported' : 'estimated');
+        }
+
+        const choice: ReplyChoice = toolCalls
+          ? { content: null, toolCalls, end: { finishReason: 'stop', stopSequence: null } }
+          : { content: limited.content, end: limited };
+        return { choice, usage };
+      };
+
+      // Choices run in parallel within the concurrency limit
+      const completed = await executeAll(n, executeOptions, complete);
+
+      endpoint.send(
+        res,
+        { ...base, choices: completed.map(({ choice }) => choice), usage: sumUsage(completed.map(({ usage }) => usage)) },
+        request.stream === true
+      );
+    } catch (error: any) {
+      if (error instanceof CancelledError) {
+        // The client is gone; observeRequests logs the request as cancelled
+        return;
+      }
+      logger.error('Error processing request', { error });
+
+      const { status, body, headers } = toErrorResponse(error);
+      res.status(status).set(headers || {}).json(body);
+    }
+  };
+
+  // OpenAI-compatible chat completions endpoint
+  app.post('/v1/chat/completions', ...protect, (req: Request, res: Response) => {
+    if (!checkUnsupportedParameters(res, req.body)) return;
+    return handleChat(req, res, req.body, chatCompletionEndpoint);
+  });
+
+  // OpenAI Responses API endpoint
+  app.post('/v1/responses', ...protect, (req: Request, res: Response) => {
+    const request: ResponseRequest = req.body;
+    if (!checkUnsupportedParameters(res, req.body)) return;
+
+    const validationError = validateResponseRequest(request);
+    if (validationError) {
+      return sendInvalidRequest(res, validationError);
+    }
+
+    return handleChat(req, res, toChatRequest(request), responsesEndpoint(request.instructions ?? null));
+  });
+
+  // Anthropic Messages API endpoint, answering with Anthropic error bodies
+  app.post('/v1/messages', anthropicErrors, ...protect, (req: Request, res: Response) => {
+    const request: AnthropicMessagesRequest = req.body;
+    if (!checkUnsupportedParameters(res, req.body)) return;
+
+    const validationError = validateMessagesRequest(request);
+    if (validationError) {
+      return sendInvalidRequest(res, validationError);
+    }
+
+    return handleChat(req, res, messagesToChatRequest(request), messagesEndpoint);
+  });
+
+  // Legacy text completions endpoint
+  app.post('/v1/completions', ...protect, async (req: Request, res: Response) => {
+    try {
+      const request: CompletionRequest = req.body;
+      if (!checkUnsupportedParameters(res, req.body)) return;
+
+      const validationError = validateParameters(request) || validateCompletionRequest(request);
+      if (validationError) {
+        return sendInvalidRequest(res, validationError);
+      }
+
+      const route = routeModel(res, request.model);
+      if (!route) return;
+      const { routed, modelId, adapter } = route;
+
+      const prompts = completionPrompts(request.prompt);
+      const n = request.n || 1;
+      const limits = outputLimits(request);
+      const executeOptions = executionOptions(req, res, limits);
+      const base = {
+        id: completionId(),
+        object: 'text_completion' as const,
+        created: Math.floor(Date.now() / 1000),
+        model: request.model || adapter.getModelName(),
+      };
+
+      if (request.stream && prompts.length === 1 && n === 1) {
+        const [prompt] = prompts;
+        const echo = request.echo ? prompt : '';
+        const chunk = (text: string, finishReason: CompletionResponse['choices'][0]['finish_reason']) => ({
+          data: { ...base, choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }] },
+        });
+        const messages = buildCompletionMessages(prompt, request.suffix);
+        let reported: ExecutionResult['usage'];
+        const streamOptions: ExecuteOptions = { ...executeOptions, onUsage: (usage) => (reported = usage) };
+        const streamed = await streamExecution(res, adapter, messages, limits, streamOptions, logger, {
+          start: () => (echo ? [chunk(echo, null)] : []),
+          delta: (text) => [chunk(text, null)],
+          finish: (_, end) => [chunk('', end.finishReason), DONE_EVENT],
+          error: (body) => [{ data: body }, DONE_EVENT],
+        });
+        if (streamed) {
+          const usage = buildUsage({ content: streamed.content, usage: reported }, prompt);
+          metrics.recordTokens(routed.getName(), modelId, toTokenCounts(usage), reported ? 'reported' : 'estimated');
+        }
+        return;
+      }
+
+      // Every prompt is completed n times, in parallel within the concurrency limit
+      const runs = prompts.flatMap((prompt) => Array.from({ length: n }, () => prompt));
+      const results = await executeAll(runs.length, executeOptions, (runOptions, index) =>
+        adapter.execute(buildCompletionMessages(runs[index], request.suffix), runOptions)
+      );
+      const limited = results.map((result) => limitOutput(result.content, limits));
+
+      const usages = results.map((result, index) => {
+        const usage = buildUsage({ ...result, content: limited[index].content }, runs[index]);
+        metrics.recordTokens(routed.getName(), modelId, toTokenCounts(usage), result.usage ? 'reported' : 'estimated');
+        return usage;
+      });
+
+      const response: CompletionResponse = {
+        ...base,
+        choices: limited.map(({ content, finishReason }, index) => ({
+          text: (request.echo ? runs[index] : '') + content,
+          index,
+          logprobs: null,
+          finish_reason: finishReason,
+        })),
+        usage: sumUsage(usages),
+      };
+
+      if (request.stream) {
+        // Several choices are only sent once all of them are complete
+        openEventStream(res);
+        for (const choice of response.choices) {
+          writeEvent(res, { data: { ...base, choices: [choice] } });
+        }
+        writeEvent(res, DONE_EVENT);
+        return res.end();
+      }
+
       res.json(response);
     } catch (error: any) {
-      console.error('Error processing request:', error);
-
-      let errorResponse: ErrorResponse;
-
-      if (error instanceof TimeoutError) {
-        errorResponse = {
-          error: {
-            message: error.message,
-            type: 'timeout_error',
-            code: 'timeout',
-          },
-        };
-        res.status(504).json(errorResponse);
-      } else {
-        errorResponse = {
-          error: {
-            message: error.message || 'Internal server error',
-            type: 'internal_error',
-            code: 'internal_error',
-          },
-        };
-        res.status(500).json(errorResponse);
+      if (error instanceof CancelledError) {
+        // The client is gone; observeRequests logs the request as cancelled
+        return;
       }
+      logger.error('Error processing request', { error });
+
+      const { status, body, headers } = toErrorResponse(error);
+      res.status(status).set(headers || {}).json(body);
     }
   });
 
   // Models endpoint (optional, for compatibility)
-  app.get('/v1/models', (req: Request, res: Response) => {
+  app.get('/v1/models', ...protect, (req: Request, res: Response) => {
+    const created = Math.floor(Date.now() / 1000);
+    const apiKey: ApiKeyPolicy | undefined = res.locals.apiKey;
+    const models = registry.listModels().filter((id) => !auth || !apiKey || auth.allowsModel(apiKey, id));
     res.json({
       object: 'list',
-      data: [
-        {
-          id: adapter.getModelName(),
-          object: 'model',
-          created: Math.floor(Date.now() / 1000),
-          owned_by: 'cli-agent-openai-adapter',
-        },
-      ],
+      data: models.map((id) => ({
+        id,
+        object: 'model',
+        created,
+        owned_by: 'cli-agent-openai-adapter',
+      })),
     });
   });
 
+  // Prometheus metrics endpoint
+  app.get('/metrics', (req: Request, res: Response) => {
+    res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+  });
+
   return app;
 }
 
+/**
+ * Middleware assigning request ids, and logging and counting finished requests
+ *
+ * The request id comes from the `X-Request-Id` header or generateId(), is echoed
+ * in the response header, used as the chat completion id and added to every log
+ * line of the request. The error type is taken from the JSON error body, or set in
+ * `res.locals.errorType` for errors reported in a stream. Requests whose client
+ * disconnected first are logged as cancelled.
+ */
+function observeRequests(metrics: ServerMetrics, logger: Logger): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+    const incomingId = req.get('X-Request-Id');
+    const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : generateId();
+    res.locals.requestId = requestId;
+    res.setHeader('X-Request-Id', requestId);
+
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      // Endpoints reshaping error bodies record the original error type first
+      if (body?.error?.type && !res.locals.errorType) {
+        res.locals.errorType = body.error.type;
+      }
+      if (logger.capturePayloads) {
+        res.locals.responseBody = body;
+      }
+      return json(body);
+    };
+
+    const record = (cancelled: boolean) => {
+      // Unmatched paths share one label to keep the number of series bounded
+      const route = req.route ? req.route.path : 'unmatched';
+      // Disconnected clients get no response; 499 (client closed request) tells them apart
+      const status = cancelled ? CLIENT_CLOSED_REQUEST : res.statusCode;
+      metrics.recordRequest(route, status, res.locals.errorType);
+
+      const level = cancelled ? 'info' : status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+      logger.log(level, cancelled ? 'Request cancelled' : 'Request completed', {
+        requestId,
+        method: req.method,
+        route,
+        status,
+        durationMs: Date.now() - startedAt,
+        adapter: res.locals.adapter,
+        model: res.locals.model,
+        backend: res.locals.backends?.join(', '),
+        outcome: cancelled ? 'cancelled' : res.locals.errorType ? 'error' : 'success',
+        errorType: res.locals.errorType,
+        cache: res.getHeader('x-cache'),
+        stream: req.body?.stream === true || undefined,
+      });
+      // Prompts and replies are only logged with payload capture enabled
+      if (logger.capturePayloads) {
+        logger.debug('Request payloads', { requestId, request: req.body, response: res.locals.responseBody });
+      }
+    };
+
+    res.on('finish', () => record(false));
+    // The connection closed before the response was complete: the client disconnected
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        record(true);
+      }
+    });
+
+    logger.withContext({ requestId }, next);
+  };
+}
+
+/**
+ * Middleware checking the API key and its origin and rate limit policy
+ * The key's policy is stored in `res.locals.apiKey` for the route handlers
+ */
+function authenticate(auth: ApiKeyAuth): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Anthropic clients send the key in the x-api-key header
+    const apiKey = req.get('x-api-key');
+    const header = req.get('Authorization') || (apiKey ? `Bearer ${apiKey}` : undefined);
+    const policy = auth.authenticate(header);
+
+    if (!policy) {
+      const provided = /^Bearer\s+(\S+)/i.exec(header || '')?.[1];
+      const errorResponse: ErrorResponse = {
+        error: {
+          message: provided
+            ? `Incorrect API key provided: ${maskApiKey(provided)}.`
+            : "You didn't provide an API key. Provide it in the Authorization header as `Bearer <key>`.",
+          type: 'invalid_request_error',
+          code: 'invalid_api_key',
+        },
+      };
+      return res.status(401).json(errorResponse);
+    }
+
+    const origin = req.get('Origin');
+    if (origin && !auth.allowsOrigin(policy, origin)) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          message: `Origin ${origin} is not allowed for this API key.`,
+          type: 'permission_error',
+          code: 'origin_not_allowed',
+        },
+      };
+      return res.status(403).json(errorResponse);
+    }
+
+    const rateLimit = auth.checkRateLimit(policy);
+    if (!rateLimit.allowed) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          message: `Rate limit reached for this API key: ${policy.rateLimit} requests per minute.`,
+          type: 'rate_limit_error',
+          code: 'rate_limit_exceeded',
+        },
+      };
+      return res.status(429).set('Retry-After', String(rateLimit.retryAfter)).json(errorResponse);
+    }
+
+    res.locals.apiKey = policy;
+    next();
+  };
+}
+
+/**
+ * Middleware sending the OpenAI-style error bodies of the shared handlers in
+ * the Anthropic error shape
+ */
+function anthropicErrors(req: Request, res: Response, next: NextFunction): void {
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (body?.error?.code) {
+      res.locals.errorType = body.error.type;
+      return json(toAnthropicError(body));
+    }
+    return json(body);
+  };
+  next();
+}
+
+/**
+ * Error middleware answering bodies that cannot be read as JSON with a JSON
+ * error instead of the default HTML page: 413 when over the size limit,
+ * 400 when malformed
+ * Requests to `/v1/messages` get the Anthropic error shape
+ */
+function bodyParserErrors(error: any, req: Request, res: Response, next: NextFunction): void {
+  let errorResponse: ErrorResponse;
+  if (error?.type === 'entity.too.large') {
+    errorResponse = {
+      error: {
+        message: `Request body of ${error.length} bytes exceeds the limit of ${error.limit} bytes.`,
+        type: 'invalid_request_error',
+        code: 'request_too_large',
+      },
+    };
+  } else if (error?.type === 'entity.parse.failed') {
+    errorResponse = {
+      error: {
+        message: `Request body is not valid JSON: ${error.message}`,
+        type: 'invalid_request_error',
+        code: 'invalid_json',
+      },
+    };
+  } else if (error?.expose && error.status >= 400 && error.status < 500) {
+    // Other client errors of the body parser, such as an unsupported charset
+    errorResponse = { error: { message: error.message, type: 'invalid_request_error', code: 'invalid_request' } };
+  } else {
+    return next(error);
+  }
+
+  res.locals.errorType = errorResponse.error.type;
+  res.status(error.status).json(req.path === '/v1/messages' ? toAnthropicError(errorResponse) : errorResponse);
+}
+
+/**
+ * Response cache bound to a single request
+ *
+ * Sets the `x-cache` response header. A `Cache-Control: no-cache` request
+ * header skips the lookup but stores the fresh result, `no-store` bypasses
+ * the cache entirely.
+ */
+function createRequestCache(
+  cache: ResponseCache,
+  req: Request,
+  res: Response,
+  adapter: CLIAdapter,
+  request: ChatCompletionRequest,
+  messages: Message[],
+  executeOptions: ExecuteOptions,
+  logger: Logger
+): { lookup(): Promise<ExecutionResult | undefined>; store(result: ExecutionResult): Promise<void> } {
+  const directives = (req.get('Cache-Control') || '').toLowerCase();
+  const noStore = directives.includes('no-store');
+  const noCache = noStore || directives.includes('no-cache');
+  const key = cache.key(adapter, request, messages, executeOptions.template);
+
+  return {
+    async lookup() {
+      const result = noCache ? undefined : await cache.get(key);
+      res.setHeader('x-cache', result ? 'hit' : 'miss');
+      return result;
+    },
+    async store(result) {
+      if (noStore) return;
+      try {
+        await cache.set(key, result);
+      } catch (error) {
+        // A failing cache must not fail the request
+        logger.warn('Error writing response cache', { error });
+      }
+    },
+  };
+}
+
+/**
+ * Options of the executions of a request
+ * The `X-Prompt-Template` header selects the prompt template instead of the adapter's default
+ */
+function executionOptions(req: Request, res: Response, limits: OutputLimits): ExecuteOptions {
+  return {
+    maxTokens: limits.maxTokens,
+    template: req.get('X-Prompt-Template') || undefined,
+    signal: disconnectSignal(res),
+    onBackend: (backend) => reportBackend(res, backend),
+  };
+}
+
+/**
+ * Report the backend that answered, reported by adapters with fallbacks, in
+ * the `X-Backend` header and the request log
+ * Several choices can be answered by different backends, which are all listed
+ */
+function reportBackend(res: Response, backend: string): void {
+  const backends: string[] = res.locals.backends || [];
+  if (!backends.includes(backend)) {
+    backends.push(backend);
+  }
+  res.locals.backends = backends;
+  if (!res.headersSent) {
+    res.setHeader('X-Backend', backends.join(', '));
+  }
+}
+
+/**
+ * Signal aborted when the client disconnects before the response is complete,
+ * which cancels the executions still running or queued for the request
+ */
+function disconnectSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Run the executions of a request in parallel
+ *
+ * Each execution gets its own signal, aborted with the signal of the request
+ * or as soon as another execution fails: the response is an error then, and
+ * the executions still running or queued would only hold up other requests.
+ */
+async function executeAll<T>(
+  count: number,
+  options: ExecuteOptions,
+  execute: (options: ExecuteOptions, index: number) => Promise<T>
+): Promise<T[]> {
+  const executions = new AbortController();
+  const cancel = () => executions.abort();
+  options.signal?.addEventListener('abort', cancel);
+  if (options.signal?.aborted) {
+    cancel();
+  }
+  // One listener per execution, linking its signal to the others
+  setMaxListeners(Math.max(count, defaultMaxListeners), executions.signal);
+
+  try {
+    return await Promise.all(
+      Array.from({ length: count }, (_, index) => {
+        const controller = new AbortController();
+        executions.signal.addEventListener('abort', () => controller.abort(), { once: true });
+        return execute({ ...options, signal: controller.signal }, index).catch((error) => {
+          cancel();
+          throw error;
+        });
+      })
+    );
+  } finally {
+    options.signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Stream the output of an execution as server-sent events
+ *
+ * Headers are only sent once the first output arrives, so failures before that
+ * point still produce a regular JSON error response. Later failures are
+ * reported in-band before closing the stream.
+ *
+ * The output limits are applied as the output arrives; the execution is
+ * abandoned once a stop sequence or the token limit is reached.
+ *
+ * Returns the streamed content and why it ended, or undefined when the stream
+ * ended with an error.
+ */
+async function streamExecution(
+  res: Response,
+  adapter: CLIAdapter,
+  messages: Message[],
+  limits: OutputLimits,
+  executeOptions: ExecuteOptions,
+  logger: Logger,
+  format: StreamFormat
+): Promise<(OutputEnd & { content: string }) | undefined> {
+  const start = () => {
+    openEventStream(res);
+    format.start().forEach((event) => writeEvent(res, event));
+  };
+  const limiter = new OutputLimiter(limits);
+
+  let streamed = '';
+  const send = (content: string) => {
+    if (content) {
+      streamed += content;
+      format.delta(content).forEach((event) => writeEvent(res, event));
+    }
+  };
+
+  try {
+    for await (const content of adapter.executeStream(messages, executeOptions)) {
+      if (!res.headersSent) {
+        start();
+      }
+      send(limiter.push(content));
+      if (limiter.done) {
+        break;
+      }
+    }
+    send(limiter.end());
+  } catch (error: any) {
+    if (!res.headersSent) {
+      throw error;
+    }
+    if (error instanceof CancelledError) {
+      res.end();
+      return undefined;
+    }
+
+    // The stream is already open: report the failure in-band and close it
+    logger.error('Error while streaming response', { error });
+    const { body } = toErrorResponse(error);
+    res.locals.errorType = body.error.type;
+    format.error(body).forEach((event) => writeEvent(res, event));
+    res.end();
+    return undefined;
+  }
+
+  if (!res.headersSent) {
+    start();
+  }
+  format.finish(streamed, limiter.result).forEach((event) => writeEvent(res, event));
+  res.end();
+  return { content: streamed, ...limiter.result };
+}
+
+/**
+ * Fields shared by every response and chunk of a request
+ */
+interface ReplyBase {
+  id: string;
+  created: number;
+  /** Model id reported to the client */
+  model: string;
+}
+
+/**
+ * A complete chat reply, before it is shaped into an endpoint's format
+ */
+interface ChatReply extends ReplyBase {
+  /** One choice per execution; endpoints without `n` have a single one */
+  choices: ReplyChoice[];
+  /** Usage of all the executions */
+  usage: Usage;
+}
+
+interface ReplyChoice {
+  content: string | null;
+  toolCalls?: ToolCall[];
+  /** Why the text ended; not relevant to tool calls */
+  end: OutputEnd;
+}
+
+type Usage = NonNullable<ChatCompletionResponse['usage']>;
+
+/**
+ * Presentation of chat replies by an endpoint built on handleChat()
+ */
+interface ChatEndpoint {
+  /** Id of the reply, given the request id */
+  replyId(requestId: string): string;
+  /** Events streaming a reply as the CLI produces it; `usage` gives the usage of the streamed content, reported or estimated */
+  streamFormat(base: ReplyBase, usage: (content: string) => Usage): StreamFormat;
+  /** Send a complete reply, as an event stream when the client asked for one */
+  send(res: Response, reply: ChatReply, stream: boolean): void;
+}
+
+/**
+ * `/v1/chat/completions`: `chat.completion` objects, streamed as
+ * `chat.completion.chunk` objects followed by the `data: [DONE]` terminator
+ */
+const chatCompletionEndpoint: ChatEndpoint = {
+  replyId: (requestId) => requestId,
+
+  streamFormat({ id, created, model }) {
+    const chunk = (
+      delta: ChatCompletionChunk['choices'][0]['delta'],
+      finishReason: ChatCompletionChunk['choices'][0]['finish_reason']
+    ): ServerSentEvent => ({
+      data: {
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      } satisfies ChatCompletionChunk,
+    });
+
+    return {
+      start: () => [chunk({ role: 'assistant', content: '' }, null)],
+      delta: (content) => [chunk({ content }, null)],
+      finish: (_, end) => [chunk({}, end.finishReason), DONE_EVENT],
+      error: (body) => [{ data: body }, DONE_EVENT],
+    };
+  },
+
+  send(res, { id, created, model, choices, usage }, stream) {
+    const response: ChatCompletionResponse = {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: choices.map(({ content, toolCalls, end }, index) => ({
+        index,
+        message: toolCalls
+          ? { role: 'assistant', content: null, tool_calls: toolCalls }
+          : { role: 'assistant', content: content },
+        finish_reason: toolCalls ? 'tool_calls' : end.finishReason,
+      })),
+      usage,
+    };
+
+    if (stream) {
+      return sendCompletionAsStream(res, response);
+    }
+    res.json(response);
+  },
+};
+
+/**
+ * `/v1/responses`: `response` objects, streamed as typed Responses API events
+ */
+function responsesEndpoint(instructions: string | null): ChatEndpoint {
+  return {
+    replyId: () => responseId(),
+    streamFormat: (base, usage) => responseStreamFormat(base, instructions, usage),
+
+    send(res, reply, stream) {
+      const [choice] = reply.choices;
+      const output = buildOutputItems(choice.content, choice.toolCalls, choice.end);
+      const status = !choice.toolCalls && choice.end.finishReason === 'length' ? 'incomplete' : 'completed';
+      const response = buildResponse(reply, instructions, output, reply.usage, status);
+
+      if (stream) {
+        openEventStream(res);
+        responseEvents(response).forEach((event) => writeEvent(res, event));
+        return res.end();
+      }
+      res.json(response);
+    },
+  };
+}
+
+/**
+ * `/v1/messages`: Anthropic `message` objects, streamed as Messages API events
+ */
+const messagesEndpoint: ChatEndpoint = {
+  replyId: () => messageId(),
+  streamFormat: (base, usage) => messageStreamFormat(base, usage),
+
+  send(res, reply, stream) {
+    const [choice] = reply.choices;
+    const message = buildMessage(reply, choice.content, choice.toolCalls, choice.end, reply.usage);
+
+    if (stream) {
+      openEventStream(res);
+      messageEvents(message).forEach((event) => writeEvent(res, event));
+      return res.end();
+    }
+    res.json(message);
+  },
+};
+
+/**
+ * Send a complete response as a server-sent event stream
+ * Used when the reply has to be known in full before it can be sent
+ */
+function sendCompletionAsStream(res: Response, response: ChatCompletionResponse): void {
+  const send = (choice: ChatCompletionChunk['choices'][0]) => {
+    const chunk: ChatCompletionChunk = {
+      id: response.id,
+      object: 'chat.completion.chunk',
+      created: response.created,
+      model: response.model,
+      choices: [choice],
+    };
+    writeEvent(res, { data: chunk });
+  };
+
+  openEventStream(res);
+
+  for (const choice of response.choices) {
+    const { message } = choice;
+    send({
+      index: choice.index,
+      delta: { role: 'assistant', content: message.tool_calls ? null : '' },
+      finish_reason: null,
+    });
+    if (message.tool_calls) {
+      send({
+        index: choice.index,
+        delta: { tool_calls: message.tool_calls.map((call, index) => ({ index, ...call })) },
+        finish_reason: null,
+      });
+    } else if (message.content) {
+      send({ index: choice.index, delta: { content: message.content }, finish_reason: null });
+    }
+    send({ index: choice.index, delta: {}, finish_reason: choice.finish_reason });
+  }
+
+  writeEvent(res, DONE_EVENT);
+  res.end();
+}
+
+/**
+ * Answer with a 400 invalid_request error
+ */
+function sendInvalidRequest(res: Response, message: string): void {
+  const errorResponse: ErrorResponse = {
+    error: {
+      message,
+      type: 'invalid_request_error',
+      code: 'invalid_request',
+    },
+  };
+  res.status(400).json(errorResponse);
+}
+
+/**
+ * Map an adapter error to an HTTP status and OpenAI-compatible error body
+ */
+function toErrorResponse(error: any): {
+  status: number;
+  body: ErrorResponse;
+  headers?: Record<string, string>;
+} {
+  if (error instanceof QueueFullError) {
+    return {
+      status: 429,
+      headers: { 'Retry-After': String(error.retryAfter) },
+      body: {
+        error: {
+          message: error.message,
+          type: 'rate_limit_error',
+          code: 'rate_limit_exceeded',
+        },
+      },
+    };
+  }
+
+  if (error instanceof QueueTimeoutError) {
+    return {
+      status: 503,
+      headers: { 'Retry-After': String(error.retryAfter) },
+      body: {
+        error: {
+          message: error.message,
+          type: 'timeout_error',
+          code: 'queue_timeout',
+        },
+      },
+    };
+  }
+
+  if (error instanceof ContextLengthExceededError) {
+    return {
+      status: 400,
+      body: {
+        error: {
+          message: error.message,
+          type: 'invalid_request_error',
+          code: 'context_length_exceeded',
+          param: 'messages',
+        },
+      },
+    };
+  }
+
+  if (error instanceof TemplateNotFoundError) {
+    return {
+      status: 400,
+      body: {
+        error: {
+          message: error.message,
+          type: 'invalid_request_error',
+          code: 'template_not_found',
+        },
+      },
+    };
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return {
+      status: 502,
+      body: {
+        error: {
+          message: error.message,
+          type: 'invalid_response_error',
+          code: 'invalid_json_output',
+        },
+      },
+    };
+  }
+
+  if (error instanceof FixtureNotFoundError) {
+    return {
+      status: 500,
+      body: {
+        error: {
+          message: error.message,
+          type: 'internal_error',
+          code: 'fixture_not_found',
+        },
+      },
+    };
+  }
+
+  if (error instanceof TimeoutError) {
+    return {
+      status: 504,
+      body: {
+        error: {
+          message: error.message,
+          type: 'timeout_error',
+          code: 'timeout',
+        },
+      },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        message: error.message || 'Internal server error',
+        type: 'internal_error',
+        code: 'internal_error',
+      },
+    },
+  };
+}
+
+/**
+ * Status recorded for requests whose client disconnected before the response was complete
+ */
+const CLIENT_CLOSED_REQUEST = 499;
+
+/**
+ * Accepted format of an incoming X-Request-Id
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
 /**
  * Generate a unique ID for chat completion
  */
@@ -130,10 +1164,41 @@ function generateId(): string {
 }
 
 /**
- * Estimate token count (rough approximation)
- * Real token counting requires the actual tokenizer
+ * Build the usage block for a response
+ * Prefers token counts reported by the CLI and estimates them from the input text otherwise
  */
-function estimateTokens(text: string): number {
-  // Rough estimate: ~4 characters per token
-  return Math.ceil(text.length / 4);
+function buildUsage(result: ExecutionResult, input: string): Usage {
+  if (result.usage) {
+    return {
+      prompt_tokens: result.usage.inputTokens,
+      completion_tokens: result.usage.outputTokens,
+      total_tokens: result.usage.inputTokens + result.usage.outputTokens,
+    };
+  }
+
+  return {
+    prompt_tokens: estimateTokens(input),
+    completion_tokens: estimateTokens(result.content),
+    total_tokens: estimateTokens(input + result.content),
+  };
+}
+
+function toTokenCounts(usage: Usage) {
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
 }
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Total usage of several executions
+ */
+function sumUsage(usages: Usage[]): Usage {
+  return {
+    prompt_tokens: sum(usages.map((usage) => usage.prompt_tokens)),
+    completion_tokens: sum(usages.map((usage) => usage.completion_tokens)),
+    total_tokens: sum(usages.map((usage) => usage.total_tokens)),
+  };
+}
+
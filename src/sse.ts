@@ -0,0 +1,49 @@
+import { Response } from 'express';
+import { OutputEnd } from './parameters';
+import { ErrorResponse } from './types';
+
+/**
+ * Server-sent event streams shared by the streaming endpoints
+ */
+
+/**
+ * A server-sent event; string data is written as is, other data as JSON
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: unknown;
+}
+
+/**
+ * Terminator of OpenAI event streams
+ */
+export const DONE_EVENT: ServerSentEvent = { data: '[DONE]' };
+
+/**
+ * Events of an endpoint's streaming format
+ */
+export interface StreamFormat {
+  /** Events opening the stream */
+  start(): ServerSentEvent[];
+  /** Events carrying a piece of output */
+  delta(content: string): ServerSentEvent[];
+  /** Events closing the stream once the output is complete, or cut by a stop sequence or the token limit */
+  finish(content: string, end: OutputEnd): ServerSentEvent[];
+  /** Events reporting a failure after the stream was opened */
+  error(body: ErrorResponse): ServerSentEvent[];
+}
+
+export function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+export function writeEvent(res: Response, { event, data }: ServerSentEvent): void {
+  if (event) {
+    res.write(`event: ${event}\n`);
+  }
+  res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
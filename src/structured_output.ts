@@ -0,0 +1,172 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { CLIAdapter } from './adapters/base';
+import { withSystemInstructions } from './adapters/prompt';
+import { extractJsonObject } from './json';
+import { ExecuteOptions, ExecutionResult, Message, ResponseFormat } from './types';
+
+/**
+ * Structured output (`response_format`) on top of free-form CLI replies
+ *
+ * The model is instructed through the system prompt, the JSON object is
+ * extracted from its reply (dropping prose and code fences) and validated.
+ * An invalid reply is retried once with the validation errors.
+ */
+
+/**
+ * Raised when the reply is still invalid after the retry
+ */
+export class StructuredOutputError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Model response did not match the requested response_format: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Check response_format from a request
+ * Returns an error message, or undefined when valid
+ */
+export function validateResponseFormat(format: unknown): string | undefined {
+  if (format === undefined) {
+    return undefined;
+  }
+
+  const type = (format as any)?.type;
+  if (type === 'text' || type === 'json_object') {
+    return undefined;
+  }
+  if (type !== 'json_schema') {
+    return 'Invalid request: response_format.type must be "text", "json_object" or "json_schema"';
+  }
+
+  const jsonSchema = (format as any).json_schema;
+  if (!jsonSchema || typeof jsonSchema.name !== 'string' || !jsonSchema.name) {
+    return 'Invalid request: response_format.json_schema.name is required';
+  }
+  if (jsonSchema.schema !== undefined) {
+    try {
+      compileSchema(jsonSchema.schema);
+    } catch (error: any) {
+      return `Invalid request: response_format.json_schema.schema is not a valid JSON schema: ${error.message}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the response format requires a JSON reply
+ */
+export function isStructured(format: ResponseFormat | undefined): boolean {
+  return format !== undefined && format.type !== 'text';
+}
+
+/**
+ * Add response format instructions to the system prompt
+ */
+export function applyResponseFormat(messages: Message[], format: ResponseFormat | undefined): Message[] {
+  if (!format || !isStructured(format)) {
+    return messages;
+  }
+  return withSystemInstructions(messages, buildFormatInstructions(format));
+}
+
+/**
+ * Validate a reply against the response format, retrying once when invalid
+ *
+ * Returns the result with its content replaced by the extracted JSON. Usage
+ * of both executions is added up when a retry was needed.
+ */
+export async function enforceResponseFormat(
+  adapter: CLIAdapter,
+  messages: Message[],
+  result: ExecutionResult,
+  format: ResponseFormat,
+  options?: ExecuteOptions
+): Promise<ExecutionResult> {
+  const first = checkReply(result.content, format);
+  if (!first.errors) {
+    return { ...result, content: first.json };
+  }
+
+  const retryMessages: Message[] = [
+    ...messages,
+    { role: 'assistant', content: result.content },
+    { role: 'user', content: buildRetryPrompt(first.errors) },
+  ];
+  const retried = await adapter.execute(retryMessages, options);
+
+  const second = checkReply(retried.content, format);
+  if (second.errors) {
+    throw new StructuredOutputError(second.errors);
+  }
+
+  return {
+    ...retried,
+    content: second.json,
+    usage:
+      result.usage && retried.usage
+        ? {
+            inputTokens: result.usage.inputTokens + retried.usage.inputTokens,
+            outputTokens: result.usage.outputTokens + retried.usage.outputTokens,
+          }
+        : retried.usage,
+  };
+}
+
+/**
+ * Extract and validate the JSON object in a reply
+ */
+function checkReply(
+  content: string,
+  format: ResponseFormat
+): { json: string; errors?: undefined } | { json?: undefined; errors: string[] } {
+  const value = extractJsonObject(content);
+  if (value === undefined) {
+    return { errors: ['the reply does not contain a valid JSON object'] };
+  }
+
+  const schema = format.type === 'json_schema' ? format.json_schema.schema : undefined;
+  if (schema) {
+    const validate = compileSchema(schema);
+    if (!validate(value)) {
+      return { errors: (validate.errors || []).map(formatSchemaError) };
+    }
+  }
+
+  return { json: JSON.stringify(value) };
+}
+
+function buildFormatInstructions(format: ResponseFormat): string {
+  let instructions = `Response format:
+Reply with a single valid JSON object only. Do not wrap it in markdown code fences and do not add any text before or after it.`;
+
+  if (format.type === 'json_schema') {
+    const { name, description, schema } = format.json_schema;
+    instructions += `\nThe JSON object is "${name}"${description ? ` (${description})` : ''}.`;
+    if (schema) {
+      instructions += ` It must conform to this JSON schema:\n${JSON.stringify(schema, null, 2)}`;
+    }
+  }
+
+  return instructions;
+}
+
+function buildRetryPrompt(errors: string[]): string {
+  return `Your previous reply did not match the required response format:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON object.`;
+}
+
+function compileSchema(schema: Record<string, unknown>): ValidateFunction {
+  // A fresh instance per schema avoids clashes between schemas sharing an $id
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  return ajv.compile(schema);
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  return `${error.instancePath || '/'} ${error.message}`;
+}
@@ -0,0 +1,205 @@
+import { randomBytes } from 'crypto';
+import { extractJsonObject } from './json';
+import { contentText, withSystemInstructions } from './adapters/prompt';
+import { Message, Tool, ToolCall, ToolChoice } from './types';
+
+/**
+ * Tool (function) calling on top of text-only CLI agents
+ *
+ * The CLI has no native notion of OpenAI tools, so:
+ * 1. The tool schemas and a reply protocol are added to the system prompt
+ * 2. Tool-related messages from earlier turns are rewritten as plain text
+ * 3. A reply following the protocol is parsed back into `tool_calls`
+ */
+
+/**
+ * Check tools and tool_choice from a request
+ * Returns an error message, or undefined when valid
+ */
+export function validateTools(tools: unknown, toolChoice: unknown): string | undefined {
+  if (tools !== undefined) {
+    if (!Array.isArray(tools)) {
+      return 'Invalid request: tools must be an array';
+    }
+    for (const tool of tools) {
+      if (!tool || tool.type !== 'function' || !tool.function || typeof tool.function.name !== 'string') {
+        return 'Invalid request: each tool must be of type "function" with a function name';
+      }
+    }
+  }
+
+  if (toolChoice === undefined) {
+    return undefined;
+  }
+  if (toolChoice === 'none' || toolChoice === 'auto' || toolChoice === 'required') {
+    if (toolChoice === 'required' && !hasTools(tools as Tool[] | undefined)) {
+      return 'Invalid request: tool_choice "required" needs at least one tool';
+    }
+    return undefined;
+  }
+
+  const name = (toolChoice as any)?.function?.name;
+  if ((toolChoice as any)?.type !== 'function' || typeof name !== 'string') {
+    return 'Invalid request: tool_choice must be "none", "auto", "required" or a function';
+  }
+  if (!(tools as Tool[] | undefined)?.some((tool) => tool.function.name === name)) {
+    return `Invalid request: tool_choice refers to unknown function "${name}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether tool calls should be offered to the model for this request
+ */
+export function toolsEnabled(tools: Tool[] | undefined, toolChoice: ToolChoice | undefined): boolean {
+  return hasTools(tools) && toolChoice !== 'none';
+}
+
+/**
+ * Prepare messages for a text-only adapter
+ *
+ * Tool messages and assistant tool calls are always rewritten as text. When
+ * tools are enabled, their description is appended to the first system
+ * message (or added as one).
+ */
+export function prepareToolMessages(
+  messages: Message[],
+  tools: Tool[] | undefined,
+  toolChoice: ToolChoice | undefined
+): Message[] {
+  const prepared = messages.map(toTextMessage);
+
+  if (!toolsEnabled(tools, toolChoice)) {
+    return prepared;
+  }
+
+  return withSystemInstructions(prepared, buildToolInstructions(tools as Tool[], toolChoice));
+}
+
+/**
+ * Parse a model reply into tool calls
+ *
+ * Returns the tool calls when the reply is a `{"tool_calls": [...]}` object
+ * (optionally inside a code fence) naming only known tools; otherwise the
+ * reply is returned unchanged as content.
+ */
+export function parseToolCalls(
+  content: string,
+  tools: Tool[]
+): { content: string | null; toolCalls?: ToolCall[] } {
+  const parsed = extractJsonObject(content);
+  const calls = parsed && Array.isArray(parsed.tool_calls) ? parsed.tool_calls : undefined;
+  if (!calls || calls.length === 0) {
+    return { content };
+  }
+
+  const known = new Set(tools.map((tool) => tool.function.name));
+  const toolCalls: ToolCall[] = [];
+  for (const call of calls) {
+    const name = call?.name ?? call?.function?.name;
+    if (typeof name !== 'string' || !known.has(name)) {
+      return { content };
+    }
+    const args = toolArguments(call.arguments ?? call.function?.arguments ?? {});
+    if (args === undefined) {
+      return { content };
+    }
+    toolCalls.push({
+      id: generateToolCallId(),
+      type: 'function',
+      function: { name, arguments: args },
+    });
+  }
+
+  return { content: null, toolCalls };
+}
+
+/**
+ * Arguments of a tool call as a JSON object string
+ * Returns undefined when they are not a JSON object, written as a string or not
+ */
+function toolArguments(args: unknown): string | undefined {
+  let value = args;
+  if (typeof args === 'string') {
+    try {
+      value = JSON.parse(args);
+    } catch {
+      return undefined;
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  return typeof args === 'string' ? args : JSON.stringify(args);
+}
+
+function hasTools(tools: Tool[] | undefined): boolean {
+  return Array.isArray(tools) && tools.length > 0;
+}
+
+/**
+ * Describe the tools and the reply protocol for the system prompt
+ */
+function buildToolInstructions(tools: Tool[], toolChoice: ToolChoice | undefined): string {
+  const descriptions = tools.map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description || '',
+    parameters: tool.function.parameters || { type: 'object', properties: {} },
+  }));
+
+  let requirement = 'If no tool is needed, reply to the user normally in plain text.';
+  if (toolChoice === 'required') {
+    requirement = 'You must call at least one tool in this reply.';
+  } else if (typeof toolChoice === 'object') {
+    requirement = `You must call the tool "${toolChoice.function.name}" in this reply.`;
+  }
+
+  return `Tools:
+You can call the following tools. Each tool's parameters are described by a JSON schema.
+${JSON.stringify(descriptions, null, 2)}
+
+To call one or more tools, reply with ONLY a JSON object of this exact form and nothing else:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments matching the schema>}}]}
+Tool results will be provided in a later message. ${requirement}`;
+}
+
+/**
+ * Rewrite tool-related messages as plain text messages
+ */
+function toTextMessage(message: Message): Message {
+  if (message.role === 'tool') {
+    const name = message.name ? ` (${message.name})` : '';
+    return {
+      role: 'user',
+      content: `Tool result for call ${message.tool_call_id || 'unknown'}${name}:\n${contentText(message.content)}`,
+    };
+  }
+
+  if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
+    const calls = message.tool_calls.map((call) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseArguments(call.function.arguments),
+    }));
+    const text = JSON.stringify({ tool_calls: calls });
+    const content = contentText(message.content);
+    return {
+      role: 'assistant',
+      content: content ? `${content}\n${text}` : text,
+    };
+  }
+
+  return message;
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+function generateToolCallId(): string {
+  return `call_${randomBytes(12).toString('hex')}`;
+}
@@ -3,16 +3,77 @@
  */
 
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** null for assistant messages that only carry tool_calls; an array of parts for multimodal content */
+  content: string | ContentPart[] | null;
+  name?: string;
+  /** Tool calls requested by the assistant */
+  tool_calls?: ToolCall[];
+  /** For role 'tool': the id of the call this message answers */
+  tool_call_id?: string;
+}
+
+/**
+ * Part of a multimodal message
+ * `image_url.url` is a `data:` URL with base64 content, or a `file://` URL when
+ * the server has an image directory
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
 }
 
+export interface Tool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    /** JSON schema of the function parameters */
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type ToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+
 export interface ChatCompletionRequest {
   model: string;
   messages: Message[];
   temperature?: number;
+  top_p?: number;
   max_tokens?: number;
+  /** Newer name of max_tokens, preferred when both are set */
+  max_completion_tokens?: number;
+  stop?: string | string[];
+  /** Number of choices, each from a separate execution */
+  n?: number;
   stream?: boolean;
+  tools?: Tool[];
+  tool_choice?: ToolChoice;
+  response_format?: ResponseFormat;
 }
 
 export interface ChatCompletionResponse {
@@ -24,9 +85,10 @@ export interface ChatCompletionResponse {
     index: number;
     message: {
       role: 'assistant';
-      content: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
     };
-    finish_reason: 'stop' | 'length' | 'content_filter' | null;
+    finish_reason: FinishReason;
   }>;
   usage?: {
     prompt_tokens: number;
@@ -35,12 +97,231 @@ export interface ChatCompletionResponse {
   };
 }
 
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      tool_calls?: Array<ToolCall & { index: number }>;
+    };
+    finish_reason: FinishReason;
+  }>;
+}
+
+/**
+ * Legacy text completion request (`/v1/completions`)
+ */
+export interface CompletionRequest {
+  model: string;
+  /** A prompt, or several prompts completed independently */
+  prompt: string | string[];
+  /** Text that follows the completion */
+  suffix?: string;
+  max_tokens?: number;
+  stop?: string | string[];
+  temperature?: number;
+  /** Completions per prompt */
+  n?: number;
+  stream?: boolean;
+  /** Return the prompt followed by the completion */
+  echo?: boolean;
+}
+
+/**
+ * Text completion, also used for the chunks of a streamed completion
+ */
+export interface CompletionResponse {
+  id: string;
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    text: string;
+    index: number;
+    logprobs: null;
+    finish_reason: FinishReason;
+  }>;
+  usage?: ChatCompletionResponse['usage'];
+}
+
+/**
+ * OpenAI Responses API request (`/v1/responses`)
+ */
+export interface ResponseRequest {
+  model: string;
+  /** A user message, or a list of conversation items */
+  input: string | ResponseInputItem[];
+  /** System instructions placed ahead of the input */
+  instructions?: string;
+  stream?: boolean;
+  temperature?: number;
+  max_output_tokens?: number;
+  tools?: ResponseFunctionTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+  text?: { format?: ResponseTextFormat };
+}
+
+export type ResponseInputItem =
+  | {
+      type?: 'message';
+      role: 'user' | 'assistant' | 'system' | 'developer';
+      content: string | ResponseInputContent[];
+    }
+  | { type: 'function_call'; id?: string; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
+
+export type ResponseInputContent =
+  | { type: 'input_text'; text: string }
+  | { type: 'output_text'; text: string }
+  | { type: 'input_image'; image_url: string; detail?: 'auto' | 'low' | 'high' };
+
+export interface ResponseFunctionTool {
+  type: 'function';
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export type ResponseTextFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; description?: string; schema?: Record<string, unknown>; strict?: boolean };
+
+export type ResponseOutputItem =
+  | {
+      type: 'message';
+      id: string;
+      status: 'in_progress' | 'completed' | 'incomplete';
+      role: 'assistant';
+      content: Array<{ type: 'output_text'; text: string; annotations: [] }>;
+    }
+  | { type: 'function_call'; id: string; call_id: string; name: string; arguments: string; status: 'completed' };
+
+/**
+ * Responses API `response` object, also embedded in streaming events
+ */
+export interface ResponseObject {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete' | 'failed';
+  model: string;
+  output: ResponseOutputItem[];
+  instructions: string | null;
+  error: { code: string; message: string } | null;
+  incomplete_details: { reason: 'max_output_tokens' } | null;
+  usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+}
+
+/**
+ * Anthropic Messages API request (`/v1/messages`)
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessageParam[];
+  system?: string | AnthropicTextBlock[];
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+}
+
+export interface AnthropicMessageParam {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | {
+      type: 'image';
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+    }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content?: string | AnthropicTextBlock[]; is_error?: boolean };
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  /** JSON schema of the tool input */
+  input_schema: Record<string, unknown>;
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+/**
+ * Anthropic Messages API `message` object
+ */
+export interface AnthropicMessage {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<AnthropicTextBlock | { type: 'tool_use'; id: string; name: string; input: unknown }>;
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
 export interface ErrorResponse {
   error: {
     message: string;
     type: string;
     code: string;
+    /** Request parameter the error is about */
+    param?: string;
+  };
+}
+
+/**
+ * Per-request options of a CLI execution
+ */
+export interface ExecuteOptions {
+  /** Output token limit, passed to the CLIs that support one */
+  maxTokens?: number;
+  /** Name of the prompt template; the adapter's default when absent */
+  template?: string;
+  /** Cancels the execution, killing the CLI process tree; it then fails with CancelledError */
+  signal?: AbortSignal;
+  /** Called with the model id of the backend that answered, by adapters with fallbacks */
+  onBackend?: (backend: string) => void;
+  /** Called with the token counts reported by the CLI once a stream has ended, by adapters whose CLI reports them */
+  onUsage?: (usage: NonNullable<ExecutionResult['usage']>) => void;
+}
+
+/**
+ * Result of a single CLI execution
+ */
+export interface ExecutionResult {
+  content: string;
+  /** Token counts reported by the CLI; absent when the CLI does not report them */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
   };
+  costUsd?: number;
+  sessionId?: string;
 }
 
 export interface AdapterConfig {
@@ -49,4 +330,73 @@ export interface AdapterConfig {
   timeout: number;
   debug: boolean;
   model?: string;
+  /** Additional CLI models routable as `<type>/<model>` */
+  models?: string[];
+  /** Record executions to, or replay them from, a JSONL fixtures file */
+  fixtures?: {
+    mode: 'record' | 'replay';
+    file: string;
+  };
+  /** Resume CLI sessions of continued conversations (claude-code only); `ttl` is in milliseconds */
+  sessions?: {
+    ttl: number;
+  };
+  /** Serve codex although its agent can run shell commands that read any file on the host (codex only) */
+  allowShell?: boolean;
+  /** Name of the prompt template used when a request does not select one (default: `default`) */
+  promptTemplate?: string;
+  /** Templates loaded from files, by name, in addition to the built-in ones */
+  promptTemplates?: Record<string, PromptTemplate>;
+  /** Context budget of the conversations sent to the CLI */
+  context?: {
+    /** Estimated tokens allowed per request; absent for models without a budget */
+    maxTokens?: number;
+    /** Budgets of specific CLI models, overriding `maxTokens` */
+    models?: Record<string, number>;
+    strategy: TruncationStrategy;
+    /** Turns kept by `last-turns`, and kept verbatim by `summarize` */
+    lastTurns: number;
+  };
+  /** Retries of failed executions; absent when they are not retried */
+  retry?: RetryPolicy;
+  /** Model ids tried in order when the executions of this adapter fail, e.g. `gemini-cli/flash` */
+  fallback?: string[];
+}
+
+/**
+ * Retries of transient execution failures, with exponential backoff
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry */
+  delay: number;
+  /** Longest delay between retries in milliseconds */
+  maxDelay: number;
+}
+
+/**
+ * How conversations over the context budget are handled:
+ * - `none`: rejected with `context_length_exceeded`
+ * - `drop-oldest`: the oldest turns are dropped until the rest fits
+ * - `last-turns`: only the last `lastTurns` turns are kept
+ * - `summarize`: turns before the last `lastTurns` are replaced by a summary
+ *
+ * System messages and the latest turn are always kept.
+ */
+export type TruncationStrategy = 'none' | 'drop-oldest' | 'last-turns' | 'summarize';
+
+/**
+ * Template turning a conversation into the system and user prompts of a CLI
+ *
+ * `system` and `user` can use the variables `{{system}}` (the system message),
+ * `{{history}}` (the messages before the latest one, formatted as `history`)
+ * and `{{latest}}` (the latest message), and sections `{{#name}}...{{/name}}`
+ * and `{{^name}}...{{/name}}`, rendered when the variable is set or empty.
+ */
+export interface PromptTemplate {
+  system: string;
+  user: string;
+  /** Format of `{{history}}`: a JSON array of messages, `Role: text` paragraphs or `<message>` elements */
+  history: 'json' | 'transcript' | 'xml';
 }